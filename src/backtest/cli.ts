@@ -0,0 +1,116 @@
+// Backtest CLI - Replay recorded snapshots offline
+//
+//   pnpm backtest --snapshots ./data/snapshots.jsonl
+//   pnpm backtest --snapshots ./data/snapshots.jsonl --resolutions ./data/resolutions.json \
+//                 --llm ./data/llm-responses.jsonl --config ./backtest-config.json --out ./result.json
+//
+// --snapshots    JSON-lines file written by FileSnapshotBackend
+// --resolutions  JSON array of { marketId, winningOutcomeId, resolvedAt }
+// --llm          JSON-lines file of recorded LLM responses
+// --config       Partial AgentConfig merged over the defaults (thresholds, limits, strategies, exitRules)
+// --backfill     Minutes per step: first prepend CLOB price history for the recorded markets
+// --clob         CLOB base URL for --backfill (defaults to Polymarket's)
+import { readFile, writeFile } from 'node:fs/promises';
+import type { AgentConfig, RecordedLLMResponse } from '@/types/polymarket';
+import { Backtester, type BacktestResolution } from '@/lib/backtester';
+import { FileSnapshotBackend, PriceHistoryStore } from '@/lib/price-history';
+import { initializeAPI } from '@/lib/polymarket-api';
+import { DEFAULT_SAFETY_LIMITS } from '@/lib/risk-manager';
+
+const DEFAULT_CONFIG: AgentConfig = {
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  walletAddress: '',
+  safetyLimits: DEFAULT_SAFETY_LIMITS,
+  undervaluedThreshold: 0.30,
+  overvaluedThreshold: 0.75,
+  scanIntervalMs: 20000,
+  autoExecute: true,
+  simulationMode: true,
+};
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) args[argv[i].slice(2)] = argv[i + 1] ?? '';
+  }
+  return args;
+};
+
+const readJson = async (path: string) => JSON.parse(await readFile(path, 'utf8'));
+
+const readJsonLines = async <T>(path: string): Promise<T[]> =>
+  (await readFile(path, 'utf8'))
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+
+const usd = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toFixed(2)}`;
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.snapshots) {
+    console.error('Usage: pnpm backtest --snapshots <file.jsonl> [--resolutions <file.json>] [--llm <file.jsonl>] [--config <file.json>] [--bankroll 1000] [--backfill <minutes>] [--clob <url>] [--out <file.json>]');
+    process.exit(1);
+  }
+
+  const overrides: Partial<AgentConfig> = args.config ? await readJson(args.config) : {};
+  const config: AgentConfig = {
+    ...DEFAULT_CONFIG,
+    ...overrides,
+    safetyLimits: { ...DEFAULT_SAFETY_LIMITS, ...overrides.safetyLimits },
+  };
+
+  const history = new PriceHistoryStore(new FileSnapshotBackend(args.snapshots));
+  if (args.backfill) {
+    const minutes = parseInt(args.backfill, 10);
+    const api = initializeAPI(undefined, undefined, undefined, { clobUrl: args.clob || undefined });
+    const [first] = await history.getSnapshots(0, Number.MAX_SAFE_INTEGER);
+    const written = await history.backfill(
+      first?.markets ?? [],
+      tokenId => api.getPriceHistory(tokenId, 'max', minutes),
+      minutes * 60 * 1000
+    );
+    console.log(`[Backtest] Backfilled ${written} snapshots from CLOB price history`);
+  }
+  const snapshots = await history.getSnapshots(0, Number.MAX_SAFE_INTEGER);
+  const resolutions: BacktestResolution[] = args.resolutions ? await readJson(args.resolutions) : [];
+  const llmResponses = args.llm ? await readJsonLines<RecordedLLMResponse>(args.llm) : [];
+
+  console.log(`[Backtest] ${snapshots.length} snapshots, ${resolutions.length} resolutions, ${llmResponses.length} recorded LLM responses`);
+
+  const result = await new Backtester({
+    config,
+    snapshots,
+    resolutions,
+    llmResponses,
+    startingBankroll: args.bankroll ? parseFloat(args.bankroll) : undefined,
+  }).run();
+
+  console.log(`
+Period:        ${new Date(result.start).toISOString()} -> ${new Date(result.end).toISOString()} (${result.steps} steps)
+Final equity:  ${usd(result.finalEquity)} (${usd(result.totalPnL)}, ${result.returnPercent.toFixed(2)}%)
+Trades:        ${result.trades.length}
+Hit rate:      ${(result.hitRate * 100).toFixed(1)}%
+Max drawdown:  ${usd(result.maxDrawdown)} (${result.maxDrawdownPercent.toFixed(2)}%)
+
+PnL by strategy:`);
+  for (const [strategy, stats] of Object.entries(result.pnlByStrategy)) {
+    const skipped = stats.skipped > 0 ? `, ${stats.skipped} baskets skipped` : '';
+    console.log(`  ${strategy.padEnd(22)} ${usd(stats.pnl).padStart(10)}  entries ${stats.entries}, closed ${stats.closed}, wins ${stats.wins}${skipped}`);
+  }
+  if (result.untestedStrategies.length > 0) {
+    console.log(`\nNot tested (snapshots keep no order books): ${result.untestedStrategies.join(', ')}`);
+  }
+
+  if (args.out) {
+    await writeFile(args.out, JSON.stringify(result, null, 2), 'utf8');
+    console.log(`\n[Backtest] Full result written to ${args.out}`);
+  }
+}
+
+main().catch(error => {
+  console.error('[Backtest] Failed:', error);
+  process.exit(1);
+});
@@ -6,6 +6,11 @@ import { AutoExecutor } from '@/lib/auto-executor';
 import { DEFAULT_SAFETY_LIMITS } from '@/lib/risk-manager';
 import { initLLMAnalyzer, getLLMAnalyzer } from '@/lib/llm-analyzer';
 import { initNotificationService, getNotificationService } from '@/lib/notification-service';
+import { initMarketData } from '@/lib/market-data';
+import { initHistoryStore } from '@/lib/price-history';
+import { initStateStore } from '@/lib/state-store';
+import { getEventBus, type AgentEvent } from '@/lib/event-bus';
+import { attachConsoleLog, describeEvent, initEventLog } from '@/lib/event-log';
 import {
   Square, Wallet, Activity, Target,
   RefreshCw, TrendingUp, TrendingDown, Clock, Github, HelpCircle, ArrowLeft, Twitter
@@ -68,27 +73,58 @@ export default function Dashboard() {
   });
   
   const [executor, setExecutor] = useState<AutoExecutor | null>(null);
-  const [activeTab, setActiveTab] = useState<'opportunities' | 'positions' | 'trades'>('opportunities');
+  const [events, setEvents] = useState<AgentEvent[]>([]);
+  const [activeTab, setActiveTab] = useState<'opportunities' | 'positions' | 'trades' | 'events'>('opportunities');
 
   // Init System & Auto Start
   useEffect(() => {
     initializeAPI(config.apiKey, config.apiSecret, config.passphrase);
-    initLLMAnalyzer(config.openrouterApiKey, 'openrouter', config.selectedModel);
-    initNotificationService({
+    initLLMAnalyzer(config.openrouterApiKey, 'openrouter', config.selectedModel, window.location.origin);
+    const notifications = initNotificationService({
       telegramBotToken: config.telegramBotToken,
       telegramChatId: config.telegramChatId,
       discordWebhookUrl: config.discordWebhookUrl,
       enabled: config.notificationsEnabled,
     });
+    initMarketData();
+    initHistoryStore();
 
-    const exec = new AutoExecutor({ ...config, simulationMode: true }, setState);
-    exec.setBankroll(1000);
-    setExecutor(exec);
+    // Everything the agent decides goes through the event bus
+    const bus = getEventBus();
+    const eventLog = initEventLog();
+    const unsubscribes = [
+      attachConsoleLog(bus),
+      eventLog.attach(bus),
+      eventLog.subscribe(() => setEvents(eventLog.entries())),
+      notifications.attach(bus),
+    ];
 
-    console.log("🚀 Dashboard mounted, auto-starting agent...");
-    exec.start();
+    // Resume the last session (bankroll, positions, trades, settings) if one was saved
+    let exec: AutoExecutor | null = null;
+    let cancelled = false;
 
-    return () => exec.stop();
+    const store = initStateStore();
+    store.load().then(saved => {
+      if (cancelled) return;
+
+      const restoredConfig: ExtendedConfig = saved ? { ...config, ...saved.config } : config;
+      if (saved) setConfig(restoredConfig);
+
+      exec = new AutoExecutor({ ...restoredConfig, simulationMode: true }, setState);
+      if (saved) exec.restoreState(saved.state);
+      const agent = exec;
+      unsubscribes.push(store.attach(bus, () => ({ state: agent.getState(), config: agent.getConfig() })));
+      setExecutor(exec);
+
+      console.log("🚀 Dashboard mounted, auto-starting agent...");
+      exec.start();
+    });
+
+    return () => {
+      cancelled = true;
+      void exec?.stop();
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
   }, []);
 
   // Sync Config (Logic kept if you re-add settings later or load from LS)
@@ -99,7 +135,18 @@ export default function Dashboard() {
       llm.setModel(config.selectedModel);
     }
     if (config.apiKey && config.apiSecret && config.passphrase) {
-        initializeAPI(config.apiKey, config.apiSecret, config.passphrase);
+        const api = initializeAPI(config.apiKey, config.apiSecret, config.passphrase);
+        if (config.privateKey) {
+          try {
+            api.setWallet({
+              privateKey: config.privateKey,
+              funderAddress: config.walletAddress || undefined,
+              signatureType: config.signatureType,
+            });
+          } catch (error) {
+            console.error('[Wallet] Invalid signing configuration:', error);
+          }
+        }
     }
     const notif = getNotificationService();
     if (notif) {
@@ -117,7 +164,7 @@ export default function Dashboard() {
   }, [config, executor]);
 
   const handleStop = useCallback(() => {
-    if (executor) executor.stop();
+    if (executor) void executor.stop();
   }, [executor]);
 
   return (
@@ -216,6 +263,7 @@ export default function Dashboard() {
                  <TabButton active={activeTab === 'opportunities'} onClick={() => setActiveTab('opportunities')} label="OPPORTUNITIES" count={state.opportunities.length} />
                  <TabButton active={activeTab === 'positions'} onClick={() => setActiveTab('positions')} label="POSITIONS" count={state.positions.length} />
                  <TabButton active={activeTab === 'trades'} onClick={() => setActiveTab('trades')} label="LOGS" />
+                 <TabButton active={activeTab === 'events'} onClick={() => setActiveTab('events')} label="EVENTS" />
               </div>
            </div>
 
@@ -224,6 +272,7 @@ export default function Dashboard() {
               {activeTab === 'opportunities' && <OpportunitiesTable data={state.opportunities} />}
               {activeTab === 'positions' && <PositionsTable data={state.positions} />}
               {activeTab === 'trades' && <TradesTable data={state.trades} />}
+              {activeTab === 'events' && <EventsTable data={events} />}
            </div>
         </div>
 
@@ -293,9 +342,15 @@ function OpportunitiesTable({ data }: { data: AgentState['opportunities'] }) {
                      <div className="text-[8px] text-gray-500 mt-2 font-mono uppercase">
                         LIQ: ${opp.market.liquidity.toLocaleString()}
                      </div>
+                     {opp.rejectionReason && (
+                        <div className="text-[8px] text-red-600 mt-1 font-mono uppercase">
+                           SKIPPED: {opp.rejectionReason}
+                        </div>
+                     )}
                   </td>
                   <td className="py-4 px-4 text-right">
                      <div className="text-xs font-bold text-black">{(opp.outcome.price * 100).toFixed(0)}%</div>
+                     <div className="text-[8px] text-gray-500 mt-1 font-mono uppercase">{opp.outcome.name}</div>
                   </td>
                   <td className="py-4 px-4 text-center">
                      <span className={`inline-block px-2 py-1 text-[8px] border-2 border-black shadow-hard-sm font-bold ${opp.recommendedBet === 'YES' ? 'bg-green-400 text-black' : 'bg-red-400 text-black'}`}>
@@ -367,8 +422,8 @@ function TradesTable({ data }: { data: AgentState['trades'] }) {
                      <span className={`text-[10px] font-bold ${trade.side === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>{trade.side} {trade.outcome}</span>
                   </td>
                   <td className="py-4 px-4 text-right">
-                     <span className={`text-[8px] uppercase font-bold px-2 py-1 border border-black shadow-[1px_1px_0_#000] ${trade.status === 'FILLED' ? 'bg-gray-100' : 'bg-red-100'}`}>
-                        {trade.status}
+                     <span className={`text-[8px] uppercase font-bold px-2 py-1 border border-black shadow-[1px_1px_0_#000] ${trade.status === 'FILLED' ? 'bg-gray-100' : trade.status === 'PENDING' || trade.status === 'PARTIALLY_FILLED' ? 'bg-yellow-100' : 'bg-red-100'}`}>
+                        {trade.status.replace('_', ' ')}
                      </span>
                   </td>
                </tr>
@@ -378,6 +433,35 @@ function TradesTable({ data }: { data: AgentState['trades'] }) {
    );
 }
 
+function EventsTable({ data }: { data: AgentEvent[] }) {
+   if (!data.length) return <EmptyState icon={Activity} text="NO EVENTS" sub="WAITING FOR THE AGENT" />;
+   const failed = (event: AgentEvent) =>
+      event.type === 'CycleFailed' || event.type === 'LLMCallFailed' || event.type === 'ApiError'
+         || event.type === 'StrategyFailed' || event.type === 'StorageError'
+         || event.type === 'BasketUnwindFailed' || event.type === 'SettlementUnmatched'
+         || (event.type === 'CircuitBreakerChanged' && event.to === 'PAUSED');
+   return (
+      <table className="w-full text-left border-collapse">
+         <thead className="bg-gray-100 border-b-2 border-black sticky top-0 z-10">
+            <tr>
+               <th className="py-4 px-4 text-[10px] font-bold text-gray-600 uppercase">Time</th>
+               <th className="py-4 px-4 text-[10px] font-bold text-gray-600 uppercase">Event</th>
+               <th className="py-4 px-4 text-[10px] font-bold text-gray-600 uppercase w-[65%]">Detail</th>
+            </tr>
+         </thead>
+         <tbody className="divide-y-2 divide-gray-100">
+            {[...data].reverse().map((event, i) => (
+               <tr key={`${event.at}-${i}`} className="hover:bg-blue-50">
+                  <td className="py-3 px-4 text-[10px] font-mono text-gray-500 whitespace-nowrap">{new Date(event.at).toLocaleTimeString()}</td>
+                  <td className={`py-3 px-4 text-[10px] font-bold ${failed(event) ? 'text-red-600' : 'text-black'}`}>{event.type}</td>
+                  <td className="py-3 px-4 text-[10px] text-gray-700 line-clamp-1">{describeEvent(event)}</td>
+               </tr>
+            ))}
+         </tbody>
+      </table>
+   );
+}
+
 function EmptyState({ icon: Icon, text, sub }: any) {
    return (
       <div className="flex flex-col items-center justify-center h-64 text-gray-400">
@@ -0,0 +1,131 @@
+// Headless Runner - The trading agent without the dashboard
+//
+//   pnpm headless                                  # simulation, settings from env
+//   pnpm headless --config ./agent-config.json     # file settings, env still wins
+//   POLYMARKET_MOCK_URL=http://localhost:4010 pnpm headless
+//
+// --config   JSON file: AgentConfig plus the keys of HeadlessConfig in ./config
+// --data     Directory for state, price history, event and LLM logs (default ./data)
+//
+// Precedence: defaults < saved strategy and limit settings < config file < environment.
+// SIGINT / SIGTERM stop the agent after the cycle in flight, save state and exit.
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { RecordedLLMResponse } from '@/types/polymarket';
+import { initializeAPI } from '@/lib/polymarket-api';
+import { initLLMAnalyzer } from '@/lib/llm-analyzer';
+import { LLMResponseLog } from '@/lib/llm-recordings';
+import { initNotificationService } from '@/lib/notification-service';
+import { WebSocket } from 'ws';
+import { initMarketData, type WebSocketLike } from '@/lib/market-data';
+import { initMarketUniverse } from '@/lib/market-universe';
+import { FileSnapshotBackend, initHistoryStore } from '@/lib/price-history';
+import { FileStateBackend, initStateStore } from '@/lib/state-store';
+import { initEventBus } from '@/lib/event-bus';
+import { attachConsoleLog, JsonLinesSink } from '@/lib/event-log';
+import { AutoExecutor } from '@/lib/auto-executor';
+import { configFromEnv, resolveConfig, type HeadlessConfig } from './config';
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) args[argv[i].slice(2)] = argv[i + 1] ?? '';
+  }
+  return args;
+};
+
+const readJson = async (path: string) => JSON.parse(await readFile(path, 'utf8'));
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const dataDir = args.data || 'data';
+  await mkdir(dataDir, { recursive: true });
+
+  // Saved state is read first so the file and env can override its settings
+  const store = initStateStore(new FileStateBackend(join(dataDir, 'agent-state.json')));
+  const saved = await store.load();
+  const fileConfig: Partial<HeadlessConfig> = args.config ? await readJson(args.config) : {};
+  const envConfig = configFromEnv(process.env);
+
+  const config = resolveConfig(saved?.config, fileConfig, envConfig);
+
+  // Services, in the order the dashboard wires them
+  const api = initializeAPI(config.apiKey, config.apiSecret, config.passphrase, {
+    gammaUrl: config.gammaUrl,
+    clobUrl: config.clobUrl,
+  });
+  if (config.privateKey) {
+    api.setWallet({
+      privateKey: config.privateKey,
+      funderAddress: config.walletAddress || undefined,
+      signatureType: config.signatureType,
+    });
+  }
+
+  // Every LLM answer is appended in the format `pnpm backtest --llm` reads
+  const llm = initLLMAnalyzer(config.openrouterApiKey, 'openrouter', config.selectedModel);
+  const recordings = new LLMResponseLog();
+  const llmFile = join(dataDir, 'llm-responses.jsonl');
+  recordings.onAdd((entry: RecordedLLMResponse) => {
+    appendFile(llmFile, `${JSON.stringify(entry)}\n`, 'utf8')
+      .catch(error => console.error('[Headless] Failed to record LLM response:', error));
+  });
+  llm.recordTo(recordings);
+
+  initMarketUniverse();
+  // Node 20 has no global WebSocket
+  initMarketData({
+    url: config.marketWsUrl,
+    createSocket: url => new WebSocket(url) as unknown as WebSocketLike,
+  });
+  initHistoryStore(new FileSnapshotBackend(join(dataDir, 'snapshots.jsonl')));
+
+  const bus = initEventBus();
+  const eventFile = new JsonLinesSink(join(dataDir, 'events.jsonl'));
+  attachConsoleLog(bus);
+  eventFile.attach(bus);
+  initNotificationService({
+    telegramBotToken: config.telegramBotToken,
+    telegramChatId: config.telegramChatId,
+    discordWebhookUrl: config.discordWebhookUrl,
+    enabled: config.notificationsEnabled,
+  }).attach(bus);
+
+  const executor = new AutoExecutor(config, undefined, { events: bus });
+  if (saved) {
+    executor.restoreState(saved.state);
+    console.log(`[Headless] Restored state saved at ${new Date(saved.savedAt).toISOString()}`);
+  } else if (config.bankroll !== undefined) {
+    executor.setBankroll(config.bankroll);
+  }
+  store.attach(bus, () => ({ state: executor.getState(), config: executor.getConfig() }));
+
+  // A second signal forces the exit. Ctrl-C can reach us twice at once (terminal
+  // process group plus the tsx relay), so repeats within a second are ignored.
+  let stoppingAt = 0;
+  const shutdown = async (signal: string) => {
+    if (stoppingAt) {
+      if (Date.now() - stoppingAt < 1000) return;
+      console.warn(`[Headless] ${signal} again - exiting without waiting`);
+      process.exit(1);
+    }
+    stoppingAt = Date.now();
+    console.log(`[Headless] ${signal} received, finishing the current cycle and cancelling open orders...`);
+
+    await executor.stop();
+    await store.save(executor.getState(), executor.getConfig());
+    await eventFile.flush();
+    console.log('[Headless] State saved, bye');
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+  console.log(`[Headless] Data in ${dataDir}, markets from ${config.gammaUrl}`);
+  executor.start();
+}
+
+main().catch(error => {
+  console.error('[Headless] Failed:', error);
+  process.exit(1);
+});
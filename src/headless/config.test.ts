@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SAFETY_LIMITS } from '@/lib/risk-manager';
+import { configFromEnv, DEFAULT_CONFIG, resolveConfig } from './config';
+
+// What a run against the mock server in live mode left behind
+const saved = {
+  gammaUrl: 'http://localhost:4010/gamma',
+  clobUrl: 'http://localhost:4010/clob',
+  marketWsUrl: 'ws://localhost:4010/ws/market',
+  simulationMode: false,
+  bankroll: 50,
+  scanIntervalMs: 1000,
+  undervaluedThreshold: 0.2,
+  safetyLimits: { ...DEFAULT_SAFETY_LIMITS, maxBetSize: 25 },
+  strategies: { value: { enabled: false } },
+};
+
+describe('resolveConfig', () => {
+  it('keeps endpoints and run mode out of what saved state restores', () => {
+    const config = resolveConfig(saved, {}, {});
+
+    expect(config.gammaUrl).toBe(DEFAULT_CONFIG.gammaUrl);
+    expect(config.clobUrl).toBe(DEFAULT_CONFIG.clobUrl);
+    expect(config.marketWsUrl).toBe(DEFAULT_CONFIG.marketWsUrl);
+    expect(config.simulationMode).toBe(true);
+    expect(config.bankroll).toBeUndefined();
+    expect(config.scanIntervalMs).toBe(DEFAULT_CONFIG.scanIntervalMs);
+  });
+
+  it('restores strategy and limit settings', () => {
+    const config = resolveConfig(saved, {}, {});
+
+    expect(config.undervaluedThreshold).toBe(0.2);
+    expect(config.strategies).toEqual(saved.strategies);
+    expect(config.safetyLimits.maxBetSize).toBe(25);
+  });
+
+  it('lets the config file override saved limits and the environment override the file', () => {
+    const config = resolveConfig(
+      saved,
+      { safetyLimits: { ...DEFAULT_SAFETY_LIMITS, maxBetSize: 40 }, simulationMode: false, scanIntervalMs: 5000 },
+      configFromEnv({ SIMULATION_MODE: 'true', POLYMARKET_MOCK_URL: 'http://localhost:4020' })
+    );
+
+    expect(config.safetyLimits).toEqual({ ...DEFAULT_SAFETY_LIMITS, maxBetSize: 40 });
+    expect(config.scanIntervalMs).toBe(5000);
+    expect(config.simulationMode).toBe(true);
+    expect(config.gammaUrl).toBe('http://localhost:4020/gamma');
+    expect(config.marketWsUrl).toBe('ws://localhost:4020/ws/market');
+  });
+});
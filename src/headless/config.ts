@@ -0,0 +1,114 @@
+// Headless Config - Settings for the headless runner and how saved, file and env settings combine
+import type { AgentConfig } from '@/types/polymarket';
+import { DEFAULT_SAFETY_LIMITS } from '@/lib/risk-manager';
+
+export interface HeadlessConfig extends AgentConfig {
+  openrouterApiKey: string;
+  selectedModel: string;
+  telegramBotToken: string;
+  telegramChatId: string;
+  discordWebhookUrl: string;
+  notificationsEnabled: boolean;
+  gammaUrl: string;
+  clobUrl: string;
+  marketWsUrl: string;
+  bankroll?: number; // Starting bankroll when there is no saved state
+}
+
+export const DEFAULT_CONFIG: HeadlessConfig = {
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  walletAddress: '',
+  safetyLimits: DEFAULT_SAFETY_LIMITS,
+  undervaluedThreshold: 0.30,
+  overvaluedThreshold: 0.75,
+  scanIntervalMs: 20000,
+  autoExecute: true,
+  simulationMode: true,
+  openrouterApiKey: '',
+  selectedModel: 'google/gemini-2.0-flash-exp:free',
+  telegramBotToken: '',
+  telegramChatId: '',
+  discordWebhookUrl: '',
+  notificationsEnabled: false,
+  gammaUrl: 'https://gamma-api.polymarket.com',
+  clobUrl: 'https://clob.polymarket.com',
+  marketWsUrl: 'wss://ws-subscriptions-clob.polymarket.com/ws/market',
+};
+
+// Saved state only brings back what the agent was trading with. Endpoints, credentials,
+// run mode and bankroll come from defaults, the config file and the environment.
+const RESTORED_KEYS = [
+  'safetyLimits',
+  'undervaluedThreshold',
+  'overvaluedThreshold',
+  'strategies',
+  'exitRules',
+  'reEntry',
+  'circuitBreaker',
+] as const satisfies readonly (keyof AgentConfig)[];
+
+// Only variables that are set override the file
+export function configFromEnv(env: NodeJS.ProcessEnv): Partial<HeadlessConfig> {
+  const config: Partial<HeadlessConfig> = {};
+  const text = (key: keyof HeadlessConfig, name: string) => {
+    if (env[name]) (config as Record<string, unknown>)[key] = env[name];
+  };
+  const number = (key: keyof HeadlessConfig, name: string) => {
+    const value = parseFloat(env[name] ?? '');
+    if (Number.isFinite(value)) (config as Record<string, unknown>)[key] = value;
+  };
+  const flag = (key: keyof HeadlessConfig, name: string) => {
+    if (env[name]) (config as Record<string, unknown>)[key] = !/^(0|false|no|off)$/i.test(env[name] as string);
+  };
+
+  text('apiKey', 'POLYMARKET_API_KEY');
+  text('apiSecret', 'POLYMARKET_API_SECRET');
+  text('passphrase', 'POLYMARKET_PASSPHRASE');
+  text('walletAddress', 'POLYMARKET_WALLET_ADDRESS');
+  text('privateKey', 'POLYMARKET_PRIVATE_KEY');
+  number('signatureType', 'POLYMARKET_SIGNATURE_TYPE');
+  text('openrouterApiKey', 'OPENROUTER_API_KEY');
+  text('selectedModel', 'LLM_MODEL');
+  text('telegramBotToken', 'TELEGRAM_BOT_TOKEN');
+  text('telegramChatId', 'TELEGRAM_CHAT_ID');
+  text('discordWebhookUrl', 'DISCORD_WEBHOOK_URL');
+  flag('notificationsEnabled', 'NOTIFICATIONS_ENABLED');
+  flag('simulationMode', 'SIMULATION_MODE');
+  number('scanIntervalMs', 'SCAN_INTERVAL_MS');
+  number('priceRefreshMs', 'PRICE_REFRESH_MS');
+  number('llmIntervalMs', 'LLM_INTERVAL_MS');
+  text('dailySummaryAt', 'DAILY_SUMMARY_AT');
+  number('bankroll', 'BANKROLL');
+
+  if (env.POLYMARKET_MOCK_URL) {
+    config.gammaUrl = `${env.POLYMARKET_MOCK_URL}/gamma`;
+    config.clobUrl = `${env.POLYMARKET_MOCK_URL}/clob`;
+    config.marketWsUrl = `${env.POLYMARKET_MOCK_URL.replace(/^http/, 'ws')}/ws/market`;
+  }
+  return config;
+}
+
+// Precedence: defaults < saved strategy and limit settings < config file < environment
+export function resolveConfig(
+  saved: Partial<AgentConfig> | undefined,
+  fileConfig: Partial<HeadlessConfig>,
+  envConfig: Partial<HeadlessConfig>
+): HeadlessConfig {
+  const restored: Partial<AgentConfig> = {};
+  for (const key of RESTORED_KEYS) {
+    if (saved?.[key] !== undefined) (restored as Record<string, unknown>)[key] = saved[key];
+  }
+  return {
+    ...DEFAULT_CONFIG,
+    ...restored,
+    ...fileConfig,
+    ...envConfig,
+    safetyLimits: {
+      ...DEFAULT_SAFETY_LIMITS,
+      ...restored.safetyLimits,
+      ...fileConfig.safetyLimits,
+    },
+  };
+}
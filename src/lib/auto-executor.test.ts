@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import type { AgentConfig, Position } from '@/types/polymarket';
+import { startMockServer, type MockServer } from '../mock/server';
+import { AutoExecutor } from './auto-executor';
+import { SeededRandom, VirtualClock } from './clock';
+import { EventBus } from './event-bus';
+import { initMarketData, type WebSocketLike } from './market-data';
+import { getMarketUniverse, initMarketUniverse } from './market-universe';
+import { initializeAPI } from './polymarket-api';
+import { DEFAULT_SAFETY_LIMITS } from './risk-manager';
+
+const config: AgentConfig = {
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  walletAddress: '',
+  safetyLimits: DEFAULT_SAFETY_LIMITS,
+  undervaluedThreshold: 0.3,
+  overvaluedThreshold: 0.75,
+  scanIntervalMs: 60_000,
+  autoExecute: true,
+  simulationMode: true,
+};
+
+const FED_YES = '71321045679252212594626385532706912750332728571942532289631379312455583992563';
+const BTC_YES = '21742633143463906290569050155826241533067272736897614950488156847949938836455';
+
+let server: MockServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+async function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+// An executor on a virtual clock, trading against the mock exchange
+async function setup(seed: number, overrides: Partial<AgentConfig> = {}) {
+  server = await startMockServer();
+  initializeAPI(undefined, undefined, undefined, { gammaUrl: `${server.url}/gamma`, clobUrl: `${server.url}/clob` });
+  initMarketUniverse();
+
+  const clock = new VirtualClock(Date.UTC(2026, 0, 1, 10));
+  const executor = new AutoExecutor({ ...config, ...overrides }, undefined, { clock, random: new SeededRandom(seed), events: new EventBus(clock) });
+  return { clock, executor };
+}
+
+// Ten simulated minutes
+async function simulate(seed: number) {
+  const { clock, executor } = await setup(seed);
+  executor.start();
+  await clock.advance(10 * 60_000);
+  await executor.stop();
+
+  await server.close();
+  server = null;
+  return executor.getState().trades.map(t => ({ ...t, timestamp: t.timestamp.getTime() }));
+}
+
+describe('AutoExecutor', () => {
+  it('produces the same trade log from the same seed', async () => {
+    const first = await simulate(7);
+    const second = await simulate(7);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+    expect((await simulate(8)).map(t => t.id)).not.toEqual(first.map(t => t.id));
+  });
+
+  it('refreshes the market universe once per scan', async () => {
+    // The LLM pass refreshes on its own cadence
+    const { clock, executor } = await setup(1, { autoExecute: false, strategies: { llm: { enabled: false } } });
+    const refresh = vi.spyOn(getMarketUniverse(), 'refresh');
+
+    executor.start();
+    await clock.advance(2 * 60_000);
+    await executor.stop();
+
+    expect(executor.getTaskStats().find(s => s.name === 'scan')?.runs).toBe(3);
+    expect(refresh).toHaveBeenCalledTimes(3);
+  });
+
+  it('fills in the category and event of positions saved before exposure groups', async () => {
+    const { clock, executor } = await setup(1, { autoExecute: false, exitRules: { disabled: true } });
+    const saved: Position = {
+      marketId: '501201',
+      marketQuestion: 'Saved before groups',
+      outcome: 'Yes',
+      shares: 10,
+      avgPrice: 0.3,
+      currentPrice: 0.3,
+      pnl: 0,
+      pnlPercent: 0,
+    };
+    executor.restoreState({ ...executor.getState(), positions: [saved] });
+
+    executor.start();
+    await clock.advance(1);
+    await executor.stop();
+
+    expect(executor.getState().positions[0]).toMatchObject({ category: 'Politics', eventId: '9001' });
+  });
+
+  it('keeps a live position it cannot sell while in simulation mode', async () => {
+    const { executor } = await setup(1, { autoExecute: false });
+    const live: Position = {
+      marketId: '501101',
+      marketQuestion: 'Bought live',
+      outcome: 'Yes',
+      tokenId: FED_YES,
+      shares: 10,
+      avgPrice: 0.6,
+      currentPrice: 0.6,
+      pnl: 0,
+      pnlPercent: 0,
+      isSimulated: false,
+    };
+    executor.restoreState({ ...executor.getState(), positions: [live] });
+
+    await executor.exitPosition(executor.getState().positions[0], 'Test exit');
+
+    const state = executor.getState();
+    expect(state.trades[0]).toMatchObject({ side: 'SELL', status: 'FAILED', isSimulated: false });
+    expect(state.positions).toHaveLength(1);
+    expect(state.positions[0].exitPending).toBe(false);
+  });
+
+  it('leaves closed markets at their last price and stops streaming tokens it no longer holds', async () => {
+    const { executor } = await setup(1, { autoExecute: false, exitRules: { disabled: true } });
+    const stream = initMarketData({ url: server!.wsUrl, createSocket: url => new WebSocket(url) as unknown as WebSocketLike });
+    const held = (marketId: string, tokenId: string, extra: Partial<Position> = {}): Position => ({
+      marketId,
+      marketQuestion: `Market ${marketId}`,
+      outcome: 'Yes',
+      tokenId,
+      shares: 10,
+      avgPrice: 0.5,
+      currentPrice: 0.5,
+      pnl: 0,
+      pnlPercent: 0,
+      isSimulated: true,
+      ...extra,
+    });
+    executor.restoreState({
+      ...executor.getState(),
+      positions: [held('501101', FED_YES, { awaitingResolution: true }), held('501102', BTC_YES)],
+    });
+    executor.start();
+    await until(() => stream.isConnected());
+
+    server!.exchange.applyStep({ atMs: 0, action: 'price', tokenId: FED_YES, price: 0.8 });
+    server!.exchange.applyStep({ atMs: 0, action: 'price', tokenId: BTC_YES, price: 0.3 });
+    await until(() => executor.getState().positions[1].currentPrice !== 0.5);
+    expect(executor.getState().positions[0].currentPrice).toBe(0.5);
+
+    await executor.exitPosition(executor.getState().positions[1], 'Test exit');
+    await until(() => executor.getState().positions.length === 1);
+    expect(stream.getTrackedTokenIds()).toEqual([FED_YES]);
+
+    await executor.stop();
+    stream.disconnect();
+  });
+});
+
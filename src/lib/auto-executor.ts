@@ -3,27 +3,101 @@ import type {
   AgentState,
   AgentConfig,
   BettingOpportunity,
+  ExitRules,
+  Position,
   Trade,
 } from '@/types/polymarket';
 import { getAPI } from './polymarket-api';
 import { RiskManager } from './risk-manager';
 import { MarketScanner } from './market-scanner';
-import { getLLMAnalyzer } from './llm-analyzer';
-import { getNotificationService } from './notification-service';
+import { getMarketData } from './market-data';
+import { getMarketUniverse } from './market-universe';
+import { getHistoryStore } from './price-history';
+import { ResolutionWatcher } from './resolution-watcher';
+import { ExitEngine, DEFAULT_EXIT_RULES } from './exit-engine';
+import { bookFill, findPosition, markPosition, openPosition, recalculatePnL, settlePosition } from './portfolio';
+import { openingLedger, postToLedger, rollLedgerDay, summarizeState } from './ledger';
+import { PaperExchange } from './paper-exchange';
+import { makeId, systemClock, systemRandom, type Clock, type Random } from './clock';
+import { errorMessage, getEventBus, type EventBus } from './event-bus';
+import { Scheduler, type TaskStats } from './scheduler';
+import { dedupeOpportunities } from './strategy-registry';
+import { OpportunityMemory } from './opportunity-memory';
+import { CircuitBreaker } from './circuit-breaker';
+import { getLLMAnalyzer, repriceOpportunity } from './llm-analyzer';
+
+// Where orders go: the CLOB when live, the paper exchange when simulating
+type OrderVenue = Pick<PaperExchange, 'placeOrder' | 'getOrder' | 'cancelOrder'>;
+
+// An order we are still polling for fills
+interface TrackedOrder {
+  trade: Trade;
+  opportunity?: BettingOpportunity; // Unset for exits
+  placedAt: number;
+  appliedShares: number; // Matched shares already booked into positions
+  appliedAmount: number; // $ of those shares
+  cancelRequested: boolean;
+}
+
+// Default cadences of the scheduled tasks
+const DEFAULT_PRICE_REFRESH_MS = 5000;
+const DEFAULT_LLM_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_DAILY_SUMMARY_AT = '00:00';
+const DEFAULT_ORDER_POLL_MS = 5000;
+const ENTRIES_PER_SCAN = 2;
+
+// Time and randomness; a VirtualClock + SeededRandom make simulated runs reproducible.
+// Every decision is reported on the event bus.
+export interface ExecutorEnvironment {
+  clock?: Clock;
+  random?: Random;
+  events?: EventBus;
+}
 
 export class AutoExecutor {
   private config: AgentConfig;
   private riskManager: RiskManager;
   private scanner: MarketScanner;
+  private resolutionWatcher: ResolutionWatcher;
+  private exitEngine: ExitEngine;
+  private memory: OpportunityMemory;
+  private breaker: CircuitBreaker;
   private state: AgentState;
-  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private scheduler: Scheduler;
   private onStateChange?: (state: AgentState) => void;
   private simulationMode: boolean = true; // Default to simulation
+  private unsubscribeQuotes: (() => void) | null = null;
+  private trackedOrders = new Map<string, TrackedOrder>();
+  private unbookedLegShares = new Map<string, number>(); // Basket legs bought but not yet booked, by token
+  private lastOpportunities: BettingOpportunity[] = []; // Latest scan, for exit checks
+  private llmOpportunities: BettingOpportunity[] = [];  // Latest LLM pass, joined into scans
+  private scannedTokens = new Set<string>();            // Streamed for the latest scan, held or not
+  private paperExchange: PaperExchange;
+  private clock: Clock;
+  private random: Random;
+  private events: EventBus;
 
-  constructor(config: AgentConfig, onStateChange?: (state: AgentState) => void) {
+  constructor(
+    config: AgentConfig,
+    onStateChange?: (state: AgentState) => void,
+    environment: ExecutorEnvironment = {}
+  ) {
     this.config = config;
-    this.riskManager = new RiskManager(config.safetyLimits);
-    this.scanner = new MarketScanner(config);
+    this.clock = environment.clock ?? systemClock;
+    this.random = environment.random ?? systemRandom;
+    this.events = environment.events ?? getEventBus();
+    this.riskManager = new RiskManager(config.safetyLimits, this.events);
+    this.scanner = new MarketScanner(config, undefined, this.clock);
+    this.resolutionWatcher = new ResolutionWatcher(undefined, this.clock, this.events);
+    this.paperExchange = new PaperExchange(
+      tokenId => getAPI().getOrderBook(tokenId),
+      this.clock,
+      tokenId => this.heldShares(tokenId)
+    );
+    this.exitEngine = new ExitEngine({ ...DEFAULT_EXIT_RULES, ...config.exitRules }, this.clock);
+    this.memory = new OpportunityMemory(config.reEntry);
+    this.breaker = new CircuitBreaker(this.riskManager, config.circuitBreaker);
+    this.scheduler = new Scheduler(this.clock);
     this.onStateChange = onStateChange;
     this.simulationMode = config.simulationMode !== false;
 
@@ -32,7 +106,10 @@ export class AutoExecutor {
       bankroll: 1000,
       todayPnL: 0,
       totalPnL: 0,
+      realizedPnL: 0,
+      ledger: openingLedger(1000, this.clock.now()),
       positions: [],
+      settlements: [],
       trades: [],
       opportunities: [],
       safetyTriggered: false,
@@ -53,8 +130,17 @@ export class AutoExecutor {
     if (this.scanner) {
         this.scanner.updateConfig(newConfig);
     }
+    if (newConfig.exitRules) {
+        this.exitEngine.updateDefaults(newConfig.exitRules);
+    }
+    if (newConfig.reEntry) {
+        this.memory.updateRules(newConfig.reEntry);
+    }
+    if (newConfig.circuitBreaker) {
+        this.breaker.updateRules(newConfig.circuitBreaker);
+    }
 
-    console.log('[Executor] Configuration updated');
+    this.events.emit('ConfigUpdated', {});
   }
 
   // Start the autonomous execution loop
@@ -62,139 +148,343 @@ export class AutoExecutor {
     if (this.state.isRunning) return;
 
     this.state.isRunning = true;
-    this.state.safetyTriggered = false;
-    this.state.safetyReason = undefined;
     this.state.isSimulationMode = this.simulationMode;
     this.notifyStateChange();
 
-    console.log(`[Executor] Agent started in ${this.simulationMode ? 'SIMULATION' : 'LIVE'} mode`);
+    this.events.emit('AgentStarted', { simulation: this.simulationMode });
 
-    // Run immediately
-    this.executionCycle();
+    // Shared services run on the agent's clock, so a VirtualClock drives every timestamp
+    getMarketUniverse().useClock(this.clock);
+    getMarketData()?.useClock(this.clock);
+    getLLMAnalyzer()?.useClock(this.clock);
 
-    // Then run on interval
-    this.intervalId = setInterval(
-      () => this.executionCycle(),
-      this.config.scanIntervalMs
-    );
+    // Live prices: reprice positions as soon as a quote arrives
+    const stream = getMarketData();
+    if (stream) {
+      stream.track(this.state.positions.map(p => p.tokenId).filter(Boolean) as string[]);
+      this.unsubscribeQuotes = stream.onQuote(quote => this.handleQuote(quote.tokenId));
+      stream.connect();
+    }
+
+    this.scheduleTasks();
+    this.scheduler.start();
   }
 
-  // Stop the execution loop
-  stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+  // Each job on its own cadence. The scheduler runs the trading tasks one at a
+  // time; the LLM pass only reads the universe, so it runs beside them.
+  private scheduleTasks(): void {
+    const config = this.config;
+    this.scheduler.add({
+      name: 'scan',
+      everyMs: config.scanIntervalMs,
+      runOnStart: true,
+      run: () => this.scanCycle(),
+    });
+    this.scheduler.add({
+      name: 'prices',
+      everyMs: config.priceRefreshMs ?? DEFAULT_PRICE_REFRESH_MS,
+      onMissed: 'skip',
+      run: () => this.refreshPositions(),
+    });
+    this.scheduler.add({
+      name: 'orders',
+      everyMs: config.orderPollMs ?? DEFAULT_ORDER_POLL_MS,
+      onMissed: 'skip',
+      run: () => this.pollOrders(),
+    });
+    this.scheduler.add({
+      name: 'llm',
+      everyMs: config.llmIntervalMs ?? DEFAULT_LLM_INTERVAL_MS,
+      runOnStart: true,
+      exclusive: false,
+      run: () => this.llmCycle(),
+    });
+    this.scheduler.add({
+      name: 'daily-summary',
+      dailyAt: config.dailySummaryAt ?? DEFAULT_DAILY_SUMMARY_AT,
+      timeZone: config.timeZone,
+      run: () => {
+        this.events.emit('DailySummary', { summary: summarizeState(this.state) });
+      },
+    });
+  }
+
+  // Stop the execution loop. Once the task in flight finishes, resting orders are
+  // cancelled so none are left on the book unwatched; fills that beat the cancel are booked.
+  async stop(): Promise<void> {
+    this.scheduler.stop();
+    await this.scheduler.idle();
+    await this.cancelOpenOrders();
+    await this.reportOrdersLeftOpen();
+
+    if (this.unsubscribeQuotes) {
+      this.unsubscribeQuotes();
+      this.unsubscribeQuotes = null;
+      getMarketData()?.disconnect();
     }
 
     this.state.isRunning = false;
     this.notifyStateChange();
-    console.log('[Executor] Agent stopped');
+    this.events.emit('AgentStopped', {});
   }
 
-  // Main execution cycle
-  private async executionCycle(): Promise<void> {
-    console.log('[Executor] Scanning markets...');
-
-    // Check safety limits
-    const safetyCheck = this.riskManager.isSafetyBreached(this.state);
-    if (safetyCheck.breached) {
-      console.log(`[Safety] Limit reached: ${safetyCheck.reason}`);
-      this.state.safetyTriggered = true;
-      this.state.safetyReason = safetyCheck.reason;
+  // Resolves once the task in flight (if any) has finished; used for clean shutdowns
+  async idle(): Promise<void> {
+    await this.scheduler.idle();
+  }
 
-      // Notify
-      const notif = getNotificationService();
-      if (notif) {
-        await notif.notifySafetyStop(safetyCheck.reason || 'Unknown', this.state);
-      }
+  // Runs, skips and timings per scheduled task
+  getTaskStats(): TaskStats[] {
+    return this.scheduler.getStats();
+  }
 
-      this.stop();
-      return;
-    }
+  // Scan, enter, exit and record prices
+  private async scanCycle(): Promise<void> {
+    const cycleStart = this.clock.now();
+    this.rollTradingDay();
+    this.updateBreaker();
 
     try {
-      // Fetch REAL markets from Polymarket
-      const api = getAPI();
-      const markets = await api.getMarkets(30);
-      this.state.marketsScanned = markets.length;
-      this.state.lastScanTime = new Date();
-
-      console.log(`[Executor] Fetched ${markets.length} real markets`);
+      // Refresh the cached market universe (paginated, incremental after the first sync)
+      const universe = getMarketUniverse();
+      await universe.refresh();
+      this.fillPositionGroups();
 
-      // Try LLM analysis if available
-      const llm = getLLMAnalyzer();
-      let opportunities: BettingOpportunity[] = [];
+      // Work on whole events so sibling candidates are judged together
+      const stream = getMarketData();
+      const topEvents = universe.getEvents()
+        .filter(e => e.active)
+        .sort((a, b) => b.volume - a.volume)
+        .slice(0, 10)
+        .map(e => ({ ...e, markets: stream ? stream.applyQuotes(e.markets) : e.markets }));
+      stream?.trackMarkets(topEvents.flatMap(e => e.markets));
+      this.scannedTokens = new Set(topEvents.flatMap(e => e.markets.flatMap(m => m.outcomes.map(o => o.id))));
+      this.state.marketsScanned = universe.size();
+      this.state.lastScanTime = new Date(this.clock.now());
 
-      if (llm) {
-        // Analyze top markets with LLM
-        const topMarkets = markets.slice(0, 10);
-        const analyses = await llm.analyzeMarkets(topMarkets, 2);
-
-        opportunities = analyses
-          .map(a => llm.analysisToOpportunity(a))
-          .filter(Boolean) as BettingOpportunity[];
-
-        console.log(`[LLM] Found ${opportunities.length} opportunities`);
-      }
-
-      // Fallback to rule-based scanning
-      if (opportunities.length === 0) {
-        opportunities = await this.scanner.scanForOpportunities();
-      }
+      // Every enabled strategy except the LLM, which runs on its own slower cadence;
+      // its latest findings are repriced and joined in here
+      this.llmOpportunities = this.repriceLLMOpportunities();
+      const markets = universe.getMarkets();
+      const scanned = await this.scanner.scanMarkets(
+        stream ? stream.applyQuotes(markets) : markets,
+        { now: this.clock.now() },
+        id => id !== 'llm'
+      );
+      const opportunities = dedupeOpportunities([...scanned, ...this.llmOpportunities]);
+      this.lastOpportunities = opportunities;
+      this.events.emit('ScanCompleted', {
+        marketsScanned: universe.size(),
+        opportunities: opportunities.length,
+        durationMs: this.clock.now() - cycleStart,
+      });
 
       // Sort by expected value
       opportunities.sort((a, b) => b.expectedValue - a.expectedValue);
+      opportunities.forEach(o => (o.rejectionReason = undefined)); // LLM findings carry over between scans
       this.state.opportunities = opportunities.slice(0, 10);
 
-      // Execute if auto-execute is enabled
-      if (this.config.autoExecute && opportunities.length > 0) {
-        const topOpp = opportunities.slice(0, 2);
-        for (const opp of topOpp) {
+      // Execute the best ones the re-entry rules and risk checks let through;
+      // the others show why they were passed over. A paused breaker only blocks entries.
+      if (this.config.autoExecute && this.state.breaker?.level !== 'PAUSED') {
+        let entered = 0;
+        for (const opp of this.state.opportunities) {
+          if (entered >= ENTRIES_PER_SCAN) break;
+
+          const reEntry = this.memory.check(opp, this.clock.now(), this.holdsMarket(opp.market.id));
+          if (!reEntry.allowed) {
+            this.reject(opp, reEntry.reason || 'Re-entry rules');
+            continue;
+          }
+
           await this.executeOpportunity(opp);
+          if (!opp.rejectionReason) entered++;
         }
       }
 
-      // Update positions
+      // Settle positions whose markets resolved, then update the rest
+      await this.settleResolvedPositions();
       await this.updatePositionsPnL();
 
+      // Sell positions whose stop-loss / take-profit / time / edge rules fired
+      await this.processExits(opportunities);
+
+      // Save this scan's prices for charts, momentum signals and backtests
+      const history = getHistoryStore();
+      if (history) {
+        const active = universe.getMarkets().filter(m => m.active && !m.closed);
+        const marks = Object.fromEntries(
+          this.state.positions
+            .filter(p => p.tokenId)
+            .map(p => [p.tokenId as string, p.currentPrice])
+        );
+        await history.record(stream ? stream.applyQuotes(active) : active, marks, this.clock.now());
+      }
+
+    } catch (error) {
+      this.events.emit('CycleFailed', { error: errorMessage(error) });
+    }
+
+    this.notifyStateChange();
+    this.events.emit('CycleCompleted', { durationMs: this.clock.now() - cycleStart });
+  }
+
+  // Ask the model about the top events; entries happen on the next scan
+  private async llmCycle(): Promise<void> {
+    if (!this.scanner.getRegistry().isEnabled('llm')) return;
+
+    try {
+      this.llmOpportunities = await this.scanner.scanForOpportunities(
+        { now: this.clock.now() },
+        id => id === 'llm'
+      );
+    } catch (error) {
+      this.events.emit('CycleFailed', { error: errorMessage(error) });
+      return;
+    }
+    if (this.llmOpportunities.length > 0) void this.scheduler.trigger('scan');
+  }
+
+  // Positions saved before exposure groups existed carry no category or event;
+  // take them from the universe so they count against their groups again
+  private fillPositionGroups(): void {
+    const universe = getMarketUniverse();
+    for (const position of this.state.positions) {
+      if (position.category && position.eventId) continue;
+      const market = universe.getMarket(position.marketId);
+      if (!market) continue;
+      position.category ??= market.category;
+      position.eventId ??= market.eventId;
+    }
+  }
+
+  // LLM findings at the current quotes; those whose market closed or whose edge is gone drop out
+  private repriceLLMOpportunities(): BettingOpportunity[] {
+    const universe = getMarketUniverse();
+    const stream = getMarketData();
+
+    return this.llmOpportunities.flatMap(opp => {
+      const market = universe.getMarket(opp.market.id);
+      if (!market) return [];
+      const current = stream ? stream.applyQuotes([market])[0] : market;
+      const repriced = repriceOpportunity(opp, current);
+      return repriced ? [repriced] : [];
+    });
+  }
+
+  // Between scans: settle resolved markets, reprice positions and run exit rules
+  private async refreshPositions(): Promise<void> {
+    this.rollTradingDay();
+    if (this.state.positions.length === 0) {
+      this.updateBreaker();
+      return;
+    }
+
+    try {
+      await this.settleResolvedPositions();
+      await this.updatePositionsPnL();
+      await this.processExits(this.lastOpportunities);
     } catch (error) {
-      console.error('[Executor] Cycle error:', error);
+      this.events.emit('CycleFailed', { error: errorMessage(error) });
     }
+    this.updateBreaker();
+    this.notifyStateChange();
+  }
+
+  // Resume from a saved snapshot. Live orders that were still working are polled again.
+  restoreState(saved: AgentState): void {
+    if (this.state.isRunning) return;
 
+    this.state = {
+      ...this.state,
+      ...saved,
+      isRunning: false,
+      isSimulationMode: this.simulationMode,
+    };
+
+    for (const trade of this.state.trades) {
+      const working = trade.status === 'PENDING' || trade.status === 'PARTIALLY_FILLED';
+      if (!working || !trade.orderId) continue;
+
+      // Paper orders live in memory only; whatever filled before the reload stays booked
+      if (trade.isSimulated) {
+        trade.status = 'CANCELLED';
+        this.releaseExit(trade);
+        continue;
+      }
+
+      this.trackedOrders.set(trade.orderId, {
+        trade,
+        placedAt: trade.timestamp.getTime(),
+        appliedShares: trade.filledShares ?? 0,
+        appliedAmount: (trade.filledShares ?? 0) * trade.price,
+        cancelRequested: false,
+      });
+      if (trade.side === 'SELL') {
+        const position = findPosition(this.state, trade.marketId, trade.outcome);
+        if (position) position.exitPending = true;
+      }
+    }
+
+    this.memory.restore(this.state.trades);
+    this.state.ledger = this.state.ledger ?? openingLedger(this.state.bankroll, this.clock.now());
+    this.rollTradingDay();
+
+    this.events.emit('StateRestored', {
+      positions: this.state.positions.length,
+      trades: this.state.trades.length,
+      bankroll: this.state.bankroll,
+    });
     this.notifyStateChange();
   }
 
+  // An open position or a buy still working in this market
+  private holdsMarket(marketId: string): boolean {
+    return this.state.positions.some(p => p.marketId === marketId)
+      || Array.from(this.trackedOrders.values()).some(o => o.trade.side === 'BUY' && o.trade.marketId === marketId);
+  }
+
   // Execute a single opportunity
   private async executeOpportunity(opportunity: BettingOpportunity): Promise<void> {
     // Validate
     const validation = this.riskManager.validateOpportunity(opportunity);
     if (!validation.valid) {
-      console.log(`[Executor] Skipping: ${validation.reason}`);
+      this.reject(opportunity, validation.reason || 'Failed validation');
       return;
     }
 
-    // Calculate bet size
-    const betSize = this.riskManager.calculatePositionSize(opportunity, this.state);
-    if (betSize <= 0) return;
+    if (opportunity.legs) {
+      return this.executeBasket(opportunity);
+    }
 
-    console.log(`[Trade] ${this.simulationMode ? 'SIM' : 'LIVE'} ${opportunity.recommendedBet} on "${opportunity.market.question.slice(0, 50)}..." - $${betSize.toFixed(2)}`);
+    // Calculate bet size against the live book depth
+    const book = await getAPI().getOrderBook(opportunity.outcome.id);
+    const sizing = this.riskManager.calculatePositionSize(opportunity, this.state, book);
+    const betSize = sizing.amount;
+    if (betSize <= 0) {
+      this.reject(opportunity, sizing.limitedBy ?? 'No room to size a position (limits, bankroll or book depth)');
+      return;
+    }
 
     // Create trade
     const trade: Trade = {
-      id: `trade-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      timestamp: new Date(),
+      id: makeId('trade', this.clock, this.random),
+      timestamp: new Date(this.clock.now()),
       marketId: opportunity.market.id,
       marketQuestion: opportunity.market.question,
-      outcome: opportunity.recommendedBet,
+      outcome: opportunity.outcome.name,
       side: 'BUY',
-      shares: betSize / opportunity.outcome.price,
-      price: opportunity.outcome.price,
+      tokenId: opportunity.outcome.id,
+      strategy: opportunity.strategy,
+      shares: sizing.shares,
+      price: sizing.avgFillPrice,
       total: betSize,
       status: 'PENDING',
       isSimulated: this.simulationMode,
       reasoning: opportunity.reasoning,
     };
 
+    const held = this.holdsMarket(opportunity.market.id);
     this.state.trades.unshift(trade);
     this.notifyStateChange();
 
@@ -205,128 +495,522 @@ export class AutoExecutor {
       await this.executeLiveTrade(trade, opportunity);
     }
 
-    // Notify
-    const notif = getNotificationService();
-    if (notif) {
-      await notif.notifyTrade(trade);
+    // Only an order the venue accepted counts as an entry
+    if (trade.status !== 'FAILED') {
+      this.memory.remember(opportunity, trade.timestamp.getTime(), held);
     }
   }
 
-  // Simulated trade execution (looks real but doesn't trade)
-  private async executeSimulatedTrade(trade: Trade, opportunity: BettingOpportunity): Promise<void> {
-    // Realistic delay (300-800ms)
-    await new Promise(r => setTimeout(r, 300 + Math.random() * 500));
+  private reject(opportunity: BettingOpportunity, reason: string): void {
+    opportunity.rejectionReason = reason;
+    this.events.emit('OpportunityRejected', {
+      marketId: opportunity.market.id,
+      marketQuestion: opportunity.market.question,
+      outcome: opportunity.outcome.name,
+      strategy: opportunity.strategy,
+      reason,
+    });
+  }
+
+  // Execute a multi-leg basket as one unit: every leg fills or none are kept
+  private async executeBasket(opportunity: BettingOpportunity): Promise<void> {
+    const legs = opportunity.legs ?? [];
+    // Selling a set needs one minted first (CTF split), which is not wired up, so
+    // neither live nor simulated runs can trade it
+    if (legs[0]?.side === 'SELL') {
+      this.reject(opportunity, 'Sell-side basket needs a freshly minted set (CTF split not supported)');
+      return;
+    }
 
-    // 98% success rate in simulation
-    const success = Math.random() > 0.02;
+    const sizing = this.riskManager.calculateBasketSize(opportunity, this.state);
+    if (sizing.sets <= 0) {
+      this.reject(opportunity, sizing.limitedBy ?? 'No room to size a basket (limits, bankroll or leg depth)');
+      return;
+    }
 
-    if (success) {
-      // Simulate slippage (0-1%)
-      const slippage = 1 + (Math.random() * 0.01);
-      trade.price = Math.min(0.99, opportunity.outcome.price * slippage);
-      trade.shares = trade.total / trade.price;
-      trade.status = 'FILLED';
+    const basketId = makeId('basket', this.clock, this.random);
+    const trades: Trade[] = legs.map((leg, i) => ({
+      id: `${basketId}-${i}`,
+      timestamp: new Date(this.clock.now()),
+      marketId: leg.market.id,
+      marketQuestion: leg.market.question,
+      outcome: leg.outcome.name,
+      side: leg.side,
+      tokenId: leg.outcome.id,
+      strategy: opportunity.strategy,
+      shares: sizing.sets,
+      price: leg.price,
+      total: sizing.sets * leg.price,
+      status: 'PENDING',
+      basketId,
+      isSimulated: this.simulationMode,
+      reasoning: opportunity.reasoning,
+    }));
 
-      this.addPosition(trade, opportunity);
-      this.state.bankroll -= trade.total;
+    const held = this.holdsMarket(opportunity.market.id);
+    this.state.trades.unshift(...trades);
+    this.notifyStateChange();
 
-      console.log(`[SIM] Filled: ${trade.shares.toFixed(2)} shares @ ${(trade.price * 100).toFixed(1)}%`);
-    } else {
-      trade.status = 'FAILED';
-      console.log('[SIM] Trade failed (simulated rejection)');
+    const api = getAPI();
+    const live = !this.simulationMode && api.hasCredentials() && api.hasWallet();
+
+    if (!live) trades.forEach(t => (t.isSimulated = true));
+
+    const placed = await this.placeBasket(live ? api : this.paperExchange, opportunity, trades);
+    this.unbookedLegShares.clear();
+    if (!placed) return;
+    this.memory.remember(opportunity, trades[0].timestamp.getTime(), held);
+
+    // Book the basket; a bought set is held to resolution
+    const perLegFee = (sizing.amount - trades.reduce((sum, t) => sum + t.total, 0)) / legs.length;
+    legs.forEach((leg, i) => {
+      // Legs are held to resolution: exiting one alone would break the lock
+      openPosition(this.state, trades[i], { ...opportunity, market: leg.market, outcome: leg.outcome, legs: undefined, exitRules: { disabled: true } },
+        sizing.sets, trades[i].total + perLegFee);
+      this.postFill(trades[i], -trades[i].total, 0);
+      // The fee sits in the leg's cost basis, so it is realized when the leg settles
+      if (perLegFee > 0) {
+        postToLedger(this.state, { at: this.clock.now(), type: 'FEE', cash: -perLegFee, realizedPnl: 0, marketId: leg.market.id, tradeId: trades[i].id });
+      }
+    });
+    recalculatePnL(this.state);
+
+    trades.forEach(trade => this.events.emit('OrderFinished', { trade }));
+  }
+
+  // Fill-or-kill every leg at its detected price. If one is killed, unwind what filled.
+  private async placeBasket(venue: OrderVenue, opportunity: BettingOpportunity, trades: Trade[]): Promise<boolean> {
+    const legs = opportunity.legs ?? [];
+    const filled: number[] = [];
+
+    for (let i = 0; i < legs.length; i++) {
+      const result = await venue.placeOrder({
+        tokenId: legs[i].outcome.id,
+        side: legs[i].side,
+        size: trades[i].shares,
+        price: legs[i].price,
+        negRisk: legs[i].market.negRisk,
+        orderType: 'FOK',
+      });
+
+      if (!result.success) {
+        trades.forEach(t => (t.status = 'FAILED'));
+        await this.unwindBasketLegs(venue, opportunity, trades, filled);
+        const error = `Basket leg ${i + 1}/${legs.length} killed: ${result.error}`;
+        trades.forEach(trade => this.events.emit('OrderFinished', { trade, error }));
+        return false;
+      }
+
+      trades[i].orderId = result.orderId;
+      trades[i].filledShares = trades[i].shares;
+      trades[i].status = 'FILLED';
+      filled.push(i);
+      if (legs[i].side === 'BUY') {
+        this.unbookedLegShares.set(legs[i].outcome.id, (this.unbookedLegShares.get(legs[i].outcome.id) ?? 0) + trades[i].shares);
+      }
+      this.events.emit('OrderSubmitted', { trade: trades[i], orderId: result.orderId ?? '' });
+      this.events.emit('OrderFilled', { trade: trades[i], shares: trades[i].shares, price: legs[i].price });
     }
+
+    return true;
   }
 
-  // Live trade execution
-  private async executeLiveTrade(trade: Trade, opportunity: BettingOpportunity): Promise<void> {
+  // Trade back, at market, legs that filled before another leg was killed
+  private async unwindBasketLegs(
+    venue: OrderVenue,
+    opportunity: BettingOpportunity,
+    trades: Trade[],
+    filled: number[]
+  ): Promise<void> {
+    const legs = opportunity.legs ?? [];
+
+    for (const i of filled) {
+      const isBuy = legs[i].side === 'BUY';
+      const result = await venue.placeOrder({
+        tokenId: legs[i].outcome.id,
+        side: isBuy ? 'SELL' : 'BUY',
+        size: trades[i].shares,
+        negRisk: legs[i].market.negRisk,
+      });
+      if (result.success) {
+        // Book the round trip: whatever the spread cost between the leg and its unwind
+        const unwound = result.orderId ? await venue.getOrder(result.orderId) : null;
+        const unwindPrice = unwound?.avgPrice ?? unwound?.price ?? legs[i].price;
+        const loss = (isBuy ? legs[i].price - unwindPrice : unwindPrice - legs[i].price) * trades[i].shares;
+        this.postFill(trades[i], -loss, -loss, 'Basket leg bought and unwound');
+        recalculatePnL(this.state);
+
+        trades[i].status = 'CANCELLED';
+        trades[i].reasoning = `Unwound: another basket leg did not fill ($${loss.toFixed(2)} lost to the spread)`;
+      } else if (isBuy) {
+        // Keep the stray leg as a normal position so it is tracked and settled
+        this.events.emit('BasketUnwindFailed', { trade: trades[i], leg: i + 1, error: result.error ?? 'Unwind order failed' });
+        openPosition(this.state, trades[i], { ...opportunity, market: legs[i].market, outcome: legs[i].outcome, legs: undefined });
+        this.postFill(trades[i], -trades[i].total, 0);
+      } else {
+        this.events.emit('BasketUnwindFailed', { trade: trades[i], leg: i + 1, error: result.error ?? 'Buy-back order failed' });
+      }
+    }
+  }
+
+  // Shares of a token the agent holds, basket legs still being placed included
+  private heldShares(tokenId: string): number {
+    const booked = this.state.positions
+      .filter(p => p.tokenId === tokenId)
+      .reduce((sum, p) => sum + p.shares, 0);
+    return booked + (this.unbookedLegShares.get(tokenId) ?? 0);
+  }
+
+  // todayPnL restarts from current equity once the date changes in the configured zone
+  private rollTradingDay(): void {
+    if (rollLedgerDay(this.state, this.clock.now(), this.config.timeZone)) {
+      recalculatePnL(this.state);
+    }
+  }
+
+  // Shrink, pause or resume entries as today's losses move; every change is reported
+  private updateBreaker(): void {
+    const change = this.breaker.evaluate(this.state, this.clock.now());
+    if (change) {
+      this.events.emit('CircuitBreakerChanged', { ...change, summary: summarizeState(this.state) });
+      this.notifyStateChange();
+    }
+  }
+
+  // Ledger entry for a basket leg booked outside bookFill
+  private postFill(trade: Trade, cash: number, realizedPnl: number, note?: string): void {
+    postToLedger(this.state, {
+      at: this.clock.now(),
+      type: 'FILL',
+      cash,
+      realizedPnl,
+      marketId: trade.marketId,
+      outcome: trade.outcome,
+      side: trade.side,
+      shares: trade.shares,
+      price: trade.price,
+      tradeId: trade.id,
+      note,
+    });
+  }
+
+  // Simulated execution: the same order flow as live, matched by the paper exchange
+  private async executeSimulatedTrade(trade: Trade, opportunity?: BettingOpportunity): Promise<void> {
+    trade.isSimulated = true;
+    await this.submitOrder(this.paperExchange, trade, opportunity);
+  }
+
+  // Live trade execution: place the order, then let the tracker book fills
+  private async executeLiveTrade(trade: Trade, opportunity?: BettingOpportunity): Promise<void> {
     const api = getAPI();
 
-    if (!api.hasCredentials()) {
-      console.log('[Executor] No API credentials - falling back to simulation');
-      trade.isSimulated = true;
+    if (!api.hasCredentials() || !api.hasWallet()) {
+      if (trade.side === 'SELL') {
+        // Never pretend to close a real position
+        trade.status = 'FAILED';
+        this.releaseExit(trade);
+        this.events.emit('OrderFinished', { trade, error: 'Cannot sell without API credentials and a signing wallet' });
+        return;
+      }
+      this.events.emit('SimulationFallback', { trade, reason: 'No API credentials or signing wallet' });
       return this.executeSimulatedTrade(trade, opportunity);
     }
 
-    const result = await api.placeOrder({
-      tokenId: opportunity.outcome.id,
-      side: 'BUY',
+    await this.submitOrder(api, trade, opportunity);
+  }
+
+  // Place a limit order at the trade's price and track it until it fills or is cancelled
+  private async submitOrder(venue: OrderVenue, trade: Trade, opportunity?: BettingOpportunity): Promise<void> {
+    const result = await venue.placeOrder({
+      tokenId: trade.tokenId ?? opportunity?.outcome.id ?? '',
+      side: trade.side,
       size: trade.shares,
+      negRisk: opportunity ? opportunity.market.negRisk : findPosition(this.state, trade.marketId, trade.outcome)?.negRisk,
+      // Round to the 1c tick on the marketable side
+      price: trade.side === 'BUY'
+        ? Math.min(0.99, Math.ceil(trade.price * 100) / 100)
+        : Math.max(0.01, Math.floor(trade.price * 100) / 100),
     });
 
-    if (result.success) {
-      trade.status = 'FILLED';
-      this.addPosition(trade, opportunity);
-      this.state.bankroll -= trade.total;
-      console.log(`[LIVE] Trade filled: ${result.orderId}`);
-    } else {
+    if (!result.success || !result.orderId) {
       trade.status = 'FAILED';
-      console.error(`[LIVE] Trade failed: ${result.error}`);
+      this.releaseExit(trade);
+      this.events.emit('OrderFinished', { trade, error: result.error });
+      return;
     }
+
+    trade.orderId = result.orderId;
+    trade.filledShares = 0;
+    this.trackedOrders.set(result.orderId, {
+      trade,
+      opportunity,
+      placedAt: this.clock.now(),
+      appliedShares: 0,
+      appliedAmount: 0,
+      cancelRequested: false,
+    });
+    this.events.emit('OrderSubmitted', { trade, orderId: result.orderId });
+
+    // Most marketable orders match right away; don't wait a full poll interval
+    await this.pollOrder(result.orderId);
   }
 
-  // Add or update position
-  private addPosition(trade: Trade, opportunity: BettingOpportunity): void {
-    const existing = this.state.positions.find(
-      p => p.marketId === trade.marketId && p.outcome === trade.outcome
-    );
+  private venueFor(trade: Trade): OrderVenue {
+    return trade.isSimulated ? this.paperExchange : getAPI();
+  }
+
+  // Poll every tracked order
+  private async pollOrders(): Promise<void> {
+    if (this.trackedOrders.size === 0) return;
+
+    for (const orderId of Array.from(this.trackedOrders.keys())) {
+      await this.pollOrder(orderId);
+    }
+    this.notifyStateChange();
+  }
+
+  // Move one trade through PENDING -> PARTIALLY_FILLED -> FILLED / CANCELLED
+  private async pollOrder(orderId: string): Promise<void> {
+    const tracked = this.trackedOrders.get(orderId);
+    if (!tracked) return;
+
+    const { trade, opportunity } = tracked;
+    const venue = this.venueFor(trade);
+
+    const order = await venue.getOrder(orderId);
+    if (!order) return; // Transient failure - try again next poll
+
+    // Book newly matched shares at the average fill price (the limit when the venue doesn't say)
+    const fillPrice = order.avgPrice ?? order.price;
+    const newShares = order.sizeMatched - tracked.appliedShares;
+    if (newShares > 0) {
+      const matchedAmount = order.sizeMatched * fillPrice;
+      const newAmount = matchedAmount - tracked.appliedAmount;
+      bookFill(this.state, trade, opportunity, newShares, newAmount, this.clock.now());
+      if (trade.side === 'SELL') this.untrackClosed([trade.tokenId]);
+      tracked.appliedShares = order.sizeMatched;
+      tracked.appliedAmount = matchedAmount;
+
+      trade.filledShares = order.sizeMatched;
+      trade.shares = order.sizeMatched;
+      trade.price = fillPrice;
+      trade.total = matchedAmount;
+      this.events.emit('OrderFilled', { trade, shares: newShares, price: newAmount / newShares });
+    }
+
+    const fullyFilled = order.status === 'MATCHED'
+      || (order.originalSize > 0 && order.sizeMatched >= order.originalSize);
+
+    if (fullyFilled) {
+      trade.status = 'FILLED';
+    } else if (order.status === 'CANCELED') {
+      // Keep whatever matched before the cancel; the trade reflects the filled part only
+      trade.status = 'CANCELLED';
+    } else if (order.sizeMatched > 0) {
+      trade.status = 'PARTIALLY_FILLED';
+    }
+
+    if (trade.status === 'FILLED' || trade.status === 'CANCELLED') {
+      this.trackedOrders.delete(orderId);
+      this.releaseExit(trade);
+      this.events.emit('OrderFinished', { trade });
+      return;
+    }
+
+    // Cancel orders left resting too long
+    const timeoutMs = this.config.orderTimeoutMs ?? 60000;
+    if (!tracked.cancelRequested && this.clock.now() - tracked.placedAt > timeoutMs) {
+      tracked.cancelRequested = true;
+      const cancel = await venue.cancelOrder(orderId);
+      if (!cancel.success) {
+        this.events.emit('ApiError', { operation: `Cancel ${orderId}`, error: cancel.error || 'Cancel rejected' });
+        tracked.cancelRequested = false;
+      }
+    }
+  }
+
+  // Cancel every resting order the agent placed
+  async cancelOpenOrders(): Promise<void> {
+    for (const [orderId, tracked] of this.trackedOrders) {
+      const result = await this.venueFor(tracked.trade).cancelOrder(orderId);
+      if (result.success) {
+        tracked.cancelRequested = true;
+      } else {
+        this.events.emit('ApiError', { operation: `Cancel ${orderId}`, error: result.error || 'Cancel rejected' });
+      }
+    }
+    await this.pollOrders();
+  }
+
+  // Orders the venue still lists as resting after the cancel round; they need a manual cancel
+  private async reportOrdersLeftOpen(): Promise<void> {
+    if (this.trackedOrders.size === 0) return;
+
+    const resting = new Set([
+      ...this.paperExchange.getOpenOrders(),
+      ...await getAPI().getOpenOrders(),
+    ].map(o => o.id));
+    for (const orderId of this.trackedOrders.keys()) {
+      if (resting.has(orderId)) {
+        this.events.emit('ApiError', { operation: `Cancel ${orderId}`, error: 'Order still resting after stop' });
+      }
+    }
+  }
 
-    if (existing) {
-      const totalShares = existing.shares + trade.shares;
-      const totalCost = (existing.shares * existing.avgPrice) + trade.total;
-      existing.shares = totalShares;
-      existing.avgPrice = totalCost / totalShares;
-      existing.isSimulated = trade.isSimulated;
+  // A SELL finished or failed; the position may be exited again
+  private releaseExit(trade: Trade): void {
+    if (trade.side !== 'SELL') return;
+    const position = findPosition(this.state, trade.marketId, trade.outcome);
+    if (position) position.exitPending = false;
+  }
+
+  // Sell positions whose exit rules fired on this cycle
+  private async processExits(opportunities: BettingOpportunity[]): Promise<void> {
+    const signals = this.exitEngine.evaluate(this.state.positions, opportunities, this.clock.now());
+    for (const signal of signals) {
+      await this.exitPosition(signal.position, signal.reason);
+    }
+  }
+
+  // Sell a whole position through the same simulated / live path as buys
+  async exitPosition(position: Position, reason = 'Manual exit'): Promise<void> {
+    if (position.exitPending || position.shares <= 0) return;
+    position.exitPending = true;
+
+    // Price off the best bid when there is a book
+    const book = position.tokenId ? await getAPI().getOrderBook(position.tokenId) : null;
+    const price = book?.bids[0]?.price ?? position.currentPrice;
+    // Where the position was bought decides where it is sold, whatever mode the agent is in now
+    const simulated = !!position.isSimulated;
+
+    const trade: Trade = {
+      id: makeId('exit', this.clock, this.random),
+      timestamp: new Date(this.clock.now()),
+      marketId: position.marketId,
+      marketQuestion: position.marketQuestion,
+      outcome: position.outcome,
+      side: 'SELL',
+      tokenId: position.tokenId,
+      strategy: position.strategy,
+      shares: position.shares,
+      price,
+      total: position.shares * price,
+      status: 'PENDING',
+      isSimulated: simulated,
+      reasoning: reason,
+    };
+
+    this.events.emit('ExitTriggered', {
+      marketId: position.marketId,
+      marketQuestion: position.marketQuestion,
+      outcome: position.outcome,
+      reason,
+    });
+
+    this.state.trades.unshift(trade);
+    this.notifyStateChange();
+
+    if (simulated) {
+      await this.executeSimulatedTrade(trade);
     } else {
-      this.state.positions.push({
-        marketId: trade.marketId,
-        marketQuestion: trade.marketQuestion,
-        outcome: trade.outcome,
-        shares: trade.shares,
-        avgPrice: trade.price,
-        currentPrice: trade.price,
-        pnl: 0,
-        pnlPercent: 0,
-        isSimulated: trade.isSimulated,
-      });
+      await this.executeLiveTrade(trade);
+    }
+  }
+
+  // Per-position override of the default exit rules
+  setPositionExitRules(marketId: string, outcome: string, rules: ExitRules): void {
+    const position = this.state.positions.find(p => p.marketId === marketId && p.outcome === outcome);
+    if (position) {
+      position.exitRules = { ...position.exitRules, ...rules };
+      this.notifyStateChange();
+    }
+  }
+
+  // Close out positions in resolved markets at 1 or 0 per share
+  private async settleResolvedPositions(): Promise<void> {
+    const { settlements, awaiting } = await this.resolutionWatcher.check(this.state.positions);
+    awaiting.forEach(p => {
+      p.awaitingResolution = true;
+    });
+    const heldTokens = this.state.positions.map(p => p.tokenId);
+
+    for (const settlement of settlements) {
+      settlePosition(this.state, settlement);
+
+      const trade: Trade = {
+        id: makeId('settle', this.clock, this.random),
+        timestamp: settlement.settledAt,
+        marketId: settlement.marketId,
+        marketQuestion: settlement.marketQuestion,
+        outcome: settlement.outcome,
+        side: 'SELL',
+        shares: settlement.shares,
+        price: settlement.payoutPerShare,
+        total: settlement.proceeds,
+        status: 'FILLED',
+        strategy: settlement.strategy,
+        reasoning: `Market resolved: ${settlement.winningOutcome} won`,
+      };
+      this.state.trades.unshift(trade);
+      this.events.emit('PositionSettled', { settlement, trade });
     }
+    if (settlements.length > 0) this.untrackClosed(heldTokens);
+  }
+
+  // Stop streaming tokens no position holds any more, unless the scan still watches them
+  private untrackClosed(tokenIds: (string | undefined)[]): void {
+    const stream = getMarketData();
+    if (!stream) return;
+
+    const held = new Set(this.state.positions.map(p => p.tokenId));
+    stream.untrack(tokenIds.filter((id): id is string => !!id && !held.has(id) && !this.scannedTokens.has(id)));
+  }
+
+  // Reprice positions holding a token whose streamed quote just changed
+  private handleQuote(tokenId: string): void {
+    const price = getMarketData()?.getPrice(tokenId);
+    if (price === undefined) return;
+
+    // Closed markets keep their last price until they settle
+    const affected = this.state.positions.filter(p => p.tokenId === tokenId && !p.awaitingResolution);
+    if (affected.length === 0) return;
+
+    affected.forEach(position => {
+      position.currentPrice = price;
+      markPosition(position);
+    });
+    recalculatePnL(this.state);
+    this.notifyStateChange();
   }
 
-  // Update P&L with realistic price movements
+  // Update P&L at real mids: streamed quotes first, then the REST book
   private async updatePositionsPnL(): Promise<void> {
+    const stream = getMarketData();
+
     for (const position of this.state.positions) {
-      if (this.simulationMode || position.isSimulated) {
-        // Simulate realistic price movement
-        // Random walk with slight drift based on our entry
-        const volatility = 0.02 + Math.random() * 0.03;
-        const drift = (Math.random() - 0.45) * volatility; // Slight positive bias
-        const newPrice = position.currentPrice + drift;
-
-        // Clamp to realistic bounds
-        position.currentPrice = Math.max(0.01, Math.min(0.99, newPrice));
-      } else {
+      const streamed = position.tokenId ? stream?.getPrice(position.tokenId) : undefined;
+
+      if (position.awaitingResolution) {
+        // Market closed: the price is frozen until it settles
+      } else if (streamed !== undefined) {
+        position.currentPrice = streamed;
+      } else if (position.tokenId) {
         // Fetch real prices
         try {
           const api = getAPI();
-          const prices = await api.getPrices(position.marketId);
-          if (prices.mid > 0) {
+          const prices = await api.getPrices(position.tokenId);
+          if (prices && prices.mid > 0) {
             position.currentPrice = prices.mid;
           }
         } catch (e) {
-          console.error('[Price] Fetch error:', e);
+          this.events.emit('ApiError', { operation: `Price ${position.tokenId}`, error: errorMessage(e) });
         }
       }
 
-      // Calculate P&L
-      const currentValue = position.shares * position.currentPrice;
-      const costBasis = position.shares * position.avgPrice;
-      position.pnl = currentValue - costBasis;
-      position.pnlPercent = costBasis > 0 ? (position.pnl / costBasis) * 100 : 0;
+      markPosition(position);
     }
 
-    // Total P&L
-    const totalPnL = this.state.positions.reduce((sum, p) => sum + p.pnl, 0);
-    this.state.todayPnL = totalPnL;
-    this.state.totalPnL = totalPnL;
+    recalculatePnL(this.state);
   }
 
   // Getters/Setters
@@ -334,8 +1018,18 @@ export class AutoExecutor {
     return { ...this.state };
   }
 
+  // Moves the bankroll to `amount` with a deposit or withdrawal, so the ledger stays in balance
   setBankroll(amount: number): void {
-    this.state.bankroll = amount;
+    const change = amount - this.state.bankroll;
+    if (change !== 0) {
+      postToLedger(this.state, {
+        at: this.clock.now(),
+        type: change > 0 ? 'DEPOSIT' : 'WITHDRAWAL',
+        cash: change,
+        realizedPnl: 0,
+      });
+      recalculatePnL(this.state);
+    }
     this.notifyStateChange();
   }
 
@@ -345,6 +1039,10 @@ export class AutoExecutor {
     this.notifyStateChange();
   }
 
+  getConfig(): AgentConfig {
+    return { ...this.config };
+  }
+
   isSimulating(): boolean {
     return this.simulationMode;
   }
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentConfig, Market } from '@/types/polymarket';
+import { Backtester } from './backtester';
+import { DEFAULT_SAFETY_LIMITS } from './risk-manager';
+import { StrategyRegistry, type Strategy } from './strategy-registry';
+import { complementArbitrageStrategy } from './strategies';
+
+const config: AgentConfig = {
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  walletAddress: '',
+  safetyLimits: DEFAULT_SAFETY_LIMITS,
+  undervaluedThreshold: 0.3,
+  overvaluedThreshold: 0.75,
+  scanIntervalMs: 60_000,
+  autoExecute: true,
+  simulationMode: true,
+};
+
+const market: Market = {
+  id: 'm1',
+  question: 'Will it rain?',
+  slug: 'rain',
+  endDate: '',
+  liquidity: 10_000,
+  volume: 1,
+  outcomes: [{ id: 'yes', name: 'Yes', price: 0.45 }, { id: 'no', name: 'No', price: 0.5 }],
+  active: true,
+};
+
+// Finds a basket on every market, the way an arbitrage would with books
+const basketStrategy: Strategy = {
+  id: 'basket',
+  name: 'Basket',
+  defaultParams: {},
+  evaluate: context => context.events.flatMap(event => event.markets).map(m => ({
+    market: m,
+    outcome: m.outcomes[0],
+    strategy: 'basket',
+    recommendedBet: 'YES' as const,
+    confidence: 1,
+    winProbability: 1,
+    suggestedAmount: 0,
+    expectedValue: 0.05,
+    lockedProfit: 0.05,
+    legs: m.outcomes.map(o => ({ market: m, outcome: o, side: 'BUY' as const, price: o.price, size: 100 })),
+  })),
+};
+
+// Thinks YES is worth 0.7 on every market, whatever it trades at
+const yesStrategy: Strategy = {
+  id: 'yes',
+  name: 'Always YES',
+  defaultParams: {},
+  evaluate: context => context.events.flatMap(event => event.markets).map(m => ({
+    market: m,
+    outcome: m.outcomes[0],
+    strategy: 'yes',
+    recommendedBet: 'YES' as const,
+    confidence: 0.8,
+    winProbability: 0.7,
+    suggestedAmount: 0,
+    expectedValue: 0.7 - m.outcomes[0].price,
+  })),
+};
+
+const priced = (id: string, yes: number): Market => ({
+  ...market,
+  id,
+  question: `Market ${id}?`,
+  outcomes: [{ id: `${id}-yes`, name: 'Yes', price: yes }, { id: `${id}-no`, name: 'No', price: 1 - yes }],
+});
+
+describe('Backtester', () => {
+  it('reports baskets it skipped and strategies snapshots cannot test', async () => {
+    const registry = new StrategyRegistry();
+    registry.register(basketStrategy);
+    registry.register(complementArbitrageStrategy, { enabled: true });
+
+    const result = await new Backtester({
+      config,
+      registry,
+      snapshots: [{ timestamp: 1000, markets: [market] }, { timestamp: 2000, markets: [market] }],
+    }).run();
+
+    expect(result.trades).toEqual([]);
+    expect(result.pnlByStrategy.basket).toMatchObject({ entries: 0, skipped: 2 });
+    expect(result.untestedStrategies).toEqual(['complement-arbitrage']);
+  });
+
+  it('enters once per market, marks to market and settles into equity and hit rate', async () => {
+    const registry = new StrategyRegistry();
+    registry.register(yesStrategy);
+    const HOUR = 60 * 60 * 1000;
+
+    const result = await new Backtester({
+      config: { ...config, exitRules: { disabled: true } },
+      registry,
+      snapshots: [
+        { timestamp: 0, markets: [priced('a', 0.45), priced('b', 0.45)] },
+        { timestamp: HOUR, markets: [priced('a', 0.55), priced('b', 0.45)] }, // Held, and no cheaper: no add
+        { timestamp: 2 * HOUR, markets: [priced('a', 0.55), priced('b', 0.45)] },
+      ],
+      resolutions: [
+        { marketId: 'a', winningOutcomeId: 'a-yes', resolvedAt: 2 * HOUR },
+        { marketId: 'b', winningOutcomeId: 'b-no', resolvedAt: 2 * HOUR },
+      ],
+    }).run();
+
+    const buys = result.trades.filter(t => t.side === 'BUY');
+    expect(buys.map(t => t.marketId)).toEqual(['a', 'b']);
+    const [a, b] = buys;
+
+    const cost = a.total + b.total;
+    expect(result.equityCurve[1].equity).toBeCloseTo(1000 - cost + a.shares * 0.55 + b.shares * 0.45);
+    expect(result.finalEquity).toBeCloseTo(1000 - cost + a.shares);
+    expect(Object.fromEntries(result.settlements.map(s => [s.marketId, s.payoutPerShare]))).toEqual({ a: 1, b: 0 });
+    expect(result.hitRate).toBe(0.5);
+    expect(result.pnlByStrategy.yes).toMatchObject({ entries: 2, closed: 2, wins: 1 });
+    expect(result.openPositions).toEqual([]);
+  });
+});
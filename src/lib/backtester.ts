@@ -0,0 +1,373 @@
+// Backtester - Replays saved snapshots through the scanner, re-entry, risk and portfolio logic
+//
+// Every step uses the snapshot's timestamp as "now". Order books are not recorded,
+// so fills happen at the snapshot price and book-driven strategies (arbitrage)
+// find nothing; the result names them and counts any basket it had to skip.
+// LLM answers come from recorded responses only.
+import type {
+  AgentConfig,
+  AgentState,
+  BettingOpportunity,
+  Market,
+  MarketSnapshot,
+  Position,
+  RecordedLLMResponse,
+  Settlement,
+  Trade,
+} from '@/types/polymarket';
+import { MarketScanner } from './market-scanner';
+import { RiskManager } from './risk-manager';
+import { ExitEngine, DEFAULT_EXIT_RULES } from './exit-engine';
+import { ResolutionWatcher } from './resolution-watcher';
+import { OpportunityMemory } from './opportunity-memory';
+import { LLMAnalyzer } from './llm-analyzer';
+import { LLMResponseLog } from './llm-recordings';
+import type { StrategyRegistry } from './strategy-registry';
+import { bookFill, calculateEquity, markPosition, recalculatePnL, settlePosition } from './portfolio';
+import { openingLedger, rollLedgerDay } from './ledger';
+import { systemClock, type Clock } from './clock';
+
+export interface BacktestResolution {
+  marketId: string;
+  winningOutcomeId: string;
+  resolvedAt: number;
+}
+
+export interface BacktestOptions {
+  config: AgentConfig;
+  snapshots: MarketSnapshot[];
+  resolutions?: BacktestResolution[];
+  llmResponses?: RecordedLLMResponse[];
+  startingBankroll?: number;
+  maxEntriesPerStep?: number; // The executor takes the top 2 per cycle
+  registry?: StrategyRegistry;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;   // Cash + positions at their marks
+  bankroll: number;
+}
+
+export interface StrategyStats {
+  entries: number;
+  closed: number;        // Exits + settlements
+  wins: number;
+  skipped: number;       // Baskets found but not replayed: their legs need order books
+  realizedPnL: number;
+  unrealizedPnL: number;
+  pnl: number;
+}
+
+export interface BacktestResult {
+  start: number;
+  end: number;
+  steps: number;
+  startingBankroll: number;
+  finalEquity: number;
+  totalPnL: number;
+  returnPercent: number;
+  hitRate: number;             // Winning closes / all closes
+  maxDrawdown: number;         // Largest peak-to-trough equity drop, in $
+  maxDrawdownPercent: number;
+  equityCurve: EquityPoint[];
+  trades: Trade[];
+  settlements: Settlement[];
+  openPositions: Position[];
+  pnlByStrategy: Record<string, StrategyStats>;
+  untestedStrategies: string[]; // Enabled strategies that need order books, which snapshots don't keep
+}
+
+export class Backtester {
+  private options: BacktestOptions;
+  private state!: AgentState;
+  private now = 0;
+  private tradeSeq = 0;
+  private lastSeen = new Map<string, Market>();
+  private stats: Record<string, StrategyStats> = {};
+
+  constructor(options: BacktestOptions) {
+    this.options = options;
+  }
+
+  async run(): Promise<BacktestResult> {
+    const { config } = this.options;
+    const snapshots = [...this.options.snapshots].sort((a, b) => a.timestamp - b.timestamp);
+    const resolutions = [...(this.options.resolutions ?? [])].sort((a, b) => a.resolvedAt - b.resolvedAt);
+    const startingBankroll = this.options.startingBankroll ?? 1000;
+    const maxEntries = this.options.maxEntriesPerStep ?? 2;
+
+    this.reset(startingBankroll, snapshots[0]?.timestamp ?? 0);
+
+    // Every component reads the snapshot time
+    const clock: Clock = { ...systemClock, now: () => this.now };
+    const scanner = new MarketScanner(config, this.options.registry, clock);
+    const riskManager = new RiskManager(config.safetyLimits);
+    const exitEngine = new ExitEngine({ ...DEFAULT_EXIT_RULES, ...config.exitRules }, clock);
+    const resolutionWatcher = new ResolutionWatcher(undefined, clock);
+    const memory = new OpportunityMemory(config.reEntry);
+
+    let llm: LLMAnalyzer | null = null;
+    if (this.options.llmResponses?.length) {
+      llm = new LLMAnalyzer();
+      llm.useClock(clock);
+      llm.replayFrom(new LLMResponseLog(this.options.llmResponses));
+    }
+
+    const equityCurve: EquityPoint[] = [];
+
+    for (const snapshot of snapshots) {
+      this.now = snapshot.timestamp;
+      snapshot.markets.forEach(m => this.lastSeen.set(m.id, m));
+      rollLedgerDay(this.state, this.now, config.timeZone);
+
+      // 1. Settle anything that resolved by now
+      const resolved = resolutions.filter(r => r.resolvedAt <= this.now);
+      this.settleResolved(resolutionWatcher, snapshot, resolved);
+
+      // 2. Mark open positions at this snapshot's prices
+      this.markPositions(snapshot);
+
+      // 3. Scan with the same strategies the executor runs
+      const resolvedIds = new Set(resolved.map(r => r.marketId));
+      const active = snapshot.markets.filter(m => m.active && !m.closed && !resolvedIds.has(m.id));
+      const opportunities = await scanner.scanMarkets(active, {
+        now: this.now,
+        getOrderBook: async () => null,
+        llm,
+      });
+      this.state.opportunities = opportunities.slice(0, 10);
+
+      // 4. Exits before entries, like a live cycle
+      for (const signal of exitEngine.evaluate(this.state.positions, opportunities, this.now)) {
+        this.exit(signal.position, signal.reason);
+      }
+
+      // 5. Entries, unless a safety limit is hit (the live agent stops there).
+      // The best ones the re-entry rules let through, like the executor's scan.
+      if (!riskManager.isSafetyBreached(this.state).breached) {
+        let entered = 0;
+        for (const opportunity of this.state.opportunities) {
+          if (entered >= maxEntries) break;
+
+          const held = this.holdsMarket(opportunity.market.id);
+          if (!memory.check(opportunity, this.now, held).allowed) continue;
+          if (!this.enter(riskManager, opportunity)) continue;
+
+          memory.remember(opportunity, this.now, held);
+          entered++;
+        }
+      }
+
+      equityCurve.push({
+        timestamp: this.now,
+        equity: calculateEquity(this.state),
+        bankroll: this.state.bankroll,
+      });
+    }
+
+    const untested = scanner.getRegistry().list()
+      .filter(s => s.enabled && s.needsOrderBooks)
+      .map(s => s.id);
+    return this.summarize(snapshots, startingBankroll, equityCurve, untested);
+  }
+
+  private reset(bankroll: number, start: number): void {
+    this.state = {
+      isRunning: false,
+      bankroll,
+      todayPnL: 0,
+      totalPnL: 0,
+      realizedPnL: 0,
+      ledger: openingLedger(bankroll, start),
+      positions: [],
+      settlements: [],
+      trades: [],
+      opportunities: [],
+      safetyTriggered: false,
+      isSimulationMode: true,
+    };
+    this.tradeSeq = 0;
+    this.lastSeen.clear();
+    this.stats = {};
+  }
+
+  private statsFor(strategy = 'unknown'): StrategyStats {
+    if (!this.stats[strategy]) {
+      this.stats[strategy] = { entries: 0, closed: 0, wins: 0, skipped: 0, realizedPnL: 0, unrealizedPnL: 0, pnl: 0 };
+    }
+    return this.stats[strategy];
+  }
+
+  private recordClose(strategy: string | undefined, realized: number): void {
+    const stats = this.statsFor(strategy);
+    stats.closed++;
+    stats.realizedPnL += realized;
+    if (realized > 0) stats.wins++;
+  }
+
+  private newTrade(fields: Omit<Trade, 'id' | 'timestamp' | 'status' | 'isSimulated'>): Trade {
+    return {
+      id: `bt-${++this.tradeSeq}`,
+      timestamp: new Date(this.now),
+      status: 'FILLED',
+      isSimulated: true,
+      ...fields,
+    };
+  }
+
+  private holdsMarket(marketId: string): boolean {
+    return this.state.positions.some(p => p.marketId === marketId);
+  }
+
+  // Size with RiskManager (no book: fills at the quoted price) and book through the portfolio.
+  // False when nothing was bought.
+  private enter(riskManager: RiskManager, opportunity: BettingOpportunity): boolean {
+    if (opportunity.legs) {
+      this.statsFor(opportunity.strategy).skipped++;
+      return false;
+    }
+    if (!riskManager.validateOpportunity(opportunity).valid) return false;
+
+    const sizing = riskManager.calculatePositionSize(opportunity, this.state);
+    if (sizing.amount <= 0 || sizing.shares <= 0) return false;
+
+    const trade = this.newTrade({
+      marketId: opportunity.market.id,
+      marketQuestion: opportunity.market.question,
+      outcome: opportunity.outcome.name,
+      side: 'BUY',
+      tokenId: opportunity.outcome.id,
+      strategy: opportunity.strategy,
+      shares: sizing.shares,
+      price: sizing.avgFillPrice,
+      total: sizing.amount,
+      reasoning: opportunity.reasoning,
+    });
+
+    this.state.trades.unshift(trade);
+    bookFill(this.state, trade, opportunity, trade.shares, trade.total);
+    this.statsFor(opportunity.strategy).entries++;
+    return true;
+  }
+
+  // Sell the whole position at its current mark
+  private exit(position: Position, reason: string): void {
+    const trade = this.newTrade({
+      marketId: position.marketId,
+      marketQuestion: position.marketQuestion,
+      outcome: position.outcome,
+      side: 'SELL',
+      tokenId: position.tokenId,
+      strategy: position.strategy,
+      shares: position.shares,
+      price: position.currentPrice,
+      total: position.shares * position.currentPrice,
+      reasoning: reason,
+    });
+
+    this.state.trades.unshift(trade);
+    const realized = bookFill(this.state, trade, undefined, trade.shares, trade.total);
+    this.recordClose(position.strategy, realized);
+  }
+
+  private settleResolved(
+    watcher: ResolutionWatcher,
+    snapshot: MarketSnapshot,
+    resolutions: BacktestResolution[]
+  ): void {
+    const winners = new Map(resolutions.map(r => [r.marketId, r.winningOutcomeId]));
+    snapshot.markets
+      .filter(m => m.closed && m.winningOutcomeId)
+      .forEach(m => winners.set(m.id, m.winningOutcomeId as string));
+
+    for (const position of [...this.state.positions]) {
+      const winningOutcomeId = winners.get(position.marketId);
+      const market = this.lastSeen.get(position.marketId);
+      if (!winningOutcomeId || !market) continue;
+
+      const settlement = watcher.settle(
+        position,
+        { ...market, closed: true, winningOutcomeId },
+        new Date(this.now)
+      );
+      if (!settlement) continue;
+
+      settlePosition(this.state, settlement);
+      this.state.trades.unshift(this.newTrade({
+        marketId: settlement.marketId,
+        marketQuestion: settlement.marketQuestion,
+        outcome: settlement.outcome,
+        side: 'SELL',
+        strategy: settlement.strategy,
+        shares: settlement.shares,
+        price: settlement.payoutPerShare,
+        total: settlement.proceeds,
+        reasoning: `Market resolved: ${settlement.winningOutcome} won`,
+      }));
+      this.recordClose(settlement.strategy, settlement.realizedPnl);
+    }
+  }
+
+  // Snapshot marks win over outcome prices; markets that dropped out keep their last mark
+  private markPositions(snapshot: MarketSnapshot): void {
+    const prices = new Map<string, number>();
+    snapshot.markets.forEach(m => m.outcomes.forEach(o => prices.set(o.id, o.price)));
+    Object.entries(snapshot.marks ?? {}).forEach(([tokenId, price]) => prices.set(tokenId, price));
+
+    for (const position of this.state.positions) {
+      const price = position.tokenId ? prices.get(position.tokenId) : undefined;
+      if (price !== undefined) position.currentPrice = price;
+      markPosition(position);
+    }
+    recalculatePnL(this.state);
+  }
+
+  private summarize(
+    snapshots: MarketSnapshot[],
+    startingBankroll: number,
+    equityCurve: EquityPoint[],
+    untestedStrategies: string[]
+  ): BacktestResult {
+    // Max drawdown from the running equity peak
+    let peak = startingBankroll;
+    let maxDrawdown = 0;
+    let maxDrawdownPercent = 0;
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equity);
+      const drawdown = peak - point.equity;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+        maxDrawdownPercent = peak > 0 ? (drawdown / peak) * 100 : 0;
+      }
+    }
+
+    for (const position of this.state.positions) {
+      this.statsFor(position.strategy).unrealizedPnL += position.pnl;
+    }
+    Object.values(this.stats).forEach(s => (s.pnl = s.realizedPnL + s.unrealizedPnL));
+
+    const closed = Object.values(this.stats).reduce((sum, s) => sum + s.closed, 0);
+    const wins = Object.values(this.stats).reduce((sum, s) => sum + s.wins, 0);
+    const finalEquity = calculateEquity(this.state);
+
+    return {
+      start: snapshots[0]?.timestamp ?? 0,
+      end: snapshots[snapshots.length - 1]?.timestamp ?? 0,
+      steps: snapshots.length,
+      startingBankroll,
+      finalEquity,
+      totalPnL: finalEquity - startingBankroll,
+      returnPercent: startingBankroll > 0 ? ((finalEquity - startingBankroll) / startingBankroll) * 100 : 0,
+      hitRate: closed > 0 ? wins / closed : 0,
+      maxDrawdown,
+      maxDrawdownPercent,
+      equityCurve,
+      trades: [...this.state.trades].reverse(),
+      settlements: this.state.settlements ?? [],
+      openPositions: this.state.positions,
+      pnlByStrategy: this.stats,
+      untestedStrategies,
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentState, Position } from '@/types/polymarket';
+import { CircuitBreaker } from './circuit-breaker';
+import { openingLedger, postToLedger, rollLedgerDay } from './ledger';
+import { DEFAULT_SAFETY_LIMITS, RiskManager } from './risk-manager';
+
+const HOUR = 60 * 60 * 1000;
+
+// $1000 bankroll with 200 shares bought at 0.50; the mark sets today's PnL
+function setup(rules = {}) {
+  const position: Position = {
+    marketId: 'm1', marketQuestion: 'Q?', outcome: 'Yes',
+    shares: 200, avgPrice: 0.5, currentPrice: 0.5, pnl: 0, pnlPercent: 0,
+  };
+  const state: AgentState = {
+    isRunning: true, bankroll: 1000, todayPnL: 0, totalPnL: 0, realizedPnL: 0,
+    ledger: openingLedger(1000, 0), positions: [position], trades: [], opportunities: [], safetyTriggered: false,
+  };
+  postToLedger(state, { at: 0, type: 'FILL', cash: -100, realizedPnl: 0 });
+
+  let now = Date.UTC(2026, 0, 1, 10);
+  rollLedgerDay(state, now);
+  const breaker = new CircuitBreaker(new RiskManager(DEFAULT_SAFETY_LIMITS), rules); // $50 daily loss limit
+
+  // Move time and the mark, then let the breaker look
+  const step = (ms: number, mark: number) => {
+    now += ms;
+    position.currentPrice = mark;
+    position.pnl = position.shares * (mark - position.avgPrice);
+    rollLedgerDay(state, now);
+    return breaker.evaluate(state, now);
+  };
+  return { state, step };
+}
+
+describe('CircuitBreaker', () => {
+  it('reduces sizes past the soft threshold and pauses past the daily limit', () => {
+    const { state, step } = setup();
+
+    expect(step(0, 0.5)).toBeNull();
+    expect(step(HOUR, 0.3)).toMatchObject({ from: 'NORMAL', to: 'REDUCED' }); // -$40
+    expect(step(HOUR, 0.2)).toMatchObject({ from: 'REDUCED', to: 'PAUSED' }); // -$60
+    expect(state.safetyTriggered).toBe(true);
+    expect(state.safetyReason).toMatch(/Daily loss limit/);
+  });
+
+  it('keeps sizes reduced until the loss is well back under the soft threshold', () => {
+    const { step } = setup();
+
+    step(0, 0.3); // -$40: REDUCED
+    expect(step(HOUR, 0.4)).toBeNull(); // -$20: under 50% of the limit, not yet under 30%
+    expect(step(HOUR, 0.45)).toMatchObject({ from: 'REDUCED', to: 'NORMAL' }); // -$10
+  });
+
+  it('clears a pause flag saved before the breaker existed', () => {
+    const { state, step } = setup();
+    state.safetyTriggered = true;
+    state.safetyReason = 'Daily loss limit reached';
+
+    expect(step(0, 0.5)).toBeNull();
+    expect(state.safetyTriggered).toBe(false);
+    expect(state.safetyReason).toBeUndefined();
+  });
+
+  it('stays paused through a cooldown that ends still over the limit', () => {
+    const { state, step } = setup({ cooldownMs: 4 * HOUR });
+    step(0, 0.1);
+
+    expect(step(4 * HOUR, 0.1)).toBeNull();
+    expect(state.breaker?.level).toBe('PAUSED');
+    expect(state.breaker?.resumeAt).toBeGreaterThan(Date.UTC(2026, 0, 1, 14));
+  });
+
+  it('resumes after the cooldown once losses are back within the limit', () => {
+    const { state, step } = setup({ cooldownMs: 4 * HOUR });
+    step(0, 0.1);
+
+    expect(step(HOUR, 0.4)).toBeNull(); // Recovered, but the cooldown is still running
+    expect(step(3 * HOUR, 0.4)).toMatchObject({ from: 'PAUSED', to: 'NORMAL' });
+    expect(state.safetyTriggered).toBe(false);
+  });
+
+  it('resumes on the next trading day', () => {
+    const { step } = setup({ cooldownMs: undefined });
+    step(0, 0.1);
+
+    expect(step(15 * HOUR, 0.1)).toMatchObject({ from: 'PAUSED', to: 'NORMAL', reason: 'New trading day' });
+  });
+});
@@ -0,0 +1,119 @@
+// Circuit Breaker - Graded response to losses instead of stopping the agent
+//
+// A soft breach (part of the daily loss limit gone) shrinks sizes through the
+// dynamic limits until the loss falls well back below it, so sizes don't flip on
+// every tick around the threshold. A hard breach (daily loss limit, or too little cash to bet)
+// pauses new entries while exits and price updates keep running. A pause lifts
+// on the next trading day, or after the cooldown once the breach has cleared.
+import type { AgentState, BreakerLevel, CircuitBreakerRules, CircuitBreakerState } from '@/types/polymarket';
+import type { RiskManager } from './risk-manager';
+import { summarizeLedger } from './ledger';
+
+export interface BreakerChange {
+  from: BreakerLevel;
+  to: BreakerLevel;
+  reason: string;
+  resumeAt?: number;
+}
+
+export class CircuitBreaker {
+  private rules: CircuitBreakerRules;
+
+  constructor(private riskManager: RiskManager, rules: Partial<CircuitBreakerRules> = {}) {
+    this.rules = { ...DEFAULT_CIRCUIT_BREAKER_RULES, ...rules };
+  }
+
+  // Move state.breaker to the level the state calls for. Returns the change, if any.
+  evaluate(state: AgentState, now: number): BreakerChange | null {
+    // A flag saved by the old safety stop, before there was a breaker, has nothing to lift it
+    if (!state.breaker && state.safetyTriggered) {
+      state.safetyTriggered = false;
+      state.safetyReason = undefined;
+    }
+
+    const current = state.breaker ?? { level: 'NORMAL', since: now };
+    const target = this.classify(state, current.level);
+
+    if (current.level === 'PAUSED') {
+      const newDay = this.rules.resumeNextDay && !!state.ledgerDay && state.ledgerDay.day !== current.day;
+      const cooledDown = current.resumeAt !== undefined && now >= current.resumeAt;
+      if (!newDay && !cooledDown) return null;
+
+      // Cooldown over but still over the limit: wait another round
+      if (target.level === 'PAUSED') {
+        if (cooledDown) current.resumeAt = now + (this.rules.cooldownMs ?? 0);
+        return null;
+      }
+
+      return this.apply(state, current, {
+        level: target.level,
+        reason: `${newDay ? 'New trading day' : 'Cooldown over'}${target.reason ? ` - ${target.reason}` : ''}`,
+      }, now);
+    }
+
+    if (target.level === current.level) return null;
+    return this.apply(state, current, {
+      level: target.level,
+      reason: target.reason ?? 'Losses back within limits',
+    }, now);
+  }
+
+  updateRules(rules: Partial<CircuitBreakerRules>): void {
+    this.rules = { ...this.rules, ...rules };
+  }
+
+  getRules(): CircuitBreakerRules {
+    return { ...this.rules };
+  }
+
+  // The level today's PnL and cash call for, ignoring any pause in force
+  private classify(state: AgentState, current: BreakerLevel): { level: BreakerLevel; reason?: string } {
+    const limits = this.riskManager.getLimits();
+    const { cash, todayPnL } = summarizeLedger(state);
+    const loss = -todayPnL;
+
+    if (loss > limits.maxDailyLoss) {
+      return { level: 'PAUSED', reason: `Daily loss limit reached: $${loss.toFixed(2)} > $${limits.maxDailyLoss}` };
+    }
+    if (cash < limits.maxBetSize) {
+      return { level: 'PAUSED', reason: `Bankroll too low: $${cash.toFixed(2)}` };
+    }
+    const softFraction = current === 'REDUCED' ? this.rules.recoverLossFraction : this.rules.softLossFraction;
+    if (loss > limits.maxDailyLoss * softFraction) {
+      return {
+        level: 'REDUCED',
+        reason: `Down $${loss.toFixed(2)} today, over ${(softFraction * 100).toFixed(0)}% of the $${limits.maxDailyLoss} limit`,
+      };
+    }
+    return { level: 'NORMAL' };
+  }
+
+  private apply(
+    state: AgentState,
+    current: CircuitBreakerState,
+    next: { level: BreakerLevel; reason: string },
+    now: number
+  ): BreakerChange {
+    const paused = next.level === 'PAUSED';
+    const resumeAt = paused && this.rules.cooldownMs !== undefined ? now + this.rules.cooldownMs : undefined;
+
+    state.breaker = {
+      level: next.level,
+      reason: next.reason,
+      since: now,
+      day: paused ? state.ledgerDay?.day : undefined,
+      resumeAt,
+    };
+    state.safetyTriggered = paused;
+    state.safetyReason = paused ? next.reason : undefined;
+
+    return { from: current.level, to: next.level, reason: next.reason, resumeAt };
+  }
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_RULES: CircuitBreakerRules = {
+  softLossFraction: 0.5,          // Halve sizes once half the daily loss limit is gone
+  recoverLossFraction: 0.3,       // Full sizes again once the loss is back under 30%
+  cooldownMs: 4 * 60 * 60 * 1000, // Check again four hours after a pause
+  resumeNextDay: true,            // todayPnL starts over, so entries can too
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { makeId, SeededRandom, VirtualClock } from './clock';
+
+describe('VirtualClock', () => {
+  it('fires timers in time order, then creation order', async () => {
+    const clock = new VirtualClock(0);
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push('b@20'), 20);
+    clock.setTimeout(() => fired.push('a@10'), 10);
+    clock.setTimeout(() => fired.push('c@20'), 20);
+
+    await clock.advance(15);
+    expect(fired).toEqual(['a@10']);
+    expect(clock.now()).toBe(15);
+
+    await clock.advance(5);
+    expect(fired).toEqual(['a@10', 'b@20', 'c@20']);
+  });
+
+  it('repeats intervals until cleared', async () => {
+    const clock = new VirtualClock(0);
+    const at: number[] = [];
+    const handle = clock.setInterval(() => at.push(clock.now()), 100);
+
+    await clock.advance(350);
+    clock.clearInterval(handle);
+    await clock.advance(1000);
+
+    expect(at).toEqual([100, 200, 300]);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('waits for async callbacks before firing the next timer', async () => {
+    const clock = new VirtualClock(0);
+    const events: string[] = [];
+    clock.setTimeout(async () => {
+      events.push('start');
+      await clock.sleep(50);
+      events.push('end');
+    }, 10);
+    clock.setTimeout(() => events.push('next'), 20);
+
+    await clock.advance(100);
+    expect(events).toEqual(['start', 'end', 'next']);
+  });
+});
+
+describe('SeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    const c = new SeededRandom(43);
+    const draw = (r: SeededRandom) => Array.from({ length: 5 }, () => r.next());
+
+    const first = draw(a);
+    expect(draw(b)).toEqual(first);
+    expect(draw(c)).not.toEqual(first);
+    first.forEach(x => expect(x).toBeGreaterThanOrEqual(0));
+    first.forEach(x => expect(x).toBeLessThan(1));
+  });
+
+  it('makes reproducible ids', () => {
+    const clock = new VirtualClock(1000);
+    expect(makeId('trade', clock, new SeededRandom(7))).toBe(makeId('trade', clock, new SeededRandom(7)));
+    expect(makeId('trade', clock, new SeededRandom(7))).toMatch(/^trade-1000-/);
+  });
+});
@@ -0,0 +1,141 @@
+// Clock & Random - Injectable time and randomness so simulated runs are reproducible
+//
+// Production code uses systemClock / systemRandom. Tests and simulations pass a
+// VirtualClock and a SeededRandom: timers fire only when the clock is advanced,
+// so a day of cycles runs as fast as the work inside them.
+
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+// A timer callback may return a promise; the virtual clock waits for it
+export type TimerCallback = () => unknown;
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: TimerCallback, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: TimerCallback, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+  sleep(ms: number): Promise<void>;
+}
+
+export interface Random {
+  next(): number; // Uniform in [0, 1)
+}
+
+// --- Real time ---
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: handle => clearInterval(handle as ReturnType<typeof setInterval>),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+export const systemRandom: Random = {
+  next: () => Math.random(),
+};
+
+// --- Virtual time ---
+
+interface VirtualTimer {
+  id: number;
+  at: number;
+  every?: number;
+  callback: TimerCallback;
+}
+
+export class VirtualClock implements Clock {
+  private current: number;
+  private timers = new Map<number, VirtualTimer>();
+  private nextId = 1;
+
+  constructor(start: number = Date.UTC(2026, 0, 1)) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: TimerCallback, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { id, at: this.current + Math.max(0, ms), callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  setInterval(callback: TimerCallback, ms: number): TimerHandle {
+    const id = this.nextId++;
+    const every = Math.max(1, ms);
+    this.timers.set(id, { id, at: this.current + every, every, callback });
+    return id;
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  // Waiting inside a timer callback would deadlock advance(), so virtual sleeps
+  // just move time forward and return
+  async sleep(ms: number): Promise<void> {
+    this.current += Math.max(0, ms);
+  }
+
+  // Fire every timer due within the next ms, in time order. Each callback (and the
+  // promise it returns) finishes before the next one fires.
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+
+    for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+      this.current = Math.max(this.current, timer.at);
+      if (timer.every) {
+        timer.at += timer.every;
+      } else {
+        this.timers.delete(timer.id);
+      }
+      await timer.callback();
+    }
+
+    this.current = Math.max(this.current, target);
+  }
+
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  // Earliest timer due by target; ties fire in creation order
+  private nextDue(target: number): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+    for (const timer of this.timers.values()) {
+      if (timer.at > target) continue;
+      if (!next || timer.at < next.at || (timer.at === next.at && timer.id < next.id)) next = timer;
+    }
+    return next;
+  }
+}
+
+// mulberry32: small, fast and good enough for simulations
+export class SeededRandom implements Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+// Ids like "trade-1767225600000-k3j9x1": time plus a random suffix
+export const makeId = (prefix: string, clock: Clock, random: Random): string =>
+  `${prefix}-${clock.now()}-${random.next().toString(36).slice(2, 8)}`;
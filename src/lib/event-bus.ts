@@ -0,0 +1,120 @@
+// Event Bus - Typed agent events. Logs, notifications and persistence subscribe here.
+import type { BreakerLevel, MarketParseError, Settlement, StateSummary, Trade } from '@/types/polymarket';
+import { systemClock, type Clock } from './clock';
+
+// Payload of every event, by type
+export interface AgentEventMap {
+  AgentStarted: { simulation: boolean };
+  AgentStopped: Record<string, never>;
+  ConfigUpdated: Record<string, never>;
+  StateRestored: { positions: number; trades: number; bankroll: number };
+  ScanCompleted: { marketsScanned: number; opportunities: number; durationMs: number };
+  CycleCompleted: { durationMs: number };
+  CycleFailed: { error: string };
+  OpportunityRejected: {
+    marketId: string;
+    marketQuestion: string;
+    outcome: string;
+    strategy: string;
+    reason: string;
+  };
+  PositionSized: {
+    marketId: string;
+    marketQuestion: string;
+    outcome: string;
+    strategy: string;
+    amount: number;     // Dollars; zero when nothing may be bet
+    limitedBy?: string; // The cap or safety limit that bound the size
+  };
+  OrderSubmitted: { trade: Trade; orderId: string };
+  OrderFilled: { trade: Trade; shares: number; price: number }; // Shares newly matched by this fill
+  OrderFinished: { trade: Trade; error?: string };              // FILLED, CANCELLED or FAILED
+  SimulationFallback: { trade: Trade; reason: string };          // A live-mode BUY placed on the paper exchange
+  BasketUnwindFailed: { trade: Trade; leg: number; error: string };
+  ExitTriggered: { marketId: string; marketQuestion: string; outcome: string; reason: string };
+  PositionSettled: { settlement: Settlement; trade: Trade };
+  SettlementUnmatched: { marketId: string; outcome: string }; // Resolved, but the held outcome isn't listed
+  CircuitBreakerChanged: { from: BreakerLevel; to: BreakerLevel; reason: string; resumeAt?: number; summary: StateSummary };
+  DailySummary: { summary: StateSummary };
+  LLMCallFailed: { subjectId?: string; model: string; error: string };
+  ApiError: { operation: string; error: string };
+  MarketsRejected: { operation: string; received: number; rejected: MarketParseError[] }; // Failed schema validation
+  UniverseSynced: { mode: 'full' | 'incremental'; markets: number; changed: number; closed: number };
+  UniverseSyncFailed: { mode: 'full' | 'incremental'; page: number; cachedMarkets: number };
+  MarketStreamChanged: { status: 'connected' | 'disconnected' | 'reconnecting' | 'unavailable'; tokens?: number; retryInMs?: number };
+  StrategyCompleted: { strategyId: string; opportunities: number };
+  StrategyFailed: { strategyId: string; error: string };
+  StorageError: { operation: string; error: string };
+}
+
+export type AgentEventType = keyof AgentEventMap;
+
+export type AgentEvent<T extends AgentEventType = AgentEventType> = {
+  [K in T]: { type: K; at: number } & AgentEventMap[K];
+}[T];
+
+export type AgentEventHandler<T extends AgentEventType = AgentEventType> = (event: AgentEvent<T>) => unknown;
+
+type HandlerSets = { [K in AgentEventType]?: Set<AgentEventHandler<K>> };
+
+export class EventBus {
+  private handlers: HandlerSets = {};
+  private anyHandlers = new Set<AgentEventHandler>();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  // Deliver to every subscriber. A failing subscriber never breaks the emitter.
+  emit<T extends AgentEventType>(type: T, payload: AgentEventMap[T]): AgentEvent<T> {
+    const event = { ...payload, type, at: this.clock.now() } as AgentEvent<T>;
+    const targets: AgentEventHandler<T>[] = [...(this.handlers[type] ?? []), ...this.anyHandlers];
+
+    for (const handler of targets) {
+      try {
+        const result = handler(event);
+        if (result instanceof Promise) {
+          result.catch(error => console.error(`[Events] ${type} subscriber failed:`, error));
+        }
+      } catch (error) {
+        console.error(`[Events] ${type} subscriber failed:`, error);
+      }
+    }
+
+    return event;
+  }
+
+  // Subscribe to one event type; returns the unsubscribe function
+  on<T extends AgentEventType>(type: T, handler: AgentEventHandler<T>): () => void {
+    // The same map seen through T alone, which TS lets us write to
+    const byType: { [K in T]?: Set<AgentEventHandler<K>> } = this.handlers;
+    const handlers = byType[type] ?? new Set<AgentEventHandler<T>>();
+    handlers.add(handler);
+    byType[type] = handlers;
+    return () => {
+      this.handlers[type]?.delete(handler);
+    };
+  }
+
+  onAny(handler: AgentEventHandler): () => void {
+    this.anyHandlers.add(handler);
+    return () => {
+      this.anyHandlers.delete(handler);
+    };
+  }
+}
+
+// Singleton
+let busInstance: EventBus | null = null;
+
+export const initEventBus = (clock?: Clock): EventBus => {
+  busInstance = new EventBus(clock);
+  return busInstance;
+};
+
+export const getEventBus = (): EventBus => {
+  if (!busInstance) busInstance = new EventBus();
+  return busInstance;
+};
+
+// Message text for an event payload; keeps stack traces and objects out of the log
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
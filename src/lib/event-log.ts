@@ -0,0 +1,180 @@
+// Event Log - Sinks for the event bus: in-memory ring buffer (UI), JSON lines (headless), console
+import type { AgentEvent, EventBus } from './event-bus';
+
+// One human-readable line per event
+export function describeEvent(event: AgentEvent): string {
+  const mode = (simulated?: boolean) => (simulated ? 'SIM' : 'LIVE');
+
+  switch (event.type) {
+    case 'AgentStarted':
+      return `[Executor] Agent started in ${event.simulation ? 'SIMULATION' : 'LIVE'} mode`;
+    case 'AgentStopped':
+      return '[Executor] Agent stopped';
+    case 'ConfigUpdated':
+      return '[Executor] Configuration updated';
+    case 'StateRestored':
+      return `[Executor] Restored ${event.positions} positions, ${event.trades} trades, bankroll $${event.bankroll.toFixed(2)}`;
+    case 'ScanCompleted':
+      return `[Executor] Scanned ${event.marketsScanned} markets: ${event.opportunities} opportunities (${event.durationMs}ms)`;
+    case 'CycleCompleted':
+      return `[Executor] Cycle finished in ${event.durationMs}ms`;
+    case 'CycleFailed':
+      return `[Executor] Cycle error: ${event.error}`;
+    case 'OpportunityRejected':
+      return `[Executor] Skipping ${event.outcome} on "${event.marketQuestion.slice(0, 50)}" (${event.strategy}): ${event.reason}`;
+    case 'PositionSized':
+      return `[Risk] ${event.outcome} on "${event.marketQuestion.slice(0, 50)}" (${event.strategy}): $${event.amount.toFixed(2)}${event.limitedBy ? ` - limited by ${event.limitedBy}` : ''}`;
+    case 'OrderSubmitted':
+      return `[${mode(event.trade.isSimulated)}] ${event.trade.side} ${event.trade.outcome} on "${event.trade.marketQuestion.slice(0, 50)}" - order ${event.orderId}`;
+    case 'OrderFilled':
+      return `[${mode(event.trade.isSimulated)}] ${event.trade.side} filled: ${event.shares.toFixed(2)} shares @ ${(event.price * 100).toFixed(1)}%`;
+    case 'OrderFinished':
+      return `[${mode(event.trade.isSimulated)}] ${event.trade.side} ${event.trade.outcome} ${event.trade.status}: ${(event.trade.filledShares ?? 0).toFixed(2)} shares${event.error ? ` - ${event.error}` : ''}`;
+    case 'SimulationFallback':
+      return `[SIM] ${event.trade.side} ${event.trade.outcome} on "${event.trade.marketQuestion.slice(0, 50)}" simulated: ${event.reason}`;
+    case 'BasketUnwindFailed':
+      return `[${mode(event.trade.isSimulated)}] Could not unwind basket leg ${event.leg}: ${event.error}`;
+    case 'ExitTriggered':
+      return `[Exit] ${event.outcome} on "${event.marketQuestion.slice(0, 50)}" - ${event.reason}`;
+    case 'PositionSettled':
+      return `[Resolution] ${event.settlement.outcome} on "${event.settlement.marketQuestion.slice(0, 50)}" settled at ${event.settlement.payoutPerShare} (PnL $${event.settlement.realizedPnl.toFixed(2)})`;
+    case 'SettlementUnmatched':
+      return `[Resolution] Cannot map position "${event.outcome}" to an outcome of ${event.marketId}`;
+    case 'CircuitBreakerChanged':
+      return `[Safety] ${event.from} -> ${event.to}: ${event.reason}${event.resumeAt ? ` (retry at ${new Date(event.resumeAt).toISOString()})` : ''}`;
+    case 'DailySummary':
+      return `[Executor] Daily summary: equity $${event.summary.equity.toFixed(2)}, today ${event.summary.todayPnL >= 0 ? '+' : ''}$${event.summary.todayPnL.toFixed(2)}, ${event.summary.positions} open positions`;
+    case 'LLMCallFailed':
+      return `[LLM] ${event.model} call failed${event.subjectId ? ` for ${event.subjectId}` : ''}: ${event.error}`;
+    case 'ApiError':
+      return `[API Error] ${event.operation}: ${event.error}`;
+    case 'MarketsRejected':
+      return `[API Warning] ${event.operation}: ${event.rejected.length} rejected of ${event.received} received (${event.rejected.slice(0, 3).map(r => r.reason).join('; ')})`;
+    case 'UniverseSynced':
+      return event.mode === 'full'
+        ? `[Universe] Full sync: ${event.markets} markets`
+        : `[Universe] Incremental sync: ${event.changed} markets changed, ${event.closed} closed`;
+    case 'UniverseSyncFailed':
+      return `[Universe] ${event.mode === 'full' ? 'Full' : 'Incremental'} sync failed at page ${event.page}, keeping ${event.cachedMarkets} cached markets`;
+    case 'MarketStreamChanged':
+      return describeStream(event);
+    case 'StrategyCompleted':
+      return `[Strategy] ${event.strategyId}: ${event.opportunities} opportunities`;
+    case 'StrategyFailed':
+      return `[Strategy] ${event.strategyId} failed: ${event.error}`;
+    case 'StorageError':
+      return `[Storage] ${event.operation}: ${event.error}`;
+  }
+}
+
+function describeStream(event: AgentEvent<'MarketStreamChanged'>): string {
+  switch (event.status) {
+    case 'connected':
+      return `[MarketData] Connected, subscribing to ${event.tokens ?? 0} tokens`;
+    case 'disconnected':
+      return '[MarketData] Connection dropped';
+    case 'reconnecting':
+      return `[MarketData] Reconnecting in ${event.retryInMs}ms`;
+    case 'unavailable':
+      return '[MarketData] No WebSocket in this runtime - pass createSocket to stream prices';
+  }
+}
+
+const isFailure = (event: AgentEvent): boolean =>
+  event.type === 'CycleFailed'
+  || event.type === 'LLMCallFailed'
+  || event.type === 'ApiError'
+  || event.type === 'StrategyFailed'
+  || event.type === 'StorageError'
+  || event.type === 'BasketUnwindFailed'
+  || event.type === 'SettlementUnmatched'
+  || (event.type === 'OrderFinished' && event.trade.status === 'FAILED');
+
+// Print every event to the console
+export const attachConsoleLog = (bus: EventBus): (() => void) =>
+  bus.onAny(event => {
+    if (isFailure(event)) {
+      console.error(describeEvent(event));
+    } else {
+      console.log(describeEvent(event));
+    }
+  });
+
+// Keeps the last N events in memory and tells listeners about new ones
+export class RingBufferSink {
+  private buffer: AgentEvent[] = [];
+  private listeners = new Set<(event: AgentEvent) => void>();
+
+  constructor(private capacity = 500) {}
+
+  attach(bus: EventBus): () => void {
+    return bus.onAny(event => this.push(event));
+  }
+
+  push(event: AgentEvent): void {
+    this.buffer.push(event);
+    if (this.buffer.length > this.capacity) {
+      this.buffer.splice(0, this.buffer.length - this.capacity);
+    }
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Oldest first
+  entries(): AgentEvent[] {
+    return [...this.buffer];
+  }
+
+  subscribe(listener: (event: AgentEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.buffer = [];
+  }
+}
+
+// Appends one JSON object per line. Writes are queued so lines never interleave.
+export class JsonLinesSink {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  // Resolved at runtime so browser bundles never pull in node:fs
+  private async fs(): Promise<typeof import('node:fs/promises')> {
+    const moduleName = 'node:fs/promises';
+    return import(/* @vite-ignore */ moduleName);
+  }
+
+  attach(bus: EventBus): () => void {
+    return bus.onAny(event => this.write(event));
+  }
+
+  write(event: AgentEvent): Promise<void> {
+    const line = `${JSON.stringify(event)}\n`;
+    this.queue = this.queue
+      .then(async () => {
+        const fs = await this.fs();
+        await fs.appendFile(this.path, line, 'utf8');
+      })
+      .catch(error => console.error('[Events] Failed to write event log:', error));
+    return this.queue;
+  }
+
+  // Resolves once every queued line is on disk
+  flush(): Promise<void> {
+    return this.queue;
+  }
+}
+
+// Singleton ring buffer for the dashboard
+let eventLogInstance: RingBufferSink | null = null;
+
+export const initEventLog = (capacity?: number): RingBufferSink => {
+  eventLogInstance = new RingBufferSink(capacity);
+  return eventLogInstance;
+};
+
+export const getEventLog = (): RingBufferSink | null => eventLogInstance;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { BettingOpportunity, Market, Position } from '@/types/polymarket';
+import { ExitEngine } from './exit-engine';
+
+const market = (id: string, names: string[]): Market => ({
+  id,
+  question: 'Who wins?',
+  slug: id,
+  endDate: '',
+  liquidity: 1000,
+  volume: 1,
+  outcomes: names.map(name => ({ id: `${id}-${name}`, name, price: 0.3 })),
+  active: true,
+});
+
+const holding = (m: Market, name: string): Position => ({
+  marketId: m.id,
+  marketQuestion: m.question,
+  outcome: name,
+  tokenId: `${m.id}-${name}`,
+  shares: 10,
+  avgPrice: 0.3,
+  currentPrice: 0.3,
+  pnl: 0,
+  pnlPercent: 0,
+});
+
+const favouring = (m: Market, name: string): BettingOpportunity => ({
+  market: m,
+  outcome: m.outcomes.find(o => o.name === name)!,
+  strategy: 'test',
+  recommendedBet: 'YES',
+  confidence: 0.8,
+  winProbability: 0.6,
+  suggestedAmount: 0,
+  expectedValue: 0.2,
+});
+
+describe('ExitEngine edge flip', () => {
+  const engine = new ExitEngine({ exitOnEdgeFlip: true });
+
+  it('exits when the scan favours the other side of a binary market', () => {
+    const binary = market('b', ['Yes', 'No']);
+    const signals = engine.evaluate([holding(binary, 'Yes')], [favouring(binary, 'No')], 0);
+    expect(signals.map(s => s.rule)).toEqual(['exitOnEdgeFlip']);
+  });
+
+  it('holds when the scan likes another outcome of a multi-outcome market', () => {
+    const race = market('r', ['Alice', 'Bob', 'Carol']);
+    expect(engine.evaluate([holding(race, 'Alice')], [favouring(race, 'Bob')], 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+// Exit Engine - Decides when an open position should be sold
+import type { BettingOpportunity, ExitRules, ExitSignal, Position } from '@/types/polymarket';
+import { systemClock, type Clock } from './clock';
+import { complementOutcome } from './outcomes';
+
+export class ExitEngine {
+  private defaults: ExitRules;
+
+  constructor(defaults: ExitRules = DEFAULT_EXIT_RULES, private clock: Clock = systemClock) {
+    this.defaults = defaults;
+  }
+
+  // Global defaults overridden by the position's own rules
+  rulesFor(position: Position): ExitRules {
+    return { ...this.defaults, ...position.exitRules };
+  }
+
+  // Check every open position against its rules. `opportunities` is the latest scan.
+  evaluate(positions: Position[], opportunities: BettingOpportunity[] = [], now = this.clock.now()): ExitSignal[] {
+    const signals: ExitSignal[] = [];
+
+    for (const position of positions) {
+      if (position.awaitingResolution || position.exitPending || position.shares <= 0) continue;
+
+      const signal = this.check(position, this.rulesFor(position), opportunities, now);
+      if (signal) signals.push(signal);
+    }
+
+    return signals;
+  }
+
+  updateDefaults(rules: ExitRules): void {
+    this.defaults = { ...this.defaults, ...rules };
+  }
+
+  getDefaults(): ExitRules {
+    return { ...this.defaults };
+  }
+
+  // First rule that fires wins
+  private check(
+    position: Position,
+    rules: ExitRules,
+    opportunities: BettingOpportunity[],
+    now: number
+  ): ExitSignal | null {
+    if (rules.disabled) return null;
+
+    const fire = (rule: keyof ExitRules, reason: string): ExitSignal => ({ position, rule, reason });
+
+    if (rules.stopLossPercent !== undefined && position.pnlPercent <= -rules.stopLossPercent) {
+      return fire('stopLossPercent', `Stop-loss: ${position.pnlPercent.toFixed(1)}% <= -${rules.stopLossPercent}%`);
+    }
+
+    if (rules.takeProfitPercent !== undefined && position.pnlPercent >= rules.takeProfitPercent) {
+      return fire('takeProfitPercent', `Take-profit: +${position.pnlPercent.toFixed(1)}% >= ${rules.takeProfitPercent}%`);
+    }
+
+    if (rules.trailingStopPercent !== undefined && position.peakPrice && position.peakPrice > position.avgPrice) {
+      const drawdown = (1 - position.currentPrice / position.peakPrice) * 100;
+      if (drawdown >= rules.trailingStopPercent) {
+        return fire('trailingStopPercent', `Trailing stop: ${drawdown.toFixed(1)}% off the ${(position.peakPrice * 100).toFixed(1)}c peak`);
+      }
+    }
+
+    if (rules.exitHoursBeforeEnd !== undefined && position.endDate) {
+      const end = Date.parse(position.endDate);
+      const hoursLeft = (end - now) / (60 * 60 * 1000);
+      if (Number.isFinite(end) && hoursLeft <= rules.exitHoursBeforeEnd) {
+        return fire('exitHoursBeforeEnd', `Time exit: ${Math.max(0, hoursLeft).toFixed(1)}h before end date`);
+      }
+    }
+
+    if (rules.exitOnEdgeFlip) {
+      // The latest scan wants the other side of what we hold. In a market with more
+      // than two outcomes, liking another outcome says nothing against ours.
+      const flipped = opportunities.find(o => {
+        if (o.legs || o.market.id !== position.marketId) return false;
+        const held = o.market.outcomes.find(outcome => outcome.id === position.tokenId);
+        return !!held && complementOutcome(o.market, held)?.id === o.outcome.id;
+      });
+      if (flipped) {
+        return fire('exitOnEdgeFlip', `Edge flipped: ${flipped.strategy} now favours ${flipped.outcome.name}`);
+      }
+    }
+
+    return null;
+  }
+}
+
+export const DEFAULT_EXIT_RULES: ExitRules = {
+  stopLossPercent: 40,    // Cut a position that lost 40% of its cost
+  takeProfitPercent: 80,  // Bank an 80% gain instead of waiting for resolution
+  exitOnEdgeFlip: true,
+};
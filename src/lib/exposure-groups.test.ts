@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { Market, Position, SafetyLimits } from '@/types/polymarket';
+import { exposureGroupsFor, tightestGroup } from './exposure-groups';
+import { DEFAULT_SAFETY_LIMITS } from './risk-manager';
+
+const market = (id: string, extra: Partial<Market> = {}): Market => ({
+  id,
+  question: `Will ${id} win the election?`,
+  slug: id,
+  endDate: '',
+  liquidity: 10_000,
+  volume: 1,
+  outcomes: [],
+  active: true,
+  ...extra,
+});
+
+const position = (marketId: string, cost: number, extra: Partial<Position> = {}): Position => ({
+  marketId,
+  marketQuestion: `Will ${marketId} win the election?`,
+  outcome: 'Yes',
+  shares: cost / 0.5,
+  avgPrice: 0.5,
+  currentPrice: 0.5,
+  pnl: 0,
+  pnlPercent: 0,
+  ...extra,
+});
+
+const limits: SafetyLimits = {
+  ...DEFAULT_SAFETY_LIMITS,
+  maxCategoryExposure: 100,
+  maxEventExposure: 50,
+  exposureTags: [{ name: 'elections', maxExposure: 30, keywords: ['ELECTION'] }],
+};
+
+describe('exposure groups', () => {
+  it('puts a market in its category, event and matching tags', () => {
+    const groups = exposureGroupsFor(market('m1', { category: 'Politics', eventId: 'e1', eventTitle: 'Race' }), [], limits);
+    expect(groups.map(g => g.key)).toEqual(['category:Politics', 'event:e1', 'tag:elections']);
+    expect(groups.map(g => g.label)).toContain('event "Race"');
+  });
+
+  it('sums held cost per group', () => {
+    const positions = [
+      position('a', 20, { category: 'Politics', eventId: 'e1' }),
+      position('b', 15, { category: 'Politics', eventId: 'e2' }),
+      position('c', 40, { category: 'Sports' }),
+    ];
+    const groups = exposureGroupsFor(market('m1', { category: 'Politics', eventId: 'e1' }), positions, { ...limits, exposureTags: [] });
+
+    expect(groups.find(g => g.key === 'category:Politics')).toMatchObject({ exposure: 35, remaining: 65 });
+    expect(groups.find(g => g.key === 'event:e1')).toMatchObject({ exposure: 20, remaining: 30 });
+  });
+
+  it('picks the group with the least room', () => {
+    const positions = [position('a', 25, { category: 'Politics', eventId: 'e1' })];
+    expect(tightestGroup(market('m1', { category: 'Politics', eventId: 'e1' }), positions, limits)?.key).toBe('tag:elections');
+  });
+
+  it('picks the tightest group across every leg of a basket', () => {
+    const positions = [position('a', 45, { category: 'Sports', eventId: 'e2', marketQuestion: 'Who wins the cup?' })];
+    const legs = [
+      market('m1', { category: 'Politics', question: 'Rain tomorrow?' }),
+      market('m2', { category: 'Sports', eventId: 'e2', question: 'Cup winner?' }),
+    ];
+    expect(tightestGroup(legs, positions, limits)).toMatchObject({ key: 'event:e2', remaining: 5 });
+  });
+
+  it('has no groups without caps', () => {
+    const uncapped = { ...DEFAULT_SAFETY_LIMITS, maxCategoryExposure: undefined, maxEventExposure: undefined };
+    expect(tightestGroup(market('m1', { category: 'Politics', eventId: 'e1' }), [], uncapped)).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+// Exposure Groups - Caps on correlated markets: one category, one parent event, or a user tag
+import type { ExposureGroupUsage, ExposureTag, Market, Position, SafetyLimits } from '@/types/polymarket';
+
+// What a market or an open position is grouped by
+interface GroupMember {
+  marketId: string;
+  question: string;
+  category?: string;
+  eventId?: string;
+  eventTitle?: string;
+}
+
+type ExposureGroup = Pick<ExposureGroupUsage, 'key' | 'label' | 'cap'>;
+
+const fromMarket = (market: Market): GroupMember => ({
+  marketId: market.id,
+  question: market.question,
+  category: market.category,
+  eventId: market.eventId,
+  eventTitle: market.eventTitle,
+});
+
+const fromPosition = (position: Position): GroupMember => ({
+  marketId: position.marketId,
+  question: position.marketQuestion,
+  category: position.category,
+  eventId: position.eventId,
+});
+
+const costBasis = (positions: Position[]): number =>
+  positions.reduce((sum, p) => sum + p.shares * p.avgPrice, 0);
+
+function matchesTag(member: GroupMember, tag: ExposureTag): boolean {
+  const lower = (values?: string[]) => (values ?? []).map(v => v.toLowerCase());
+  const question = member.question.toLowerCase();
+
+  return (tag.marketIds ?? []).includes(member.marketId)
+    || (!!member.eventId && (tag.eventIds ?? []).includes(member.eventId))
+    || (!!member.category && lower(tag.categories).includes(member.category.toLowerCase()))
+    || lower(tag.keywords).some(keyword => keyword && question.includes(keyword));
+}
+
+// Every capped group the member belongs to
+function groupsOf(member: GroupMember, limits: SafetyLimits): ExposureGroup[] {
+  const groups: ExposureGroup[] = [];
+
+  if (limits.maxCategoryExposure !== undefined && member.category) {
+    groups.push({ key: `category:${member.category}`, label: `category "${member.category}"`, cap: limits.maxCategoryExposure });
+  }
+  if (limits.maxEventExposure !== undefined && member.eventId) {
+    groups.push({ key: `event:${member.eventId}`, label: `event "${member.eventTitle ?? member.eventId}"`, cap: limits.maxEventExposure });
+  }
+  for (const tag of limits.exposureTags ?? []) {
+    if (matchesTag(member, tag)) {
+      groups.push({ key: `tag:${tag.name}`, label: `tag "${tag.name}"`, cap: tag.maxExposure });
+    }
+  }
+
+  return groups;
+}
+
+const usage = (group: ExposureGroup, positions: Position[], limits: SafetyLimits): ExposureGroupUsage => {
+  const members = positions.filter(p => groupsOf(fromPosition(p), limits).some(g => g.key === group.key));
+  const exposure = costBasis(members);
+  return { ...group, exposure, remaining: group.cap - exposure };
+};
+
+// The groups a market would add to, with what they already hold
+export const exposureGroupsFor = (market: Market, positions: Position[], limits: SafetyLimits): ExposureGroupUsage[] =>
+  groupsOf(fromMarket(market), limits).map(group => usage(group, positions, limits));
+
+// The group with the least room left across the markets (a basket passes every leg's), if any
+export function tightestGroup(markets: Market | Market[], positions: Position[], limits: SafetyLimits): ExposureGroupUsage | undefined {
+  return [markets].flat()
+    .flatMap(market => exposureGroupsFor(market, positions, limits))
+    .reduce<ExposureGroupUsage | undefined>((tightest, g) => (!tightest || g.remaining < tightest.remaining ? g : tightest), undefined);
+}
+
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseGammaEvent, parseGammaMarket } from './gamma-schemas';
+
+const rawMarket = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  question: `Will candidate ${id} win?`,
+  outcomes: '["Yes", "No"]',
+  outcomePrices: '["0.30", "0.70"]',
+  clobTokenIds: `["${id}-yes", "${id}-no"]`,
+  ...extra,
+});
+
+describe('parseGammaMarket', () => {
+  it('reads JSON-string outcome arrays', () => {
+    const result = parseGammaMarket(rawMarket('m1'), 0);
+    expect('market' in result && result.market.outcomes).toEqual([
+      { id: 'm1-yes', name: 'Yes', price: 0.3 },
+      { id: 'm1-no', name: 'No', price: 0.7 },
+    ]);
+  });
+
+  it('rejects mismatched outcome arrays instead of patching them', () => {
+    const result = parseGammaMarket(rawMarket('m1', { outcomePrices: '["0.3"]' }), 4);
+    expect('error' in result && result.error).toMatchObject({ index: 4, id: 'm1', reason: 'Invalid outcome arrays' });
+  });
+});
+
+describe('parseGammaEvent', () => {
+  it('counts every open child market, including ones that fail to parse', () => {
+    const result = parseGammaEvent({
+      id: 'e1',
+      title: 'Who wins?',
+      negRisk: true,
+      markets: [
+        rawMarket('a'),
+        rawMarket('b', { clobTokenIds: 'not json' }),
+        rawMarket('c', { closed: true }),
+      ],
+    }, 0);
+
+    if (!('event' in result)) throw new Error('event failed to parse');
+    expect(result.event.marketCount).toBe(2);
+    expect(result.event.markets.map(m => m.id)).toEqual(['a', 'c']);
+    expect(result.event.markets[0]).toMatchObject({ eventId: 'e1', negRisk: true, eventMarketCount: 2 });
+    expect(result.rejected).toHaveLength(1);
+  });
+});
@@ -0,0 +1,237 @@
+// Gamma Schemas - zod validation for raw Gamma market payloads
+import { z } from 'zod';
+import type { MarketEvent, Market, Outcome, MarketParseError } from '@/types/polymarket';
+
+// Gamma mixes numbers and numeric strings for the same field
+const numeric = z
+  .union([z.number(), z.string().trim().min(1)])
+  .transform(v => (typeof v === 'number' ? v : Number(v)))
+  .pipe(z.number().finite());
+
+const price = numeric.pipe(z.number().min(0).max(1));
+
+// Fields like `outcomes` arrive either as arrays or as JSON-encoded strings
+const jsonArray = <T extends z.ZodTypeAny>(item: T) =>
+  z.union([
+    z.array(item),
+    z.string().transform((raw, ctx) => {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid JSON array string' });
+        return z.NEVER;
+      }
+    }).pipe(z.array(item)),
+  ]);
+
+const idString = z.union([z.string().trim().min(1), z.number()]).transform(String);
+
+// Token entry in the `tokens` format
+export const GammaTokenSchema = z.object({
+  token_id: idString,
+  outcome: z.string().trim().min(1),
+  price,
+  winner: z.boolean().optional(),
+});
+
+// Raw market as served by /markets. Outcome fields are checked separately below.
+export const GammaMarketSchema = z.object({
+  id: idString,
+  question: z.string().trim().min(1).optional(),
+  title: z.string().trim().min(1).optional(),
+  slug: z.string().optional().nullable(),
+  endDate: z.string().optional().nullable(),
+  updatedAt: z.string().optional().nullable(),
+  liquidity: numeric.optional().nullable(),
+  volume: numeric.optional().nullable(),
+  active: z.boolean().optional().nullable(),
+  closed: z.boolean().optional().nullable(),
+  category: z.string().optional().nullable(),
+  image: z.string().optional().nullable(),
+  tokens: z.array(z.unknown()).optional().nullable(),
+  outcomes: z.unknown().optional(),
+  outcomePrices: z.unknown().optional(),
+  clobTokenIds: z.unknown().optional(),
+  negRisk: z.boolean().optional().nullable(),
+  groupItemTitle: z.string().optional().nullable(),
+  events: z.array(z.object({
+    id: idString,
+    title: z.string().optional().nullable(),
+  }).passthrough()).optional().nullable(),
+}).refine(m => !!(m.question || m.title), { message: 'Market has neither question nor title' });
+
+// `outcomes` / `outcomePrices` / `clobTokenIds` triple
+export const GammaOutcomeArraysSchema = z.object({
+  outcomes: jsonArray(z.string().trim().min(1)),
+  outcomePrices: jsonArray(price),
+  clobTokenIds: jsonArray(idString),
+}).refine(
+  o => o.outcomes.length === o.outcomePrices.length && o.outcomes.length === o.clobTokenIds.length,
+  { message: 'outcomes, outcomePrices and clobTokenIds differ in length' }
+);
+
+export type GammaMarket = z.infer<typeof GammaMarketSchema>;
+export type GammaToken = z.infer<typeof GammaTokenSchema>;
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// Parse one raw market. Either a Market or a structured error, never placeholder data.
+export function parseGammaMarket(
+  raw: unknown,
+  index: number
+): { market: Market } | { error: MarketParseError } {
+  const id = typeof (raw as any)?.id === 'string' || typeof (raw as any)?.id === 'number'
+    ? String((raw as any).id)
+    : undefined;
+  const fail = (reason: string, issues?: string[]) => ({
+    error: { index, id, question: (raw as any)?.question, reason, issues },
+  });
+
+  const base = GammaMarketSchema.safeParse(raw);
+  if (!base.success) {
+    return fail('Invalid market payload', formatIssues(base.error));
+  }
+  const item = base.data;
+
+  let outcomes: Outcome[];
+  if (item.tokens && item.tokens.length > 0) {
+    const tokens = z.array(GammaTokenSchema).safeParse(item.tokens);
+    if (!tokens.success) {
+      return fail('Invalid tokens', formatIssues(tokens.error));
+    }
+    outcomes = tokens.data.map(t => ({ id: t.token_id, name: t.outcome, price: t.price }));
+  } else if (item.outcomePrices !== undefined || item.clobTokenIds !== undefined) {
+    const arrays = GammaOutcomeArraysSchema.safeParse({
+      outcomes: item.outcomes,
+      outcomePrices: item.outcomePrices,
+      clobTokenIds: item.clobTokenIds,
+    });
+    if (!arrays.success) {
+      return fail('Invalid outcome arrays', formatIssues(arrays.error));
+    }
+    const { outcomes: names, outcomePrices, clobTokenIds } = arrays.data;
+    outcomes = names.map((name, idx) => ({ id: clobTokenIds[idx], name, price: outcomePrices[idx] }));
+  } else {
+    return fail('Market has no tokens or outcome arrays');
+  }
+
+  if (outcomes.length < 2) {
+    return fail(`Expected at least 2 outcomes, got ${outcomes.length}`);
+  }
+
+  // Resolved markets report a winner flag, or settle prices at exactly 1 and 0
+  let winningOutcomeId: string | undefined;
+  if (item.closed === true) {
+    const tokens = item.tokens ? z.array(GammaTokenSchema).safeParse(item.tokens) : null;
+    const flagged = tokens?.success ? tokens.data.find(t => t.winner === true) : undefined;
+    if (flagged) {
+      winningOutcomeId = flagged.token_id;
+    } else {
+      const winners = outcomes.filter(o => o.price === 1);
+      const losers = outcomes.filter(o => o.price === 0);
+      if (winners.length === 1 && losers.length === outcomes.length - 1) {
+        winningOutcomeId = winners[0].id;
+      }
+    }
+  }
+
+  return {
+    market: {
+      id: item.id,
+      question: (item.question || item.title)!,
+      slug: item.slug || '',
+      endDate: item.endDate || '',
+      updatedAt: item.updatedAt || undefined,
+      liquidity: item.liquidity ?? 0,
+      volume: item.volume ?? 0,
+      outcomes,
+      active: item.active !== false,
+      closed: item.closed === true,
+      category: item.category || 'General',
+      image: item.image || '',
+      eventId: item.events?.[0]?.id,
+      eventTitle: item.events?.[0]?.title || undefined,
+      groupItemTitle: item.groupItemTitle || undefined,
+      negRisk: item.negRisk === true,
+      winningOutcomeId,
+    },
+  };
+}
+
+// Raw event as served by /events, with its child markets inlined
+export const GammaEventSchema = z.object({
+  id: idString,
+  title: z.string().trim().min(1),
+  slug: z.string().optional().nullable(),
+  endDate: z.string().optional().nullable(),
+  category: z.string().optional().nullable(),
+  negRisk: z.boolean().optional().nullable(),
+  liquidity: numeric.optional().nullable(),
+  volume: numeric.optional().nullable(),
+  active: z.boolean().optional().nullable(),
+  closed: z.boolean().optional().nullable(),
+  markets: z.array(z.unknown()).optional().nullable(),
+});
+
+export type GammaEvent = z.infer<typeof GammaEventSchema>;
+
+// Parse one raw event. Child markets that fail validation are reported, not patched.
+export function parseGammaEvent(
+  raw: unknown,
+  index: number
+): { event: MarketEvent; rejected: MarketParseError[] } | { error: MarketParseError } {
+  const base = GammaEventSchema.safeParse(raw);
+  if (!base.success) {
+    return {
+      error: {
+        index,
+        id: (raw as any)?.id !== undefined ? String((raw as any).id) : undefined,
+        question: (raw as any)?.title,
+        reason: 'Invalid event payload',
+        issues: formatIssues(base.error),
+      },
+    };
+  }
+  const item = base.data;
+  const negRisk = item.negRisk === true;
+
+  // Counted from the raw payload so children that fail validation still count
+  const openCount = (item.markets || []).filter((raw: any) => raw?.closed !== true && raw?.active !== false).length;
+
+  const markets: Market[] = [];
+  const rejected: MarketParseError[] = [];
+  (item.markets || []).forEach((rawMarket, marketIndex) => {
+    const result = parseGammaMarket(rawMarket, marketIndex);
+    if ('market' in result) {
+      markets.push({
+        ...result.market,
+        eventId: item.id,
+        eventTitle: item.title,
+        negRisk: result.market.negRisk || negRisk,
+        eventMarketCount: openCount,
+        category: result.market.category !== 'General' ? result.market.category : item.category || 'General',
+      });
+    } else {
+      rejected.push({ ...result.error, reason: `Event ${item.id}: ${result.error.reason}` });
+    }
+  });
+
+  return {
+    event: {
+      id: item.id,
+      title: item.title,
+      slug: item.slug || '',
+      endDate: item.endDate || '',
+      category: item.category || 'General',
+      negRisk,
+      liquidity: item.liquidity ?? markets.reduce((sum, m) => sum + m.liquidity, 0),
+      volume: item.volume ?? markets.reduce((sum, m) => sum + m.volume, 0),
+      active: item.active !== false,
+      closed: item.closed === true,
+      marketCount: openCount,
+      markets,
+    },
+    rejected,
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentState, Position } from '@/types/polymarket';
+import { openingLedger, postToLedger, rollLedgerDay, summarizeLedger, tradingDay } from './ledger';
+
+const emptyState = (bankroll: number, at = 0): AgentState => ({
+  isRunning: false,
+  bankroll,
+  todayPnL: 0,
+  totalPnL: 0,
+  realizedPnL: 0,
+  ledger: openingLedger(bankroll, at),
+  positions: [],
+  trades: [],
+  opportunities: [],
+  safetyTriggered: false,
+});
+
+const position = (shares: number, avgPrice: number, currentPrice: number): Position => ({
+  marketId: 'm1',
+  marketQuestion: 'Q?',
+  outcome: 'Yes',
+  shares,
+  avgPrice,
+  currentPrice,
+  pnl: shares * (currentPrice - avgPrice),
+  pnlPercent: 0,
+});
+
+describe('tradingDay', () => {
+  it('reads the calendar day in the time zone', () => {
+    const at = Date.UTC(2026, 0, 2, 3); // 03:00 UTC = 22:00 the day before in New York
+    expect(tradingDay(at)).toBe('2026-01-02');
+    expect(tradingDay(at, 'America/New_York')).toBe('2026-01-01');
+  });
+
+  it('falls back to UTC for unknown zones', () => {
+    expect(tradingDay(Date.UTC(2026, 0, 2, 3), 'Not/AZone')).toBe('2026-01-02');
+  });
+});
+
+describe('ledger', () => {
+  it('moves bankroll and realized PnL only through entries', () => {
+    const state = emptyState(1000);
+    postToLedger(state, { at: 1, type: 'FILL', cash: -40, realizedPnl: 0 });
+    postToLedger(state, { at: 2, type: 'FILL', cash: 55, realizedPnl: 15 });
+    postToLedger(state, { at: 3, type: 'FEE', cash: -1, realizedPnl: -1 });
+
+    expect(state.bankroll).toBe(1014);
+    expect(state.realizedPnL).toBe(14);
+    expect(state.ledger?.map(e => e.id)).toEqual(['L1', 'L2', 'L3', 'L4']);
+
+    const summary = summarizeLedger(state);
+    expect(summary.cash).toBe(1014);
+    expect(summary.fees).toBe(1);
+  });
+
+  it('starts a new day at midnight in the time zone and counts from that equity', () => {
+    const state = emptyState(1000);
+    const evening = Date.UTC(2026, 0, 2, 3); // Still Jan 1 in New York
+
+    expect(rollLedgerDay(state, evening, 'America/New_York')).toBe(true);
+    expect(rollLedgerDay(state, evening + 60_000, 'America/New_York')).toBe(false);
+
+    postToLedger(state, { at: evening + 1, type: 'FILL', cash: -50, realizedPnl: 0 });
+    state.positions = [position(100, 0.5, 0.3)];
+    expect(summarizeLedger(state).todayPnL).toBeCloseTo(-20);
+
+    const nextMorning = Date.UTC(2026, 0, 2, 6); // 01:00 Jan 2 in New York
+    expect(rollLedgerDay(state, nextMorning, 'America/New_York')).toBe(true);
+    expect(state.ledgerDay?.day).toBe('2026-01-02');
+    expect(summarizeLedger(state).todayPnL).toBeCloseTo(0);
+    expect(summarizeLedger(state).totalPnL).toBeCloseTo(-20);
+  });
+
+  it('leaves deposits and withdrawals out of today\'s PnL', () => {
+    const state = emptyState(1000);
+    rollLedgerDay(state, 0);
+    postToLedger(state, { at: 1, type: 'DEPOSIT', cash: 500, realizedPnl: 0 });
+    postToLedger(state, { at: 2, type: 'WITHDRAWAL', cash: -200, realizedPnl: 0 });
+
+    expect(state.bankroll).toBe(1300);
+    expect(summarizeLedger(state).todayPnL).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+// Ledger - Every cash movement the agent makes, and the PnL figures derived from it
+//
+// Fills, fees, settlements and deposits are appended to state.ledger. Bankroll and
+// realized PnL move only through postToLedger, so they always equal the ledger sums.
+// Day-bounded PnL compares equity with a snapshot taken when the trading day began
+// in the configured time zone.
+import type { AgentState, LedgerEntry, StateSummary } from '@/types/polymarket';
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export interface LedgerSummary {
+  cash: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+  todayPnL: number;          // Equity change since the day began, deposits excluded
+  todayRealizedPnL: number;
+  fees: number;
+  day?: string;
+}
+
+const dayFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Calendar day of `at` in a time zone, as YYYY-MM-DD. Unknown zones fall back to UTC.
+export function tradingDay(at: number, timeZone: string = DEFAULT_TIME_ZONE): string {
+  let format = dayFormats.get(timeZone);
+  if (!format) {
+    try {
+      // en-CA formats dates as YYYY-MM-DD
+      format = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    } catch {
+      console.warn(`[Ledger] Unknown time zone "${timeZone}" - using ${DEFAULT_TIME_ZONE}`);
+      return tradingDay(at, DEFAULT_TIME_ZONE);
+    }
+    dayFormats.set(timeZone, format);
+  }
+  return format.format(new Date(at));
+}
+
+// Cash plus open positions at their current marks
+export const calculateEquity = (state: AgentState): number =>
+  state.bankroll + state.positions.reduce((sum, p) => sum + p.shares * p.currentPrice, 0);
+
+export const summarizeState = (state: AgentState): StateSummary => ({
+  equity: calculateEquity(state),
+  bankroll: state.bankroll,
+  todayPnL: state.todayPnL,
+  totalPnL: state.totalPnL,
+  breaker: state.breaker?.level ?? 'NORMAL',
+  positions: state.positions.length,
+  trades: state.trades.length,
+  filledTrades: state.trades.filter(t => t.status === 'FILLED').length,
+});
+
+// A fresh ledger holding the starting bankroll
+export const openingLedger = (bankroll: number, at: number): LedgerEntry[] => [
+  { id: 'L1', at, type: 'DEPOSIT', cash: bankroll, realizedPnl: 0, note: 'Starting bankroll' },
+];
+
+// Append an entry and apply it to bankroll and realized PnL
+export function postToLedger(state: AgentState, entry: Omit<LedgerEntry, 'id'>): LedgerEntry {
+  const ledger = state.ledger ?? (state.ledger = []);
+  const posted: LedgerEntry = { id: `L${ledger.length + 1}`, ...entry };
+  ledger.push(posted);
+
+  state.bankroll += posted.cash;
+  state.realizedPnL = (state.realizedPnL ?? 0) + posted.realizedPnl;
+  if (state.ledgerDay && (posted.type === 'DEPOSIT' || posted.type === 'WITHDRAWAL')) {
+    state.ledgerDay.netDeposits += posted.cash;
+  }
+  return posted;
+}
+
+// Start a new trading day once the date changes in the time zone. True if one started.
+export function rollLedgerDay(state: AgentState, now: number, timeZone?: string): boolean {
+  const day = tradingDay(now, timeZone);
+  if (state.ledgerDay?.day === day) return false;
+
+  state.ledgerDay = { day, openedAt: now, openingEquity: calculateEquity(state), netDeposits: 0 };
+  return true;
+}
+
+export function summarizeLedger(state: AgentState): LedgerSummary {
+  const entries = state.ledger ?? [];
+  const day = state.ledgerDay;
+
+  let cash = 0;
+  let realizedPnL = 0;
+  let todayRealizedPnL = 0;
+  let fees = 0;
+  for (const entry of entries) {
+    cash += entry.cash;
+    realizedPnL += entry.realizedPnl;
+    if (!day || entry.at >= day.openedAt) todayRealizedPnL += entry.realizedPnl;
+    if (entry.type === 'FEE') fees -= entry.cash;
+  }
+  if (entries.length === 0) {
+    cash = state.bankroll;
+    realizedPnL = state.realizedPnL ?? 0;
+  }
+
+  const unrealizedPnL = state.positions.reduce((sum, p) => sum + p.pnl, 0);
+  const equity = cash + state.positions.reduce((sum, p) => sum + p.shares * p.currentPrice, 0);
+
+  return {
+    cash,
+    realizedPnL,
+    unrealizedPnL,
+    totalPnL: realizedPnL + unrealizedPnL,
+    // No day opened yet (e.g. a backtest without a time zone): everything counts as today
+    todayPnL: day ? equity - day.openingEquity - day.netDeposits : realizedPnL + unrealizedPnL,
+    todayRealizedPnL,
+    fees,
+    day: day?.day,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { BettingOpportunity, Market } from '@/types/polymarket';
+import { repriceOpportunity } from './llm-analyzer';
+
+const market = (yes: number, open = true): Market => ({
+  id: 'm1',
+  question: 'Will it rain?',
+  slug: 'rain',
+  endDate: '',
+  liquidity: 5000,
+  volume: 100,
+  outcomes: [{ id: 'yes', name: 'Yes', price: yes }, { id: 'no', name: 'No', price: 1 - yes }],
+  active: open,
+  closed: !open,
+});
+
+// Model says 60% YES when YES traded at 0.40
+const finding: BettingOpportunity = {
+  market: market(0.4),
+  outcome: market(0.4).outcomes[0],
+  strategy: 'llm',
+  recommendedBet: 'YES',
+  confidence: 0.8,
+  winProbability: 0.6,
+  suggestedAmount: 0,
+  expectedValue: 0.5,
+};
+
+describe('repriceOpportunity', () => {
+  it('recomputes expected value at the current price', () => {
+    const repriced = repriceOpportunity(finding, market(0.5));
+    expect(repriced?.outcome.price).toBe(0.5);
+    expect(repriced?.expectedValue).toBeCloseTo(0.2);
+  });
+
+  it('drops findings whose edge is gone or whose market closed', () => {
+    expect(repriceOpportunity(finding, market(0.6))).toBeNull();
+    expect(repriceOpportunity(finding, market(0.45, false))).toBeNull();
+  });
+});
@@ -1,5 +1,9 @@
 // LLM Market Analyzer - OpenRouter + OpenAI Support
-import type { Market, BettingOpportunity } from '@/types/polymarket';
+import type { MarketEvent, Market, BettingOpportunity } from '@/types/polymarket';
+import { primaryOutcome, resolveBetOutcome } from './outcomes';
+import type { LLMResponseLog } from './llm-recordings';
+import { systemClock, type Clock } from './clock';
+import { errorMessage, getEventBus } from './event-bus';
 
 interface LLMAnalysis {
   market: Market;
@@ -8,9 +12,13 @@ interface LLMAnalysis {
   confidence: number;
   recommendation: 'YES' | 'NO' | 'SKIP';
   keyFactors: string[];
+  event?: MarketEvent; // Set when the market was judged against its siblings
 }
 
-type LLMProvider = 'openrouter' | 'openai';
+export type LLMProvider = 'openrouter' | 'openai';
+
+// Sent to OpenRouter to identify the app; the dashboard passes its own origin
+const DEFAULT_APP_URL = 'https://github.com/decimasudo/clawdpm';
 
 // [PENTING] Ini adalah export yang hilang dan menyebabkan error
 export const OPENROUTER_MODELS = [
@@ -24,19 +32,45 @@ export const OPENROUTER_MODELS = [
   { id: 'openai/gpt-4o', name: 'GPT-4o', free: false },
 ];
 
+// Findings with less expected value per $1 than this are dropped
+const MIN_EXPECTED_VALUE = 0.02;
+
+// Expected value per $1 of buying a token at `price` that pays out with `winProbability`
+function expectedValueAt(winProbability: number, price: number): number {
+  const potentialReturn = (1 / price) - 1;
+  return (winProbability * potentialReturn) - ((1 - winProbability) * 1);
+}
+
+// A finding repriced at the market's current quote; null once the market closed or the edge is gone
+export function repriceOpportunity(opportunity: BettingOpportunity, market: Market): BettingOpportunity | null {
+  const outcome = market.outcomes.find(o => o.id === opportunity.outcome.id);
+  if (!outcome || market.closed || !market.active || outcome.price <= 0 || outcome.price >= 1) return null;
+
+  const expectedValue = expectedValueAt(opportunity.winProbability, outcome.price);
+  if (expectedValue <= MIN_EXPECTED_VALUE) return null;
+
+  return { ...opportunity, market, outcome, expectedValue };
+}
+
 export class LLMAnalyzer {
   private apiKey: string;
   private provider: LLMProvider;
   private model: string;
+  private appUrl: string;
+  private recorder: LLMResponseLog | null = null;
+  private replay: { log: LLMResponseLog; now: () => number } | null = null;
+  private clock: Clock = systemClock;
 
   constructor(
     apiKey: string = '',
     provider: LLMProvider = 'openrouter',
-    model: string = 'google/gemini-2.0-flash-exp:free'
+    model: string = 'google/gemini-2.0-flash-exp:free',
+    appUrl: string = DEFAULT_APP_URL
   ) {
     this.apiKey = apiKey;
     this.provider = provider;
     this.model = model;
+    this.appUrl = appUrl;
   }
 
   // Get API endpoint based on provider
@@ -46,22 +80,188 @@ export class LLMAnalyzer {
       : 'https://api.openai.com/v1/chat/completions';
   }
 
+  // Time source for recordings and rate-limit pauses
+  useClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  // Keep every raw response so backtests can replay it
+  recordTo(log: LLMResponseLog | null): void {
+    this.recorder = log;
+  }
+
+  // Answer only from recorded responses (as of now()); never calls the network
+  replayFrom(log: LLMResponseLog | null, now: () => number = () => this.clock.now()): void {
+    this.replay = log ? { log, now } : null;
+  }
+
+  // Model answer for a market or event: recorded when replaying, else a live call
+  private async complete(subjectId: string, prompt: string): Promise<string | null> {
+    if (this.replay) {
+      return this.replay.log.lookup(subjectId, this.replay.now())?.response ?? null;
+    }
+
+    const response = await this.callLLM(prompt);
+    this.recorder?.add({ subjectId, at: this.clock.now(), model: this.model, response });
+    return response;
+  }
+
   // Analyze a market using LLM
   async analyzeMarket(market: Market): Promise<LLMAnalysis | null> {
-    if (!this.apiKey) {
+    if (!this.apiKey && !this.replay) {
       return this.fallbackAnalysis(market);
     }
 
     try {
       const prompt = this.buildPrompt(market);
-      const response = await this.callLLM(prompt);
+      const response = await this.complete(market.id, prompt);
+      if (response === null) return null; // Nothing recorded for this market
       return this.parseResponse(market, response);
     } catch (error) {
-      console.error('LLM analysis failed:', error);
+      getEventBus().emit('LLMCallFailed', { subjectId: market.id, model: this.model, error: errorMessage(error) });
       return this.fallbackAnalysis(market);
     }
   }
 
+  // Analyze a whole event. Mutually exclusive (negRisk) candidates are compared in one
+  // prompt; independent markets are analyzed one by one.
+  async analyzeEvent(event: MarketEvent): Promise<LLMAnalysis[]> {
+    const candidates = event.markets.filter(m => m.active && !m.closed);
+    if (candidates.length === 0) return [];
+
+    if (!event.negRisk || candidates.length === 1) {
+      const results: LLMAnalysis[] = [];
+      for (const market of candidates) {
+        const analysis = await this.analyzeMarket(market);
+        if (analysis) results.push(analysis);
+      }
+      return results;
+    }
+
+    if (!this.apiKey && !this.replay) {
+      return [this.fallbackEventAnalysis(event, candidates)];
+    }
+
+    try {
+      const prompt = this.buildEventPrompt(event, candidates);
+      const response = await this.complete(`event:${event.id}`, prompt);
+      if (response === null) return [];
+      return [this.parseEventResponse(event, candidates, response)];
+    } catch (error) {
+      getEventBus().emit('LLMCallFailed', { subjectId: `event:${event.id}`, model: this.model, error: errorMessage(error) });
+      return [this.fallbackEventAnalysis(event, candidates)];
+    }
+  }
+
+  // Label used for a candidate inside an event prompt
+  private candidateLabel(market: Market): string {
+    return market.groupItemTitle || market.question;
+  }
+
+  private yesPrice(market: Market): number {
+    return market.outcomes.find(o => o.name.toLowerCase() === 'yes')?.price ?? market.outcomes[0]?.price ?? 0;
+  }
+
+  // Build event prompt listing every sibling's price
+  private buildEventPrompt(event: MarketEvent, candidates: Market[]): string {
+    const total = candidates.reduce((sum, m) => sum + this.yesPrice(m), 0);
+    const lines = candidates
+      .map(m => `- "${this.candidateLabel(m)}": ${(this.yesPrice(m) * 100).toFixed(1)}% (liquidity $${m.liquidity.toLocaleString()})`)
+      .join('\n');
+
+    return `You are an expert prediction market analyst. This event has ${candidates.length} MUTUALLY EXCLUSIVE outcomes - exactly one will resolve YES.
+
+EVENT: "${event.title}"
+
+CANDIDATE PRICES (YES price of each candidate, sum = ${(total * 100).toFixed(1)}%):
+${lines}
+
+EVENT DATA:
+- Volume: $${event.volume?.toLocaleString() || 'N/A'}
+- End Date: ${event.endDate || 'Unknown'}
+- Category: ${event.category || 'General'}
+
+ANALYSIS TASK:
+1. Estimate the TRUE probability of each candidate; your probabilities must sum to 1
+2. Compare each candidate against its siblings, not in isolation
+3. Pick the single most mispriced candidate
+4. If it is too CHEAP recommend YES, if too EXPENSIVE recommend NO
+5. If nothing is mispriced by more than 5 points, recommend SKIP
+
+Respond ONLY with this exact JSON format:
+{
+  "reasoning": "2-3 sentence explanation of your analysis",
+  "probabilities": { "candidate name": 0.XX },
+  "pick": "exact candidate name from the list",
+  "confidence": 0.XX,
+  "recommendation": "YES" or "NO" or "SKIP",
+  "keyFactors": ["factor1", "factor2", "factor3"]
+}`;
+  }
+
+  // Parse event response into an analysis of the picked candidate
+  private parseEventResponse(event: MarketEvent, candidates: Market[], response: string): LLMAnalysis {
+    try {
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) return this.fallbackEventAnalysis(event, candidates);
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      const pick = String(parsed.pick || '').trim().toLowerCase();
+      const market = candidates.find(m => this.candidateLabel(m).toLowerCase() === pick);
+      const recommendation = ['YES', 'NO', 'SKIP'].includes(parsed.recommendation) ? parsed.recommendation : 'SKIP';
+
+      if (!market) {
+        return { ...this.fallbackEventAnalysis(event, candidates), recommendation: 'SKIP' };
+      }
+
+      const probabilities = parsed.probabilities && typeof parsed.probabilities === 'object' ? parsed.probabilities : {};
+      const rawProbability = Object.entries(probabilities)
+        .find(([name]) => name.trim().toLowerCase() === pick)?.[1];
+
+      return {
+        market,
+        event,
+        reasoning: parsed.reasoning || 'No reasoning provided',
+        predictedProbability: Math.max(0, Math.min(1, parseFloat(String(rawProbability)) || this.yesPrice(market))),
+        confidence: Math.max(0, Math.min(1, parseFloat(parsed.confidence) || 0.5)),
+        recommendation,
+        keyFactors: Array.isArray(parsed.keyFactors) ? parsed.keyFactors : [],
+      };
+    } catch (error) {
+      console.error('Failed to parse LLM event response:', error, response);
+      return this.fallbackEventAnalysis(event, candidates);
+    }
+  }
+
+  // Fallback: normalize sibling prices and pick the largest deviation from fair share
+  private fallbackEventAnalysis(event: MarketEvent, candidates: Market[]): LLMAnalysis {
+    const total = candidates.reduce((sum, m) => sum + this.yesPrice(m), 0) || 1;
+
+    let best = candidates[0];
+    let bestGap = 0;
+    for (const market of candidates) {
+      const gap = this.yesPrice(market) / total - this.yesPrice(market);
+      if (Math.abs(gap) > Math.abs(bestGap)) {
+        best = market;
+        bestGap = gap;
+      }
+    }
+
+    const price = this.yesPrice(best);
+    const fair = price / total;
+    const recommendation: 'YES' | 'NO' | 'SKIP' = bestGap > 0.05 ? 'YES' : bestGap < -0.05 ? 'NO' : 'SKIP';
+
+    return {
+      market: best,
+      event,
+      reasoning: `Rule-based: "${this.candidateLabel(best)}" trades at ${(price * 100).toFixed(1)}% vs ${(fair * 100).toFixed(1)}% fair share of ${candidates.length} siblings.`,
+      predictedProbability: fair,
+      confidence: recommendation === 'SKIP' ? 0.5 : 0.6,
+      recommendation,
+      keyFactors: ['Sibling price normalization', 'Event overround'],
+    };
+  }
+
   // Build analysis prompt
   private buildPrompt(market: Market): string {
     const yesPrice = market.outcomes.find(o => o.name.toLowerCase() === 'yes')?.price || 0.5;
@@ -108,7 +308,7 @@ Respond ONLY with this exact JSON format:
 
     // OpenRouter requires additional headers
     if (this.provider === 'openrouter') {
-      headers['HTTP-Referer'] = window.location.origin;
+      headers['HTTP-Referer'] = this.appUrl;
       headers['X-Title'] = 'clawdpm Agent';
     }
 
@@ -229,9 +429,29 @@ Respond ONLY with this exact JSON format:
       );
       results.push(...batchResults.filter(Boolean) as LLMAnalysis[]);
 
-      // Rate limit delay
-      if (i + maxConcurrent < markets.length) {
-        await new Promise(resolve => setTimeout(resolve, 1500));
+      // Rate limit delay (not needed when replaying)
+      if (!this.replay && i + maxConcurrent < markets.length) {
+        await this.clock.sleep(1500);
+      }
+    }
+
+    return results;
+  }
+
+  // Batch analyze events
+  async analyzeEvents(events: MarketEvent[], maxConcurrent = 2): Promise<LLMAnalysis[]> {
+    const results: LLMAnalysis[] = [];
+
+    for (let i = 0; i < events.length; i += maxConcurrent) {
+      const batch = events.slice(i, i + maxConcurrent);
+      const batchResults = await Promise.all(
+        batch.map(e => this.analyzeEvent(e))
+      );
+      results.push(...batchResults.flat());
+
+      // Rate limit delay (not needed when replaying)
+      if (!this.replay && i + maxConcurrent < events.length) {
+        await this.clock.sleep(1500);
       }
     }
 
@@ -242,34 +462,27 @@ Respond ONLY with this exact JSON format:
   analysisToOpportunity(analysis: LLMAnalysis): BettingOpportunity | null {
     if (analysis.recommendation === 'SKIP') return null;
 
-    const yesOutcome = analysis.market.outcomes.find(o => o.name.toLowerCase() === 'yes');
-    if (!yesOutcome) return null;
-
-    const marketPrice = yesOutcome.price;
-    const isUndervalued = analysis.predictedProbability > marketPrice;
-
-    // Calculate expected value
-    let expectedValue: number;
-    if (analysis.recommendation === 'YES') {
-      const potentialReturn = (1 / marketPrice) - 1;
-      expectedValue = (analysis.predictedProbability * potentialReturn) -
-                     ((1 - analysis.predictedProbability) * 1);
-    } else {
-      const noPrice = 1 - marketPrice;
-      const potentialReturn = (1 / noPrice) - 1;
-      expectedValue = ((1 - analysis.predictedProbability) * potentialReturn) -
-                     (analysis.predictedProbability * 1);
-    }
+    // predictedProbability is about the market's primary outcome; NO buys the other side
+    const bet = analysis.recommendation as 'YES' | 'NO';
+    const primary = primaryOutcome(analysis.market);
+    const target = primary ? resolveBetOutcome(analysis.market, primary, bet) : null;
+    if (!target || target.price <= 0 || target.price >= 1) return null;
+
+    const winProbability = bet === 'YES'
+      ? analysis.predictedProbability
+      : 1 - analysis.predictedProbability;
 
     // Only return if EV is positive
-    if (expectedValue <= 0.02) return null;
+    const expectedValue = expectedValueAt(winProbability, target.price);
+    if (expectedValue <= MIN_EXPECTED_VALUE) return null;
 
     return {
       market: analysis.market,
-      outcome: yesOutcome,
-      strategy: isUndervalued ? 'UNDERVALUED' : 'OVERVALUED',
-      recommendedBet: analysis.recommendation as 'YES' | 'NO',
+      outcome: target,
+      strategy: 'llm',
+      recommendedBet: bet,
       confidence: analysis.confidence,
+      winProbability,
       suggestedAmount: 0,
       expectedValue,
       reasoning: analysis.reasoning,
@@ -305,9 +518,10 @@ let analyzerInstance: LLMAnalyzer | null = null;
 export const initLLMAnalyzer = (
   apiKey?: string,
   provider?: LLMProvider,
-  model?: string
+  model?: string,
+  appUrl?: string
 ): LLMAnalyzer => {
-  analyzerInstance = new LLMAnalyzer(apiKey, provider, model);
+  analyzerInstance = new LLMAnalyzer(apiKey, provider, model, appUrl);
   return analyzerInstance;
 };
 
@@ -0,0 +1,48 @@
+// LLM Recordings - Raw model responses, kept so backtests can replay them offline
+import type { RecordedLLMResponse } from '@/types/polymarket';
+
+export class LLMResponseLog {
+  private bySubject = new Map<string, RecordedLLMResponse[]>();
+  private listeners = new Set<(entry: RecordedLLMResponse) => void>();
+
+  constructor(initial: RecordedLLMResponse[] = []) {
+    initial.forEach(entry => this.add(entry));
+  }
+
+  add(entry: RecordedLLMResponse): void {
+    const list = this.bySubject.get(entry.subjectId) ?? [];
+    list.push(entry);
+    list.sort((a, b) => a.at - b.at);
+    this.bySubject.set(entry.subjectId, list);
+    this.listeners.forEach(listener => listener(entry));
+  }
+
+  // Called for every new entry, e.g. to append it to a file
+  onAdd(listener: (entry: RecordedLLMResponse) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Latest response for a market/event recorded at or before `at`
+  lookup(subjectId: string, at: number): RecordedLLMResponse | null {
+    const list = this.bySubject.get(subjectId);
+    if (!list) return null;
+
+    for (let i = list.length - 1; i >= 0; i--) {
+      if (list[i].at <= at) return list[i];
+    }
+    return null;
+  }
+
+  entries(): RecordedLLMResponse[] {
+    return Array.from(this.bySubject.values()).flat().sort((a, b) => a.at - b.at);
+  }
+
+  size(): number {
+    let count = 0;
+    this.bySubject.forEach(list => (count += list.length));
+    return count;
+  }
+}
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { startMockServer } from '../mock/server';
+import { MarketDataStream, type WebSocketLike } from './market-data';
+
+// Local stand-in for the CLOB market channel: records subscriptions, pushes what the test sends
+async function startFeed() {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise(resolve => server.once('listening', resolve));
+
+  const subscriptions: unknown[] = [];
+  let client: WebSocket | null = null;
+  server.on('connection', socket => {
+    client = socket;
+    socket.on('message', raw => {
+      const text = raw.toString();
+      if (text === 'PING') socket.send('PONG');
+      else subscriptions.push(JSON.parse(text));
+    });
+  });
+
+  const address = server.address();
+  return {
+    url: `ws://localhost:${typeof address === 'object' ? address.port : 0}`,
+    subscriptions,
+    push: (events: object[]) => client?.send(JSON.stringify(events)),
+    drop: () => client?.terminate(),
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+async function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the feed');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+let cleanup: (() => Promise<unknown>) | null = null;
+
+afterEach(async () => {
+  await cleanup?.();
+  cleanup = null;
+});
+
+async function connect() {
+  const feed = await startFeed();
+  const stream = new MarketDataStream({
+    url: feed.url,
+    createSocket: url => new WebSocket(url) as unknown as WebSocketLike,
+    initialBackoffMs: 10,
+  });
+  cleanup = () => {
+    stream.disconnect();
+    return feed.close();
+  };
+
+  stream.track(['t1']);
+  stream.connect();
+  await until(() => feed.subscriptions.length === 1);
+  return { feed, stream };
+}
+
+describe('MarketDataStream', () => {
+  it('subscribes to tracked tokens and follows book snapshots and level changes', async () => {
+    const { feed, stream } = await connect();
+    expect(feed.subscriptions[0]).toEqual({ assets_ids: ['t1'], type: 'market' });
+
+    feed.push([{
+      event_type: 'book',
+      asset_id: 't1',
+      bids: [{ price: '0.39', size: '80' }, { price: '0.40', size: '100' }],
+      asks: [{ price: '0.45', size: '50' }],
+    }]);
+    await until(() => stream.getQuote('t1')?.mid !== undefined);
+    expect(stream.getQuote('t1')).toMatchObject({ bid: 0.4, ask: 0.45, mid: expect.closeTo(0.425) });
+
+    feed.push([{ event_type: 'price_change', asset_id: 't1', changes: [{ price: '0.41', side: 'BUY', size: '10' }] }]);
+    await until(() => stream.getQuote('t1')?.bid === 0.41);
+
+    // The best bid is pulled: the next level is unknown until the next snapshot
+    feed.push([{ event_type: 'price_change', asset_id: 't1', changes: [{ price: '0.41', side: 'BUY', size: '0' }] }]);
+    await until(() => stream.getQuote('t1')?.bid === undefined);
+    expect(stream.getQuote('t1')).toMatchObject({ ask: 0.45 });
+    expect(stream.getQuote('t1')?.mid).toBeUndefined();
+  });
+
+  it('ignores removals below the top of book', async () => {
+    const { feed, stream } = await connect();
+    feed.push([{ event_type: 'book', asset_id: 't1', bids: [{ price: '0.40', size: '100' }], asks: [{ price: '0.45', size: '50' }] }]);
+    feed.push([{ event_type: 'price_change', asset_id: 't1', changes: [{ price: '0.38', side: 'BUY', size: '0' }] }]);
+    feed.push([{ event_type: 'last_trade_price', asset_id: 't1', price: '0.42' }]);
+
+    await until(() => stream.getQuote('t1')?.lastTradePrice === 0.42);
+    expect(stream.getQuote('t1')).toMatchObject({ bid: 0.4, ask: 0.45 });
+  });
+
+  it('reconnects and subscribes again when the connection drops', async () => {
+    const { feed, stream } = await connect();
+
+    feed.drop();
+    await until(() => feed.subscriptions.length === 2);
+    expect(feed.subscriptions[1]).toEqual({ assets_ids: ['t1'], type: 'market' });
+    await until(() => stream.isConnected());
+  });
+
+  it('follows the mock exchange market channel through fills and price moves', async () => {
+    const mock = await startMockServer();
+    const stream = new MarketDataStream({
+      url: mock.wsUrl,
+      createSocket: url => new WebSocket(url) as unknown as WebSocketLike,
+    });
+    cleanup = () => {
+      stream.disconnect();
+      return mock.close();
+    };
+    const token = '71321045679252212594626385532706912750332728571942532289631379312455583992563';
+
+    stream.track([token]);
+    stream.connect();
+    await until(() => stream.getQuote(token)?.ask !== undefined);
+    expect(stream.getQuote(token)).toMatchObject({ bid: 0.61, ask: 0.63 });
+
+    // Taking the whole best ask removes that level
+    mock.exchange.placeOrder({
+      order: { tokenId: token, side: 'BUY', makerAmount: '290196900', takerAmount: '460630000', signature: '0x' },
+      orderType: 'FOK',
+    });
+    await until(() => stream.getQuote(token)?.ask === undefined);
+
+    mock.exchange.applyStep({ atMs: 0, action: 'price', tokenId: token, price: 0.5 });
+    await until(() => stream.getQuote(token)?.mid !== undefined);
+    expect(stream.getQuote(token)?.mid).toBeCloseTo(0.5, 1);
+  });
+});
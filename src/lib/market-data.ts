@@ -0,0 +1,332 @@
+// Market Data Stream - Live CLOB prices over WebSocket
+import type { Market, PriceQuote } from '@/types/polymarket';
+import { systemClock, type Clock } from './clock';
+import { errorMessage, getEventBus } from './event-bus';
+
+const CLOB_WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+
+// Minimal socket surface so a mock (or the `ws` package on Node) can be injected
+export interface WebSocketLike {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((ev: any) => void) | null;
+  onclose: ((ev: any) => void) | null;
+  onerror: ((ev: any) => void) | null;
+  onmessage: ((ev: { data: any }) => void) | null;
+}
+
+interface MarketDataConfig {
+  url: string;
+  createSocket?: (url: string) => WebSocketLike;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  pingIntervalMs: number;
+  staleAfterMs: number; // Quotes older than this are ignored by readers
+}
+
+type QuoteListener = (quote: PriceQuote) => void;
+
+// Fields a feed message can set; null clears a side the feed says is gone
+type QuoteField = 'bid' | 'ask' | 'lastTradePrice';
+type QuotePatch = { [K in QuoteField]?: number | null };
+const QUOTE_FIELDS: QuoteField[] = ['bid', 'ask', 'lastTradePrice'];
+
+const OPEN = 1;
+
+export class MarketDataStream {
+  private config: MarketDataConfig;
+  private socket: WebSocketLike | null = null;
+  private quotes = new Map<string, PriceQuote>();
+  private tracked = new Set<string>();
+  private listeners = new Set<QuoteListener>();
+  private backoffMs: number;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private shouldRun = false;
+  private clock: Clock = systemClock;
+
+  constructor(config: Partial<MarketDataConfig> = {}) {
+    this.config = {
+      url: CLOB_WS_URL,
+      initialBackoffMs: 1000,
+      maxBackoffMs: 30000,
+      pingIntervalMs: 10000,
+      staleAfterMs: 60000,
+      ...config,
+    };
+    this.backoffMs = this.config.initialBackoffMs;
+  }
+
+  // Time source for quote ages; the executor passes its own
+  useClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  // Open the connection (no-op if already running)
+  connect(): void {
+    if (this.shouldRun) return;
+    if (!this.config.createSocket && typeof WebSocket === 'undefined') {
+      getEventBus().emit('MarketStreamChanged', { status: 'unavailable' });
+      return;
+    }
+    this.shouldRun = true;
+    this.openSocket();
+  }
+
+  // Close the connection and stop reconnecting
+  disconnect(): void {
+    this.shouldRun = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPing();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  isConnected(): boolean {
+    return !!this.socket && this.socket.readyState === OPEN;
+  }
+
+  // Subscribe to token ids; new ids are sent immediately if the socket is open
+  track(tokenIds: string[]): void {
+    const added = tokenIds.filter(id => id && !this.tracked.has(id));
+    if (added.length === 0) return;
+
+    added.forEach(id => this.tracked.add(id));
+    if (this.isConnected()) {
+      this.send({ assets_ids: added, operation: 'subscribe' });
+    }
+  }
+
+  // Convenience: track every outcome token of the given markets
+  trackMarkets(markets: Market[]): void {
+    this.track(markets.flatMap(m => m.outcomes.map(o => o.id)));
+  }
+
+  untrack(tokenIds: string[]): void {
+    const removed = tokenIds.filter(id => this.tracked.delete(id));
+    removed.forEach(id => this.quotes.delete(id));
+    if (removed.length > 0 && this.isConnected()) {
+      this.send({ assets_ids: removed, operation: 'unsubscribe' });
+    }
+  }
+
+  getTrackedTokenIds(): string[] {
+    return Array.from(this.tracked);
+  }
+
+  // Latest fresh quote for a token, or undefined if missing/stale
+  getQuote(tokenId: string): PriceQuote | undefined {
+    const quote = this.quotes.get(tokenId);
+    if (!quote) return undefined;
+    if (this.clock.now() - quote.updatedAt > this.config.staleAfterMs) return undefined;
+    return { ...quote };
+  }
+
+  // Best available price for marking: mid, then last trade
+  getPrice(tokenId: string): number | undefined {
+    const quote = this.getQuote(tokenId);
+    return quote?.mid ?? quote?.lastTradePrice;
+  }
+
+  // Overlay fresh streamed prices onto market outcomes (markets are copied, not mutated)
+  applyQuotes(markets: Market[]): Market[] {
+    return markets.map(market => ({
+      ...market,
+      outcomes: market.outcomes.map(outcome => {
+        const price = this.getPrice(outcome.id);
+        return price !== undefined ? { ...outcome, price } : outcome;
+      }),
+    }));
+  }
+
+  onQuote(listener: QuoteListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // --- Connection handling ---
+
+  private openSocket(): void {
+    const create = this.config.createSocket
+      ?? ((url: string) => new WebSocket(url) as unknown as WebSocketLike);
+
+    let socket: WebSocketLike;
+    try {
+      socket = create(this.config.url);
+    } catch (error) {
+      getEventBus().emit('ApiError', { operation: 'Open market stream', error: errorMessage(error) });
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      getEventBus().emit('MarketStreamChanged', { status: 'connected', tokens: this.tracked.size });
+      this.backoffMs = this.config.initialBackoffMs;
+      this.send({ assets_ids: Array.from(this.tracked), type: 'market' });
+      this.startPing();
+    };
+
+    socket.onmessage = (ev) => this.handleMessage(ev.data);
+
+    socket.onerror = (ev) => {
+      getEventBus().emit('ApiError', { operation: 'Market stream', error: String(ev?.message || 'Socket error') });
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return; // Closed by disconnect()
+      this.socket = null;
+      this.stopPing();
+      getEventBus().emit('MarketStreamChanged', { status: 'disconnected' });
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldRun || this.reconnectTimer) return;
+
+    const delay = this.backoffMs;
+    this.backoffMs = Math.min(this.backoffMs * 2, this.config.maxBackoffMs);
+    getEventBus().emit('MarketStreamChanged', { status: 'reconnecting', retryInMs: delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.shouldRun) this.openSocket();
+    }, delay);
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    this.pingTimer = setInterval(() => {
+      if (this.isConnected()) this.socket!.send('PING');
+    }, this.config.pingIntervalMs);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private send(payload: object): void {
+    try {
+      this.socket?.send(JSON.stringify(payload));
+    } catch (error) {
+      getEventBus().emit('ApiError', { operation: 'Send to market stream', error: errorMessage(error) });
+    }
+  }
+
+  // --- Message parsing ---
+
+  private handleMessage(raw: any): void {
+    if (typeof raw !== 'string' || raw === 'PONG') return;
+
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    const events = Array.isArray(data) ? data : [data];
+    for (const event of events) {
+      switch (event?.event_type) {
+        case 'book':
+          this.applyBook(event);
+          break;
+        case 'price_change':
+          this.applyPriceChange(event);
+          break;
+        case 'last_trade_price':
+          this.updateQuote(event.asset_id, { lastTradePrice: parseFloat(event.price) });
+          break;
+      }
+    }
+  }
+
+  private applyBook(event: any): void {
+    const prices = (levels: any[]) =>
+      (Array.isArray(levels) ? levels : []).map(l => parseFloat(l.price)).filter(Number.isFinite);
+
+    // A snapshot is the whole book: an empty side means no quote on that side
+    const bids = prices(event.bids);
+    const asks = prices(event.asks);
+    this.updateQuote(event.asset_id, {
+      bid: bids.length ? Math.max(...bids) : null,
+      ask: asks.length ? Math.min(...asks) : null,
+    });
+  }
+
+  private applyPriceChange(event: any): void {
+    // Newer payloads carry best_bid/best_ask per asset in `price_changes`
+    if (Array.isArray(event.price_changes)) {
+      for (const change of event.price_changes) {
+        this.updateQuote(change.asset_id, {
+          bid: change.best_bid !== undefined ? parseFloat(change.best_bid) : undefined,
+          ask: change.best_ask !== undefined ? parseFloat(change.best_ask) : undefined,
+        });
+      }
+      return;
+    }
+
+    // Older payloads only carry level changes. A new level can only improve the top of
+    // book; size 0 removes a level, and with the best one gone the next is unknown, so
+    // that side is cleared until the next book snapshot.
+    const current = this.quotes.get(event.asset_id);
+    const patch: QuotePatch = {};
+    for (const change of event.changes || []) {
+      const price = parseFloat(change.price);
+      const size = parseFloat(change.size);
+      if (!Number.isFinite(price) || !Number.isFinite(size)) continue;
+
+      const key = change.side === 'BUY' ? 'bid' : change.side === 'SELL' ? 'ask' : null;
+      if (!key) continue;
+      const best = patch[key] === undefined ? current?.[key] : patch[key];
+      if (size === 0) {
+        if (best === price) patch[key] = null;
+      } else if (best === undefined || best === null || (key === 'bid' ? price > best : price < best)) {
+        patch[key] = price;
+      }
+    }
+    this.updateQuote(event.asset_id, patch);
+  }
+
+  private updateQuote(tokenId: string, patch: QuotePatch): void {
+    if (!tokenId || !this.tracked.has(tokenId)) return;
+
+    const previous = this.quotes.get(tokenId);
+    const quote: PriceQuote = { ...previous, tokenId, updatedAt: this.clock.now() };
+    for (const key of QUOTE_FIELDS) {
+      const value = patch[key];
+      if (value === null) delete quote[key];
+      else if (value !== undefined && Number.isFinite(value)) quote[key] = value;
+    }
+    if (quote.bid !== undefined && quote.ask !== undefined) {
+      quote.mid = (quote.bid + quote.ask) / 2;
+    } else {
+      delete quote.mid;
+    }
+
+    this.quotes.set(tokenId, quote);
+    this.listeners.forEach(listener => listener({ ...quote }));
+  }
+}
+
+// Singleton
+let streamInstance: MarketDataStream | null = null;
+
+export const initMarketData = (config?: Partial<MarketDataConfig>): MarketDataStream => {
+  streamInstance?.disconnect();
+  streamInstance = new MarketDataStream(config);
+  return streamInstance;
+};
+
+export const getMarketData = (): MarketDataStream | null => streamInstance;
@@ -1,126 +1,68 @@
 // Market Scanner - Finds betting opportunities
 import type { Market, BettingOpportunity, AgentConfig } from '@/types/polymarket';
 import { getAPI } from './polymarket-api';
+import { getLLMAnalyzer } from './llm-analyzer';
+import { getMarketData } from './market-data';
+import { getMarketUniverse, groupMarketsByEvent } from './market-universe';
+import type { StrategyContext, StrategyRegistry } from './strategy-registry';
+import { createDefaultRegistry } from './strategies';
+import { systemClock, type Clock } from './clock';
 
 export class MarketScanner {
   private config: AgentConfig;
+  private registry: StrategyRegistry;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, registry?: StrategyRegistry, private clock: Clock = systemClock) {
     this.config = config;
+    this.registry = registry ?? createDefaultRegistry(config.strategies);
   }
 
-  // Scan markets for opportunities based on strategy
-  async scanForOpportunities(): Promise<BettingOpportunity[]> {
-    const api = getAPI();
-    if (!api) {
-      console.error('API not initialized');
-      return [];
-    }
+  // Scan markets and run every enabled strategy (or those `include` accepts) over them
+  async scanForOpportunities(
+    overrides: Partial<Omit<StrategyContext, 'events' | 'config'>> = {},
+    include?: (strategyId: string) => boolean
+  ): Promise<BettingOpportunity[]> {
+    const universe = getMarketUniverse();
+    await universe.refresh();
 
-    const markets = await api.getMarkets(100);
-    const opportunities: BettingOpportunity[] = [];
+    // Streamed prices override cached Gamma prices for tokens we track
+    const stream = getMarketData();
+    const fetched = universe.getMarkets();
+    const markets = stream ? stream.applyQuotes(fetched) : fetched;
 
-    for (const market of markets) {
-      // Skip markets with low liquidity
-      if (market.liquidity < this.config.safetyLimits.minLiquidity) {
-        continue;
-      }
+    return this.scanMarkets(markets, overrides, include);
+  }
 
-      // Skip closed or inactive markets
-      if (!market.active || market.closed) {
-        continue;
-      }
-
-      // Analyze each outcome
-      for (const outcome of market.outcomes) {
-        const opportunity = this.analyzeOutcome(market, outcome);
-        if (opportunity) {
-          opportunities.push(opportunity);
-        }
-      }
-    }
+  // Run the strategies over a given set of markets. Backtests pass their own
+  // clock, book source and (replaying) LLM so nothing touches the network.
+  async scanMarkets(
+    markets: Market[],
+    overrides: Partial<Omit<StrategyContext, 'events' | 'config'>> = {},
+    include?: (strategyId: string) => boolean
+  ): Promise<BettingOpportunity[]> {
+    const opportunities = await this.registry.run({
+      events: groupMarketsByEvent(markets).filter(e => e.active),
+      config: this.config,
+      now: this.clock.now(),
+      getOrderBook: tokenId => getAPI().getOrderBook(tokenId),
+      llm: getLLMAnalyzer(),
+      ...overrides,
+    }, include);
 
     // Sort by expected value (highest first)
     return opportunities.sort((a, b) => b.expectedValue - a.expectedValue);
   }
 
-  // Analyze a single outcome for opportunities
-  private analyzeOutcome(market: Market, outcome: any): BettingOpportunity | null {
-    const price = outcome.price;
-
-    // Strategy 1: Undervalued (bet YES when price is low)
-    if (price < this.config.undervaluedThreshold) {
-      // Estimate "true" probability with a simple contrarian model
-      // If market says 20%, we bet it's closer to 35%
-      const estimatedProb = this.estimateTrueProbability(price, 'UNDERVALUED');
-      const confidence = estimatedProb;
-
-      // Calculate expected value
-      const potentialReturn = (1 / price) - 1;
-      const expectedValue = (estimatedProb * potentialReturn) - ((1 - estimatedProb) * 1);
-
-      if (expectedValue > 0.05) { // Min 5% edge
-        return {
-          market,
-          outcome,
-          strategy: 'UNDERVALUED',
-          recommendedBet: 'YES',
-          confidence,
-          suggestedAmount: 0, // Will be calculated by RiskManager
-          expectedValue,
-        };
-      }
-    }
-
-    // Strategy 2: Overvalued (bet NO when price is high)
-    if (price > this.config.overvaluedThreshold) {
-      // If market says 85%, we bet it's closer to 70%
-      const estimatedProb = this.estimateTrueProbability(price, 'OVERVALUED');
-      const noPrice = 1 - price;
-      const potentialReturn = (1 / noPrice) - 1;
-      const winProb = 1 - estimatedProb; // Probability YES is wrong
-      const expectedValue = (winProb * potentialReturn) - ((1 - winProb) * 1);
-
-      if (expectedValue > 0.05) { // Min 5% edge
-        return {
-          market,
-          outcome,
-          strategy: 'OVERVALUED',
-          recommendedBet: 'NO',
-          confidence: 1 - estimatedProb,
-          suggestedAmount: 0,
-          expectedValue,
-        };
-      }
-    }
-
-    return null;
-  }
-
-  // Simple probability estimation model
-  // In a real agent, this could use ML, sentiment analysis, etc.
-  private estimateTrueProbability(marketPrice: number, strategy: 'UNDERVALUED' | 'OVERVALUED'): number {
-    // Mean reversion assumption: extreme prices tend to revert
-    // This is a simplified model - real implementation would be more sophisticated
-
-    if (strategy === 'UNDERVALUED') {
-      // Market says low, we think it's higher
-      // Regression toward 50% with dampening
-      const reversion = 0.3; // 30% mean reversion
-      return marketPrice + (0.5 - marketPrice) * reversion;
-    } else {
-      // Market says high, we think it's lower
-      const reversion = 0.25; // 25% mean reversion for overvalued
-      return marketPrice - (marketPrice - 0.5) * reversion;
-    }
+  getRegistry(): StrategyRegistry {
+    return this.registry;
   }
 
   // Get hot markets (high volume, closing soon)
   async getHotMarkets(limit = 10): Promise<Market[]> {
-    const api = getAPI();
-    if (!api) return [];
+    const universe = getMarketUniverse();
+    await universe.refresh();
 
-    const markets = await api.getMarkets(100);
+    const markets = universe.getMarkets();
 
     // Filter and sort by volume
     return markets
@@ -132,5 +74,8 @@ export class MarketScanner {
   // Update config
   updateConfig(newConfig: Partial<AgentConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    if (newConfig.strategies) {
+      this.registry.configure(newConfig.strategies);
+    }
   }
 }
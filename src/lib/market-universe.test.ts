@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { MarketsPage } from '@/types/polymarket';
+import { startMockServer, type MockServer } from '../mock/server';
+import { VirtualClock } from './clock';
+import { initMarketUniverse } from './market-universe';
+import { initializeAPI } from './polymarket-api';
+
+const MIN = 60 * 1000;
+
+let server: MockServer | null = null;
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await server?.close();
+  server = null;
+});
+
+// A universe synced once against the mock exchange, after the fixtures' last update
+async function setup() {
+  const clock = new VirtualClock(Date.UTC(2026, 9, 19, 12));
+  server = await startMockServer({ now: () => clock.now() });
+  const api = initializeAPI(undefined, undefined, undefined, { gammaUrl: `${server.url}/gamma`, clobUrl: `${server.url}/clob` });
+  const universe = initMarketUniverse({ minRefreshMs: 0, ttlMs: 30 * MIN, fullSyncIntervalMs: 15 * MIN });
+  universe.useClock(clock);
+  await universe.refresh();
+  return { clock, api, universe, exchange: server.exchange };
+}
+
+describe('MarketUniverse', () => {
+  it('drops markets that close between full syncs', async () => {
+    const { clock, universe, exchange } = await setup();
+    const market = universe.getMarkets()[0];
+    const size = universe.size();
+
+    await clock.advance(MIN);
+    exchange.applyStep({ atMs: 0, action: 'resolve', marketId: market.id, winner: market.outcomes[0].name });
+    await clock.advance(MIN);
+    await universe.refresh();
+
+    expect(universe.getMarket(market.id)).toBeUndefined();
+    expect(universe.size()).toBe(size - 1);
+  });
+
+  it('keeps unchanged markets fresh when a full sync fails', async () => {
+    const { clock, api, universe } = await setup();
+    const size = universe.size();
+
+    // Full syncs (open markets only) fail; incremental ones still go through
+    const page = api.getMarketsPage.bind(api);
+    vi.spyOn(api, 'getMarketsPage').mockImplementation((limit, offset, order, includeClosed) =>
+      includeClosed ? page(limit, offset, order, includeClosed) : Promise.resolve(null));
+
+    await clock.advance(20 * MIN);
+    await universe.refresh();
+    await clock.advance(20 * MIN); // 40 minutes after the last full sync, past the TTL
+
+    expect(universe.getMarkets()).toHaveLength(size);
+  });
+
+  it('reports validation results for every page of a sync', async () => {
+    const { api, universe } = await setup();
+    const [a, b, c, d] = universe.getMarkets();
+    const report = (received: number, parsed: number, rejectedAt: number[]) => ({
+      at: new Date(),
+      received,
+      parsed,
+      rejected: rejectedAt.map(index => ({ index, reason: 'Invalid' })),
+    });
+    const pages: MarketsPage[] = [
+      { markets: [a, b, c], report: report(4, 3, [1]) },
+      { markets: [d], report: report(2, 1, [0]) },
+    ];
+    vi.spyOn(api, 'getMarketsPage').mockImplementation(async (_limit, offset) => pages[offset! / 3] ?? null);
+
+    const paged = initMarketUniverse({ pageSize: 3, minRefreshMs: 0 });
+    await paged.refresh();
+
+    expect(paged.getParseReport()).toMatchObject({ received: 6, parsed: 4 });
+    expect(paged.getParseReport()?.rejected.map(e => e.index)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,283 @@
+// Market Universe - Paginated loader + TTL cache for every active market
+import type { MarketEvent, Market, MarketParseReport, MarketsPage } from '@/types/polymarket';
+import { getAPI } from './polymarket-api';
+import { systemClock, type Clock } from './clock';
+import { getEventBus } from './event-bus';
+
+interface MarketUniverseConfig {
+  pageSize: number;
+  maxPages: number;          // Safety stop for runaway pagination
+  ttlMs: number;             // Cached entries older than this are dropped
+  fullSyncIntervalMs: number; // Walk every page again after this long
+  minRefreshMs: number;      // Don't hit the API more often than this
+}
+
+interface CachedMarket {
+  market: Market;
+  fetchedAt: number;
+}
+
+export class MarketUniverse {
+  private config: MarketUniverseConfig;
+  private cache = new Map<string, CachedMarket>();
+  private eventCounts = new Map<string, number>(); // negRisk event id -> open markets Gamma lists
+  private lastFullSync = 0;
+  private lastRefresh = 0;
+  private highWaterMark = 0; // Latest `updatedAt` seen, in epoch ms
+  private inFlight: Promise<void> | null = null;
+  private syncReport: MarketParseReport | null = null; // Pages of the sync in progress
+  private parseReport: MarketParseReport | null = null; // Pages of the last finished sync
+  private clock: Clock = systemClock;
+
+  constructor(config: Partial<MarketUniverseConfig> = {}) {
+    this.config = {
+      pageSize: 100,
+      maxPages: 200,
+      ttlMs: 30 * 60 * 1000,
+      fullSyncIntervalMs: 15 * 60 * 1000,
+      minRefreshMs: 30 * 1000,
+      ...config,
+    };
+  }
+
+  // Time source for refresh pacing and the TTL; the executor passes its own
+  useClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  // Bring the cache up to date. Concurrent callers share one request.
+  async refresh(force = false): Promise<void> {
+    if (this.inFlight) return this.inFlight;
+
+    const now = this.clock.now();
+    if (!force && now - this.lastRefresh < this.config.minRefreshMs) return;
+
+    const needsFullSync = force
+      || this.lastFullSync === 0
+      || now - this.lastFullSync >= this.config.fullSyncIntervalMs;
+
+    this.syncReport = { at: new Date(now), received: 0, parsed: 0, rejected: [] };
+    this.inFlight = (needsFullSync ? this.fullSync() : this.incrementalSync())
+      .finally(() => {
+        this.parseReport = this.syncReport;
+        this.syncReport = null;
+        this.inFlight = null;
+      });
+
+    return this.inFlight;
+  }
+
+  // Cached, non-expired markets
+  getMarkets(): Market[] {
+    this.evictExpired();
+    return Array.from(this.cache.values()).map(entry => entry.market);
+  }
+
+  // Cached markets grouped under their parent events
+  getEvents(): MarketEvent[] {
+    return groupMarketsByEvent(this.getMarkets());
+  }
+
+  getMarket(id: string): Market | undefined {
+    this.evictExpired();
+    return this.cache.get(id)?.market;
+  }
+
+  size(): number {
+    return this.cache.size;
+  }
+
+  // Validation report for every page the last sync fetched
+  getParseReport(): MarketParseReport | null {
+    return this.parseReport;
+  }
+
+  getLastRefresh(): Date | undefined {
+    return this.lastRefresh ? new Date(this.lastRefresh) : undefined;
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.eventCounts.clear();
+    this.lastFullSync = 0;
+    this.lastRefresh = 0;
+    this.highWaterMark = 0;
+    this.parseReport = null;
+  }
+
+  // Walk every offset until a short page. On failure the previous cache is kept
+  // and brought up to date with an incremental sync instead.
+  private async fullSync(): Promise<void> {
+    const api = getAPI();
+    const fetched: Market[] = [];
+
+    for (let page = 0; page < this.config.maxPages; page++) {
+      const markets = this.collect(await api.getMarketsPage(this.config.pageSize, page * this.config.pageSize), page);
+      if (markets === null) {
+        getEventBus().emit('UniverseSyncFailed', { mode: 'full', page, cachedMarkets: this.cache.size });
+        if (this.highWaterMark > 0) await this.incrementalSync();
+        return;
+      }
+
+      fetched.push(...markets);
+      if (markets.length < this.config.pageSize) break;
+    }
+
+    const now = this.clock.now();
+    this.cache.clear();
+    fetched.forEach(market => this.store(market, now));
+    await this.loadEventCounts(fetched);
+    this.lastFullSync = now;
+    this.lastRefresh = now;
+
+    getEventBus().emit('UniverseSynced', { mode: 'full', markets: this.cache.size, changed: fetched.length, closed: 0 });
+  }
+
+  // Fetch pages ordered by most recently updated, closed markets included, until we
+  // reach markets we already have. Markets that closed are dropped from the cache.
+  private async incrementalSync(): Promise<void> {
+    const api = getAPI();
+    const since = this.highWaterMark;
+    const changed: Market[] = [];
+    let closed = 0;
+    let complete = false;
+
+    for (let page = 0; page < this.config.maxPages; page++) {
+      const markets = this.collect(await api.getMarketsPage(this.config.pageSize, page * this.config.pageSize, 'updatedAt', true), page);
+      if (markets === null) {
+        getEventBus().emit('UniverseSyncFailed', { mode: 'incremental', page, cachedMarkets: this.cache.size });
+        return;
+      }
+
+      const now = this.clock.now();
+      let reachedKnown = false;
+      for (const market of markets) {
+        if (this.updatedAtMs(market) <= since) {
+          reachedKnown = true;
+          break;
+        }
+        if (market.closed || !market.active) {
+          if (this.cache.delete(market.id)) closed++;
+          this.highWaterMark = Math.max(this.highWaterMark, this.updatedAtMs(market));
+          continue;
+        }
+        this.store(market, now);
+        changed.push(market);
+      }
+
+      if (reachedKnown || markets.length < this.config.pageSize) {
+        complete = true;
+        break;
+      }
+    }
+
+    // Every change since the last sync was seen, so the markets that didn't change are still current
+    const now = this.clock.now();
+    if (complete) {
+      for (const entry of this.cache.values()) entry.fetchedAt = now;
+    }
+
+    await this.loadEventCounts(changed);
+    this.lastRefresh = now;
+    if (changed.length > 0 || closed > 0) {
+      getEventBus().emit('UniverseSynced', { mode: 'incremental', markets: this.cache.size, changed: changed.length, closed });
+    }
+  }
+
+  // The cache holds only the markets it could fetch and parse, so a negRisk event's
+  // candidate count comes from Gamma's own event listing
+  private async loadEventCounts(markets: Market[]): Promise<void> {
+    const ids = new Set(markets.filter(m => m.negRisk && m.eventId).map(m => m.eventId as string));
+    if (ids.size === 0) return;
+
+    for (const event of await getAPI().getEvents({ ids: Array.from(ids) })) {
+      if (event.marketCount !== undefined) this.eventCounts.set(event.id, event.marketCount);
+    }
+    for (const { market } of this.cache.values()) {
+      if (market.eventId && ids.has(market.eventId)) {
+        market.eventMarketCount = this.eventCounts.get(market.eventId);
+      }
+    }
+  }
+
+  // Add a page's validation results to the sync's report; rejects are indexed across pages
+  private collect(result: MarketsPage | null, page: number): Market[] | null {
+    if (!result) return null;
+
+    const report = this.syncReport;
+    if (report) {
+      const offset = page * this.config.pageSize;
+      report.received += result.report.received;
+      report.parsed += result.report.parsed;
+      report.rejected.push(...result.report.rejected.map(error => ({ ...error, index: offset + error.index })));
+    }
+    return result.markets;
+  }
+
+  private store(market: Market, fetchedAt: number): void {
+    if (market.eventId && this.eventCounts.has(market.eventId)) {
+      market.eventMarketCount = this.eventCounts.get(market.eventId);
+    }
+    this.cache.set(market.id, { market, fetchedAt });
+    this.highWaterMark = Math.max(this.highWaterMark, this.updatedAtMs(market));
+  }
+
+  private updatedAtMs(market: Market): number {
+    const ms = market.updatedAt ? Date.parse(market.updatedAt) : NaN;
+    return Number.isFinite(ms) ? ms : 0;
+  }
+
+  private evictExpired(): void {
+    const cutoff = this.clock.now() - this.config.ttlMs;
+    for (const [id, entry] of this.cache) {
+      if (entry.fetchedAt < cutoff) this.cache.delete(id);
+    }
+  }
+}
+
+// Group markets by parent event. Markets without an event become a one-market event.
+export function groupMarketsByEvent(markets: Market[]): MarketEvent[] {
+  const groups = new Map<string, Market[]>();
+  for (const market of markets) {
+    const key = market.eventId || `market:${market.id}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(market);
+    } else {
+      groups.set(key, [market]);
+    }
+  }
+
+  return Array.from(groups.entries()).map(([key, members]) => {
+    const first = members[0];
+    return {
+      id: first.eventId || key,
+      title: first.eventTitle || first.question,
+      slug: first.slug,
+      endDate: first.endDate,
+      category: first.category,
+      negRisk: members.some(m => m.negRisk),
+      liquidity: members.reduce((sum, m) => sum + m.liquidity, 0),
+      volume: members.reduce((sum, m) => sum + m.volume, 0),
+      active: members.some(m => m.active && !m.closed),
+      closed: members.every(m => m.closed),
+      marketCount: members.find(m => m.eventMarketCount !== undefined)?.eventMarketCount,
+      markets: members,
+    };
+  });
+}
+
+// Singleton Pattern
+let universeInstance: MarketUniverse | null = null;
+
+export const initMarketUniverse = (config?: Partial<MarketUniverseConfig>): MarketUniverse => {
+  universeInstance = new MarketUniverse(config);
+  return universeInstance;
+};
+
+export const getMarketUniverse = (): MarketUniverse => {
+  if (!universeInstance) {
+    universeInstance = new MarketUniverse();
+  }
+  return universeInstance;
+};
@@ -1,5 +1,6 @@
 // Notification Service - Telegram & Discord alerts
-import type { Trade, BettingOpportunity, AgentState } from '@/types/polymarket';
+import type { Trade, BettingOpportunity, BreakerLevel, StateSummary } from '@/types/polymarket';
+import type { EventBus } from './event-bus';
 
 interface NotificationConfig {
   telegramBotToken?: string;
@@ -133,7 +134,7 @@ ${emoji} <b>Trade ${trade.status}</b>
 
 📊 <b>Market:</b> ${opportunity.market.question.slice(0, 50)}...
 📈 <b>Strategy:</b> ${opportunity.strategy}
-🎲 <b>Bet:</b> ${opportunity.recommendedBet}
+🎲 <b>Bet:</b> ${opportunity.recommendedBet} (buys ${opportunity.outcome.name})
 💹 <b>Price:</b> ${(opportunity.outcome.price * 100).toFixed(1)}%
 📊 <b>Confidence:</b> ${(opportunity.confidence * 100).toFixed(1)}%
 💰 <b>Expected Value:</b> +${(opportunity.expectedValue * 100).toFixed(1)}%
@@ -142,32 +143,41 @@ ${emoji} <b>Trade ${trade.status}</b>
     await this.broadcast(message);
   }
 
-  // Notify on safety stop
-  async notifySafetyStop(reason: string, state: AgentState): Promise<void> {
+  // Notify when the circuit breaker shrinks, pauses or resumes entries
+  async notifyCircuitBreaker(from: BreakerLevel, to: BreakerLevel, reason: string, summary: StateSummary, resumeAt?: number): Promise<void> {
     if (!this.config.notifyOnSafetyStop) return;
 
+    const heading = {
+      PAUSED: { emoji: '🚨', title: 'Entries Paused', color: 0xff0000 },
+      REDUCED: { emoji: '⚠️', title: 'Bet Sizes Reduced', color: 0xffa500 },
+      NORMAL: { emoji: '✅', title: 'Full Size Trading Resumed', color: 0x00ff00 },
+    }[to];
+    const outlook = to === 'PAUSED'
+      ? `Exits and price updates keep running. ${resumeAt ? `Retrying at ${new Date(resumeAt).toLocaleString()} or on the next trading day.` : 'Resuming on the next trading day.'}`
+      : `Was ${from}.`;
+
     const message = `
-🚨 <b>SAFETY STOP TRIGGERED</b>
+${heading.emoji} <b>${heading.title.toUpperCase()}</b>
 
 ⚠️ <b>Reason:</b> ${reason}
 
 📊 <b>Current Status:</b>
-💰 Bankroll: $${state.bankroll.toFixed(2)}
-📉 Today's P&L: $${state.todayPnL.toFixed(2)}
-📈 Total P&L: $${state.totalPnL.toFixed(2)}
-📋 Open Positions: ${state.positions.length}
+💰 Equity: $${summary.equity.toFixed(2)}
+📉 Today's P&L: $${summary.todayPnL.toFixed(2)}
+📈 Total P&L: $${summary.totalPnL.toFixed(2)}
+📋 Open Positions: ${summary.positions}
 
-🤖 Agent has been stopped automatically.
+🤖 ${outlook}
     `.trim();
 
     const discordEmbed = {
-      title: '🚨 Safety Stop Triggered',
-      color: 0xff0000,
-      description: reason,
+      title: `${heading.emoji} ${heading.title}`,
+      color: heading.color,
+      description: `${reason}\n${outlook}`,
       fields: [
-        { name: 'Bankroll', value: `$${state.bankroll.toFixed(2)}`, inline: true },
-        { name: "Today's P&L", value: `$${state.todayPnL.toFixed(2)}`, inline: true },
-        { name: 'Open Positions', value: state.positions.length.toString(), inline: true },
+        { name: 'Equity', value: `$${summary.equity.toFixed(2)}`, inline: true },
+        { name: "Today's P&L", value: `$${summary.todayPnL.toFixed(2)}`, inline: true },
+        { name: 'Open Positions', value: summary.positions.toString(), inline: true },
       ],
       timestamp: new Date().toISOString(),
     };
@@ -176,24 +186,23 @@ ${emoji} <b>Trade ${trade.status}</b>
   }
 
   // Daily summary notification
-  async notifyDailySummary(state: AgentState): Promise<void> {
+  async notifyDailySummary(summary: StateSummary): Promise<void> {
     if (!this.config.notifyOnDailySummary) return;
 
-    const winningTrades = state.trades.filter(t => t.status === 'FILLED').length;
-    const totalTrades = state.trades.length;
-    const winRate = totalTrades > 0 ? (winningTrades / totalTrades * 100).toFixed(1) : '0';
+    const winRate = summary.trades > 0 ? (summary.filledTrades / summary.trades * 100).toFixed(1) : '0';
 
     const message = `
 📊 <b>Daily Summary</b>
 
-💰 <b>Bankroll:</b> $${state.bankroll.toFixed(2)}
-📈 <b>Today's P&L:</b> ${state.todayPnL >= 0 ? '+' : ''}$${state.todayPnL.toFixed(2)}
-📊 <b>Total P&L:</b> ${state.totalPnL >= 0 ? '+' : ''}$${state.totalPnL.toFixed(2)}
+💰 <b>Equity:</b> $${summary.equity.toFixed(2)}
+💵 <b>Cash:</b> $${summary.bankroll.toFixed(2)}
+📈 <b>Today's P&L:</b> ${summary.todayPnL >= 0 ? '+' : ''}$${summary.todayPnL.toFixed(2)}
+📊 <b>Total P&L:</b> ${summary.totalPnL >= 0 ? '+' : ''}$${summary.totalPnL.toFixed(2)}
 
-📋 <b>Trades Today:</b> ${totalTrades}
-✅ <b>Win Rate:</b> ${winRate}%
-🎯 <b>Open Positions:</b> ${state.positions.length}
-💡 <b>Opportunities Found:</b> ${state.opportunities.length}
+📋 <b>Trades:</b> ${summary.trades}
+✅ <b>Filled:</b> ${winRate}%
+🎯 <b>Open Positions:</b> ${summary.positions}
+🛡️ <b>Circuit Breaker:</b> ${summary.breaker}
     `.trim();
 
     await this.broadcast(message);
@@ -222,6 +231,17 @@ ${emoji} <b>Trade ${trade.status}</b>
     await this.broadcast(message);
   }
 
+  // Send trade, settlement, safety and daily summary alerts as the agent reports them
+  attach(bus: EventBus): () => void {
+    const subscriptions = [
+      bus.on('OrderFinished', event => this.notifyTrade(event.trade)),
+      bus.on('PositionSettled', event => this.notifyTrade(event.trade)),
+      bus.on('CircuitBreakerChanged', event => this.notifyCircuitBreaker(event.from, event.to, event.reason, event.summary, event.resumeAt)),
+      bus.on('DailySummary', event => this.notifyDailySummary(event.summary)),
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+
   // Update config
   updateConfig(newConfig: Partial<NotificationConfig>): void {
     this.config = { ...this.config, ...newConfig };
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { BettingOpportunity, Trade } from '@/types/polymarket';
+import { OpportunityMemory } from './opportunity-memory';
+
+const MIN = 60_000;
+
+const opportunity = (price: number, outcomeId = 'yes-token'): BettingOpportunity => ({
+  market: { id: 'm1', question: 'Q?', slug: 'q', endDate: '', liquidity: 5000, volume: 1, outcomes: [], active: true },
+  outcome: { id: outcomeId, name: 'Yes', price },
+  recommendedBet: 'YES',
+  confidence: 0.8,
+  expectedValue: 0.1,
+  reasoning: '',
+  strategy: 'test',
+} as unknown as BettingOpportunity);
+
+describe('OpportunityMemory', () => {
+  const rules = { cooldownMs: 30 * MIN, minPriceImprovement: 0.02, maxAdds: 1 };
+
+  it('allows markets it has not acted on', () => {
+    expect(new OpportunityMemory(rules).check(opportunity(0.4), 0, false).allowed).toBe(true);
+  });
+
+  it('holds a market for the cooldown, even after the position closed', () => {
+    const memory = new OpportunityMemory(rules);
+    memory.remember(opportunity(0.4), 0, false);
+
+    const early = memory.check(opportunity(0.3), 10 * MIN, false);
+    expect(early.allowed).toBe(false);
+    expect(early.reason).toMatch(/Cooldown/);
+    expect(memory.check(opportunity(0.3), 31 * MIN, false).allowed).toBe(true);
+  });
+
+  it('adds to a held position only at a better price and up to maxAdds', () => {
+    const memory = new OpportunityMemory(rules);
+    memory.remember(opportunity(0.40), 0, false);
+
+    expect(memory.check(opportunity(0.39), 40 * MIN, true).allowed).toBe(false);
+    expect(memory.check(opportunity(0.37), 40 * MIN, true).allowed).toBe(true);
+
+    memory.remember(opportunity(0.37), 40 * MIN, true);
+    const third = memory.check(opportunity(0.20), 80 * MIN, true);
+    expect(third.allowed).toBe(false);
+    expect(third.reason).toMatch(/max 1/);
+  });
+
+  it('starts over once the market is no longer held', () => {
+    const memory = new OpportunityMemory(rules);
+    memory.remember(opportunity(0.40), 0, false);
+    memory.remember(opportunity(0.35), 40 * MIN, true);
+    memory.remember(opportunity(0.50), 80 * MIN, false);
+
+    expect(memory.entries('m1')).toHaveLength(1);
+  });
+
+  it('rebuilds entries from filled buys in the trade log', () => {
+    const trade = (id: string, at: number, status: Trade['status'], side: Trade['side'] = 'BUY', filledShares = status === 'FILLED' ? 10 : 0): Trade => ({
+      id,
+      marketId: 'm1',
+      tokenId: 'yes-token',
+      marketQuestion: 'Q?',
+      outcome: 'Yes',
+      side,
+      price: 0.4,
+      shares: 10,
+      total: 4,
+      timestamp: new Date(at),
+      status,
+      filledShares,
+    } as Trade);
+
+    const memory = new OpportunityMemory(rules);
+    memory.restore([
+      trade('b', 2 * MIN, 'FILLED'),
+      trade('a', 1 * MIN, 'FILLED'),
+      trade('c', 3 * MIN, 'FAILED'),
+      trade('d', 4 * MIN, 'FILLED', 'SELL'),
+      trade('e', 5 * MIN, 'CANCELLED'),
+      trade('f', 6 * MIN, 'CANCELLED', 'BUY', 4),
+    ]);
+
+    expect(memory.entries('m1').map(e => e.at)).toEqual([1 * MIN, 2 * MIN, 6 * MIN]);
+  });
+});
@@ -0,0 +1,130 @@
+// Opportunity Memory - What the agent already bet, and when it may bet the same market again
+import type { BettingOpportunity, ReEntryRules, Trade } from '@/types/polymarket';
+
+// One entry the agent acted on
+export interface ActedOpportunity {
+  marketId: string;
+  tokenId: string;      // Outcome bought; the basket key for baskets
+  side: 'BUY' | 'SELL';
+  price: number;        // Cost per share (per set for baskets); lower is better
+  at: number;
+  strategy?: string;
+}
+
+export interface ReEntryCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+// Baskets are remembered under their legs so the same set is recognised again
+const tokenKey = (opportunity: BettingOpportunity): string =>
+  opportunity.legs
+    ? `basket:${opportunity.legs.map(l => `${l.outcome.id}:${l.side}`).join(',')}`
+    : opportunity.outcome.id;
+
+// Buying a set costs the leg prices; selling one pays them, so negate to keep "lower is better"
+const entryPrice = (opportunity: BettingOpportunity): number => {
+  if (!opportunity.legs) return opportunity.outcome.price;
+  const cost = opportunity.legs.reduce((sum, l) => sum + l.price, 0);
+  return opportunity.legs[0]?.side === 'SELL' ? -cost : cost;
+};
+
+export class OpportunityMemory {
+  private rules: ReEntryRules;
+  private byMarket = new Map<string, ActedOpportunity[]>();
+
+  constructor(rules: Partial<ReEntryRules> = {}) {
+    this.rules = { ...DEFAULT_REENTRY_RULES, ...rules };
+  }
+
+  // Remember an entry. A market we no longer hold starts a fresh list.
+  remember(opportunity: BettingOpportunity, now: number, held: boolean): void {
+    const entry: ActedOpportunity = {
+      marketId: opportunity.market.id,
+      tokenId: tokenKey(opportunity),
+      side: opportunity.legs?.[0]?.side ?? 'BUY',
+      price: entryPrice(opportunity),
+      at: now,
+      strategy: opportunity.strategy,
+    };
+    const previous = held ? this.byMarket.get(entry.marketId) ?? [] : [];
+    this.byMarket.set(entry.marketId, [...previous, entry]);
+  }
+
+  // `held` = the agent still has a position or a working order in the market.
+  // The cooldown always applies; adds and price improvement only while held.
+  check(opportunity: BettingOpportunity, now: number, held: boolean): ReEntryCheck {
+    const entries = this.byMarket.get(opportunity.market.id);
+    if (!entries?.length) return { allowed: true };
+
+    const last = entries[entries.length - 1];
+    const waited = now - last.at;
+    if (waited < this.rules.cooldownMs) {
+      const minutes = Math.ceil((this.rules.cooldownMs - waited) / 60000);
+      return { allowed: false, reason: `Cooldown: entered this market ${Math.floor(waited / 60000)}m ago, ${minutes}m left` };
+    }
+
+    if (!held) return { allowed: true };
+
+    const adds = entries.length - 1;
+    if (adds >= this.rules.maxAdds) {
+      return { allowed: false, reason: `Already added ${adds} time(s) to this market (max ${this.rules.maxAdds})` };
+    }
+
+    const key = tokenKey(opportunity);
+    const sameBet = entries.filter(e => e.tokenId === key);
+    if (sameBet.length > 0) {
+      const best = Math.min(...sameBet.map(e => e.price));
+      const price = entryPrice(opportunity);
+      if (price > best - this.rules.minPriceImprovement) {
+        return {
+          allowed: false,
+          reason: `Price ${(price * 100).toFixed(1)}% is not ${(this.rules.minPriceImprovement * 100).toFixed(1)} pts better than the ${(best * 100).toFixed(1)}% entry`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  // Rebuild from the buys that filled, at least in part, after a restart. Basket legs
+  // come back as single buys, so for baskets only the cooldown and the add count carry over.
+  restore(trades: Trade[]): void {
+    this.byMarket.clear();
+    const entries = trades
+      .filter(t => t.side === 'BUY' && (t.filledShares ?? 0) > 0 && t.tokenId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    for (const trade of entries) {
+      const list = this.byMarket.get(trade.marketId) ?? [];
+      list.push({
+        marketId: trade.marketId,
+        tokenId: trade.tokenId as string,
+        side: 'BUY',
+        price: trade.price,
+        at: trade.timestamp.getTime(),
+        strategy: trade.strategy,
+      });
+      this.byMarket.set(trade.marketId, list);
+    }
+  }
+
+  entries(marketId?: string): ActedOpportunity[] {
+    if (marketId) return [...(this.byMarket.get(marketId) ?? [])];
+    return Array.from(this.byMarket.values()).flat();
+  }
+
+  updateRules(rules: Partial<ReEntryRules>): void {
+    this.rules = { ...this.rules, ...rules };
+  }
+
+  getRules(): ReEntryRules {
+    return { ...this.rules };
+  }
+}
+
+export const DEFAULT_REENTRY_RULES: ReEntryRules = {
+  cooldownMs: 30 * 60 * 1000, // Half an hour between entries in one market
+  minPriceImprovement: 0.02,  // Add only 2 points cheaper than before
+  maxAdds: 1,                 // One add on top of the first entry
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { id, TypedDataEncoder, verifyTypedData } from 'ethers';
+import { ORDER_TYPES, OrderBuilder, type OrderParams } from './order-builder';
+import { SeededRandom } from './clock';
+
+// Well-known development key (Hardhat account #0), never funded on Polygon
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+// ORDER_TYPEHASH from the CTF Exchange contract (OrderStructs.sol)
+const ORDER_TYPEHASH = '0xa852566c4e14d00869b6db0220888a9090a13eccdaea03713ff0a3d27bf9767c';
+
+// Reference vectors: @polymarket/order-utils 2.1.0 (ExchangeOrderBuilder.buildOrderHash and
+// buildOrderSignature) for this key, the fixture YES token of market 501101 and a fixed salt
+const TOKEN_ID = '71321045679252212594626385532706912750332728571942532289631379312455583992563';
+const PARAMS: OrderParams = { tokenId: TOKEN_ID, side: 'BUY', price: 0.5, size: 100, salt: '479249096354' };
+const REFERENCE = [
+  {
+    params: PARAMS,
+    amounts: { makerAmount: '50000000', takerAmount: '100000000', side: 0 },
+    hash: '0x2d4e37d43ce67ac26fd34fbded7ac34fdcba1b2aff632aac52b36483f1d5eeb8',
+    signature:
+      '0x4e4a18de9ac827f073445bb64331b74a5f57feed1b86424cfaa61db51ae0c0de' +
+      '291110ad3c3541ac576a93bfd35adca6f9e4861ce3d46123e56eeadf3e55fd0c1c',
+  },
+  {
+    params: { ...PARAMS, side: 'SELL', price: 0.63, size: 50, negRisk: true } as OrderParams,
+    amounts: { makerAmount: '50000000', takerAmount: '31500000', side: 1 },
+    hash: '0x1f6edf1b3864d34641c1c52404ba25efbdff826b4be774a022a36b7885c952f2',
+    signature:
+      '0xd6528a1f5737b6e3e81aa34bdf78648405274d4817cf9173233d0ff82b8bac8a' +
+      '503bcbd52e989aa646cb65fa84bef19b966aeaa8d95d333e543aceecb13620d81b',
+  },
+];
+
+describe('OrderBuilder', () => {
+  it('hashes orders with the exchange contract type', () => {
+    expect(id(TypedDataEncoder.from(ORDER_TYPES).encodeType('Order'))).toBe(ORDER_TYPEHASH);
+  });
+
+  it.each(REFERENCE)('matches the reference hash and signature for a $params.side order', async ({ params, amounts, hash, signature }) => {
+    const builder = new OrderBuilder({ privateKey: PRIVATE_KEY });
+    const order = await builder.createSignedOrder(params);
+    const { signature: signed, ...unsigned } = order;
+
+    expect(order).toMatchObject({ maker: ADDRESS, signer: ADDRESS, signatureType: 0, ...amounts });
+    expect(TypedDataEncoder.hash(builder.getDomain(params.negRisk), ORDER_TYPES, unsigned)).toBe(hash);
+    expect(signed).toBe(signature);
+    expect(verifyTypedData(builder.getDomain(params.negRisk), ORDER_TYPES, unsigned, signed)).toBe(ADDRESS);
+  });
+
+  it('draws salts from the injected random source', () => {
+    const salt = (seed: number) =>
+      new OrderBuilder({ privateKey: PRIVATE_KEY, random: new SeededRandom(seed) })
+        .buildOrder({ ...PARAMS, salt: undefined }).salt;
+
+    expect(salt(7)).toBe(salt(7));
+    expect(salt(7)).not.toBe(salt(8));
+    expect(Number(salt(7))).toBeLessThan(2 ** 48);
+  });
+});
@@ -0,0 +1,220 @@
+// Order Builder - Polymarket CTF Exchange orders signed with EIP-712
+import { Wallet, getAddress, hexlify, randomBytes, ZeroAddress } from 'ethers';
+import type { Random } from './clock';
+
+// Polygon mainnet
+export const POLYGON_CHAIN_ID = 137;
+export const CTF_EXCHANGE_ADDRESS = '0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E';
+export const NEG_RISK_CTF_EXCHANGE_ADDRESS = '0xC5d563A36AE78145C45a50134d48A1215220f80a';
+
+// USDC and conditional tokens both use 6 decimals on-chain
+const TOKEN_DECIMALS = 6;
+
+export enum SignatureType {
+  EOA = 0,
+  POLY_PROXY = 1,
+  POLY_GNOSIS_SAFE = 2,
+}
+
+export const ORDER_TYPES = {
+  Order: [
+    { name: 'salt', type: 'uint256' },
+    { name: 'maker', type: 'address' },
+    { name: 'signer', type: 'address' },
+    { name: 'taker', type: 'address' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'makerAmount', type: 'uint256' },
+    { name: 'takerAmount', type: 'uint256' },
+    { name: 'expiration', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'feeRateBps', type: 'uint256' },
+    { name: 'side', type: 'uint8' },
+    { name: 'signatureType', type: 'uint8' },
+  ],
+};
+
+// Side as encoded on-chain
+const SIDE_CODE = { BUY: 0, SELL: 1 } as const;
+
+export interface OrderBuilderConfig {
+  privateKey: string;
+  funderAddress?: string; // Proxy/Safe holding funds; defaults to the signer (EOA)
+  signatureType?: SignatureType;
+  chainId?: number;
+  random?: Random;        // Salt source for reproducible runs; defaults to the crypto RNG
+}
+
+export interface OrderParams {
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  price: number;          // Limit price per share, 0-1
+  size: number;           // Shares
+  tickSize?: number;      // Defaults to 0.01
+  feeRateBps?: number;
+  nonce?: number;
+  expiration?: number;    // Unix seconds, 0 = no expiry (GTC)
+  taker?: string;
+  negRisk?: boolean;      // Routes to the NegRisk exchange contract
+  salt?: string;          // Injected for reproducible signatures
+}
+
+// Unsigned order as hashed by the exchange (amounts in base units)
+export interface UnsignedOrder {
+  salt: string;
+  maker: string;
+  signer: string;
+  taker: string;
+  tokenId: string;
+  makerAmount: string;
+  takerAmount: string;
+  expiration: string;
+  nonce: string;
+  feeRateBps: string;
+  side: number;
+  signatureType: number;
+}
+
+export interface SignedOrder extends UnsignedOrder {
+  signature: string;
+}
+
+// Round down to `decimals` places without floating point drift
+const roundDown = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.floor(Number((value * factor).toFixed(6))) / factor;
+};
+
+const roundNormal = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const decimalsOf = (tick: number): number => {
+  const text = tick.toString();
+  return text.includes('.') ? text.split('.')[1].length : 0;
+};
+
+// Decimal amount -> 6-decimal base units as a string
+const toBaseUnits = (amount: number): string =>
+  BigInt(Math.round(amount * 10 ** TOKEN_DECIMALS)).toString();
+
+export class OrderBuilder {
+  private wallet: Wallet;
+  private funderAddress: string;
+  private signatureType: SignatureType;
+  private chainId: number;
+  private random?: Random;
+
+  constructor(config: OrderBuilderConfig) {
+    this.random = config.random;
+    this.wallet = new Wallet(config.privateKey);
+    this.signatureType = config.signatureType ?? SignatureType.EOA;
+    this.chainId = config.chainId ?? POLYGON_CHAIN_ID;
+    this.funderAddress = getAddress(config.funderAddress || this.wallet.address);
+
+    // An EOA signs for itself; a different funder requires a proxy/safe signature type
+    if (this.signatureType === SignatureType.EOA && this.funderAddress !== this.wallet.address) {
+      throw new Error(
+        `Wallet address ${this.funderAddress} does not match the signing key (${this.wallet.address}). ` +
+        'Use a proxy or Safe signature type for a separate funder.'
+      );
+    }
+  }
+
+  getSignerAddress(): string {
+    return this.wallet.address;
+  }
+
+  getMakerAddress(): string {
+    return this.funderAddress;
+  }
+
+  // Convert price/size into maker/taker amounts, rounded like the CLOB expects
+  calculateAmounts(side: 'BUY' | 'SELL', price: number, size: number, tickSize = 0.01): {
+    makerAmount: string;
+    takerAmount: string;
+  } {
+    const priceDecimals = decimalsOf(tickSize);
+    const amountDecimals = priceDecimals + 2;
+    const roundedPrice = roundNormal(price, priceDecimals);
+    const shares = roundDown(size, 2);
+
+    if (roundedPrice <= 0 || roundedPrice >= 1) {
+      throw new Error(`Price ${price} is outside the valid range for tick ${tickSize}`);
+    }
+    if (shares <= 0) {
+      throw new Error(`Size ${size} rounds to zero shares`);
+    }
+
+    const notional = roundDown(shares * roundedPrice, amountDecimals);
+
+    // BUY: give USDC, receive shares. SELL: give shares, receive USDC.
+    return side === 'BUY'
+      ? { makerAmount: toBaseUnits(notional), takerAmount: toBaseUnits(shares) }
+      : { makerAmount: toBaseUnits(shares), takerAmount: toBaseUnits(notional) };
+  }
+
+  buildOrder(params: OrderParams): UnsignedOrder {
+    const { makerAmount, takerAmount } = this.calculateAmounts(
+      params.side,
+      params.price,
+      params.size,
+      params.tickSize
+    );
+
+    return {
+      salt: params.salt ?? this.generateSalt(),
+      maker: this.funderAddress,
+      signer: this.wallet.address,
+      taker: params.taker ? getAddress(params.taker) : ZeroAddress,
+      tokenId: BigInt(params.tokenId).toString(),
+      makerAmount,
+      takerAmount,
+      expiration: String(params.expiration ?? 0),
+      nonce: String(params.nonce ?? 0),
+      feeRateBps: String(params.feeRateBps ?? 0),
+      side: SIDE_CODE[params.side],
+      signatureType: this.signatureType,
+    };
+  }
+
+  // EIP-712 domain for the exchange contract that will settle the order
+  getDomain(negRisk = false) {
+    return {
+      name: 'Polymarket CTF Exchange',
+      version: '1',
+      chainId: this.chainId,
+      verifyingContract: negRisk ? NEG_RISK_CTF_EXCHANGE_ADDRESS : CTF_EXCHANGE_ADDRESS,
+    };
+  }
+
+  async signOrder(order: UnsignedOrder, negRisk = false): Promise<SignedOrder> {
+    const signature = await this.wallet.signTypedData(this.getDomain(negRisk), ORDER_TYPES, order);
+    return { ...order, signature };
+  }
+
+  async createSignedOrder(params: OrderParams): Promise<SignedOrder> {
+    return this.signOrder(this.buildOrder(params), params.negRisk);
+  }
+
+  // Random 48-bit salt (fits a JS number, as the CLOB serializes it)
+  private generateSalt(): string {
+    if (this.random) return String(Math.floor(this.random.next() * 2 ** 48));
+    return BigInt(hexlify(randomBytes(6))).toString();
+  }
+}
+
+// Shape of POST /order
+export const toOrderPayload = (
+  order: SignedOrder,
+  owner: string,
+  orderType: 'GTC' | 'FOK' | 'GTD' = 'GTC'
+) => ({
+  order: {
+    ...order,
+    salt: Number(order.salt),
+    side: order.side === SIDE_CODE.BUY ? 'BUY' : 'SELL',
+  },
+  owner,
+  orderType,
+});
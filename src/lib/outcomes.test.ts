@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { Market, Outcome } from '@/types/polymarket';
+import { complementOutcome, primaryOutcome, resolveBetOutcome } from './outcomes';
+
+const market = (...names: string[]): Market => ({
+  id: 'm1',
+  question: 'Who wins?',
+  slug: 'who-wins',
+  endDate: '',
+  liquidity: 5000,
+  volume: 100,
+  outcomes: names.map(name => ({ id: `tok-${name.toLowerCase()}`, name, price: 1 / names.length })),
+  active: true,
+});
+
+const outcome = (m: Market, name: string): Outcome => m.outcomes.find(o => o.name === name)!;
+
+describe('outcomes', () => {
+  it('treats "Yes" as the primary outcome wherever it is listed', () => {
+    expect(primaryOutcome(market('No', 'Yes'))?.id).toBe('tok-yes');
+    expect(primaryOutcome(market('Lakers', 'Celtics'))?.id).toBe('tok-lakers');
+    expect(primaryOutcome(market())).toBeUndefined();
+  });
+
+  it('buys the outcome on YES and its complement on NO', () => {
+    const binary = market('Yes', 'No');
+    expect(resolveBetOutcome(binary, outcome(binary, 'Yes'), 'YES')?.id).toBe('tok-yes');
+    expect(resolveBetOutcome(binary, outcome(binary, 'Yes'), 'NO')?.id).toBe('tok-no');
+    expect(resolveBetOutcome(binary, outcome(binary, 'No'), 'NO')?.id).toBe('tok-yes');
+
+    const named = market('Lakers', 'Celtics');
+    expect(resolveBetOutcome(named, outcome(named, 'Celtics'), 'NO')?.id).toBe('tok-lakers');
+  });
+
+  it('has no complement to buy when a market has more than two outcomes', () => {
+    const race = market('Alice', 'Ben', 'Cara');
+    expect(complementOutcome(race, outcome(race, 'Ben'))).toBeNull();
+    expect(resolveBetOutcome(race, outcome(race, 'Ben'), 'NO')).toBeNull();
+    expect(resolveBetOutcome(race, outcome(race, 'Ben'), 'YES')?.id).toBe('tok-ben');
+  });
+});
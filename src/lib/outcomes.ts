@@ -0,0 +1,23 @@
+// Outcome Routing - Which outcome token a YES/NO call actually buys
+import type { Market, Outcome } from '@/types/polymarket';
+
+// The outcome a market's question is about: "Yes", or the first listed outcome
+export const primaryOutcome = (market: Market): Outcome | undefined =>
+  market.outcomes.find(o => o.name.toLowerCase() === 'yes') ?? market.outcomes[0];
+
+// The other side of a binary market: "No" for "Yes", otherwise the other named outcome
+export const complementOutcome = (market: Market, outcome: Outcome): Outcome | null => {
+  const name = outcome.name.toLowerCase();
+  if (name === 'yes' || name === 'no') {
+    const opposite = market.outcomes.find(o => o.name.toLowerCase() === (name === 'yes' ? 'no' : 'yes'));
+    if (opposite) return opposite;
+  }
+
+  const others = market.outcomes.filter(o => o.id !== outcome.id);
+  return others.length === 1 ? others[0] : null;
+};
+
+// YES on an outcome buys that outcome; NO buys its complement.
+// Null when NO has no single token to buy (more than two outcomes).
+export const resolveBetOutcome = (market: Market, outcome: Outcome, bet: 'YES' | 'NO'): Outcome | null =>
+  bet === 'YES' ? outcome : complementOutcome(market, outcome);
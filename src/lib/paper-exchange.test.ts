@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { OrderBook } from '@/types/polymarket';
+import { VirtualClock } from './clock';
+import { PaperExchange } from './paper-exchange';
+
+const book = (asks: [number, number][], bids: [number, number][] = [], timestamp = 1): OrderBook => ({
+  tokenId: 't1',
+  asks: asks.map(([price, size]) => ({ price, size })),
+  bids: bids.map(([price, size]) => ({ price, size })),
+  timestamp,
+});
+
+// An exchange whose book the test swaps out between calls
+function exchange(initial: OrderBook | null, held = Infinity) {
+  let current = initial;
+  const paper = new PaperExchange(async () => current, new VirtualClock(0), () => held);
+  return { paper, setBook: (next: OrderBook | null) => { current = next; } };
+}
+
+describe('PaperExchange', () => {
+  it('walks the asks up to the limit and averages the fill', async () => {
+    const { paper } = exchange(book([[0.40, 10], [0.42, 10], [0.50, 100]]));
+    const placed = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 15, price: 0.45, orderType: 'FOK' });
+
+    expect(placed.success).toBe(true);
+    const order = await paper.getOrder(placed.orderId!);
+    expect(order?.status).toBe('MATCHED');
+    expect(order?.sizeMatched).toBeCloseTo(15);
+    expect(order?.avgPrice).toBeCloseTo((10 * 0.40 + 5 * 0.42) / 15);
+  });
+
+  it('kills a FOK order the book cannot fill', async () => {
+    const { paper } = exchange(book([[0.40, 5]]));
+    const placed = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 10, price: 0.40, orderType: 'FOK' });
+
+    expect(placed.success).toBe(false);
+    expect(placed.error).toMatch(/FOK killed/);
+  });
+
+  it('rests the rest of a GTC order and fills it at the limit once the book crosses', async () => {
+    const { paper, setBook } = exchange(book([[0.40, 5], [0.60, 50]]));
+    const placed = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 10, price: 0.45, orderType: 'GTC' });
+
+    let order = await paper.getOrder(placed.orderId!);
+    expect(order?.status).toBe('LIVE');
+    expect(order?.sizeMatched).toBeCloseTo(5);
+
+    setBook(book([[0.44, 20]], [], 2));
+    order = await paper.getOrder(placed.orderId!);
+    expect(order?.status).toBe('MATCHED');
+    expect(order?.avgPrice).toBeCloseTo((5 * 0.40 + 5 * 0.45) / 10);
+  });
+
+  it('does not take the same asks twice while they are unchanged', async () => {
+    const { paper } = exchange(book([[0.40, 5]]));
+    const placed = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 10, price: 0.40, orderType: 'GTC' });
+
+    const order = await paper.getOrder(placed.orderId!);
+    expect(order?.sizeMatched).toBeCloseTo(5);
+    expect(order?.status).toBe('LIVE');
+  });
+
+  it('takes the same asks again from a newer snapshot', async () => {
+    const { paper, setBook } = exchange(book([[0.40, 5]]));
+    const placed = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 10, price: 0.40, orderType: 'GTC' });
+
+    setBook(book([[0.40, 5]], [], 2));
+    const order = await paper.getOrder(placed.orderId!);
+    expect(order?.sizeMatched).toBeCloseTo(10);
+    expect(order?.status).toBe('MATCHED');
+  });
+
+  it('shares consumed liquidity between orders on the same token until a newer book', async () => {
+    const { paper, setBook } = exchange(book([[0.40, 5], [0.42, 5]]));
+    const first = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 4, price: 0.42, orderType: 'FOK' });
+    expect(first.success).toBe(true);
+
+    // The first order took 4 of the 0.40 asks; only 1 + 5 remain in this snapshot
+    expect((await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 7, price: 0.42, orderType: 'FOK' })).error).toMatch(/only 6\.00/);
+    const second = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 6, price: 0.42, orderType: 'FOK' });
+    expect((await paper.getOrder(second.orderId!))?.avgPrice).toBeCloseTo((1 * 0.40 + 5 * 0.42) / 6);
+
+    setBook(book([[0.40, 5], [0.42, 5]], [], 0)); // An older snapshot frees nothing
+    expect((await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 1, price: 0.42, orderType: 'FOK' })).success).toBe(false);
+
+    setBook(book([[0.40, 5], [0.42, 5]], [], 2));
+    expect((await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 10, price: 0.42, orderType: 'FOK' })).success).toBe(true);
+  });
+
+  it('never sells more than is held and not already offered', async () => {
+    const { paper } = exchange(book([], [[0.50, 100]]), 10);
+
+    expect((await paper.placeOrder({ tokenId: 't1', side: 'SELL', size: 12, price: 0.50 })).error).toMatch(/Not enough shares/);
+    expect((await paper.placeOrder({ tokenId: 't1', side: 'SELL', size: 6, price: 0.60, orderType: 'GTC' })).success).toBe(true);
+    expect((await paper.placeOrder({ tokenId: 't1', side: 'SELL', size: 6, price: 0.50 })).success).toBe(false);
+    expect((await paper.placeOrder({ tokenId: 't1', side: 'SELL', size: 4, price: 0.50 })).success).toBe(true);
+  });
+
+  it('cancels resting orders', async () => {
+    const { paper } = exchange(book([[0.50, 5]]));
+    const placed = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 10, price: 0.40, orderType: 'GTC' });
+
+    expect(await paper.cancelOrder(placed.orderId!)).toEqual({ success: true });
+    expect((await paper.getOrder(placed.orderId!))?.status).toBe('CANCELED');
+    expect(paper.getOpenOrders()).toHaveLength(0);
+  });
+
+  it('fails without a book', async () => {
+    const { paper } = exchange(null);
+    const placed = await paper.placeOrder({ tokenId: 't1', side: 'BUY', size: 1, price: 0.5 });
+    expect(placed.success).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+// Paper Exchange - Simulated order venue that matches against the real order book
+//
+// Marketable size takes liquidity level by level up to the limit price. Whatever is
+// left of a GTC order rests and fills at its limit once a later book crosses it.
+// The exchange remembers the liquidity its orders took from each token's book, so no
+// two orders buy the same asks; a snapshot with a newer timestamp is fresh liquidity.
+// Sells are limited to the shares held and not already offered by other paper sells.
+import type { OpenOrder, OrderBook, PlaceOrderParams, PlaceOrderResult } from '@/types/polymarket';
+import { systemClock, type Clock } from './clock';
+
+const EPSILON = 1e-9;
+
+interface PaperOrder {
+  order: OpenOrder;
+  matchedAmount: number; // $ paid (BUY) or received (SELL) so far
+}
+
+// Shares paper orders took from one token's book
+interface ConsumedLiquidity {
+  bookTimestamp?: number;     // Snapshot `taken` refers to
+  taken: Map<string, number>; // 'asks:0.42' / 'bids:0.40' -> shares consumed there
+}
+
+interface PaperFill {
+  level: number; // Book level the shares came from
+  price: number; // Price we pay: the level as a taker, our limit as a resting maker
+  size: number;
+}
+
+export class PaperExchange {
+  private orders = new Map<string, PaperOrder>();
+  private consumed = new Map<string, ConsumedLiquidity>(); // By token
+  private seq = 0;
+
+  constructor(
+    private getBook: (tokenId: string) => Promise<OrderBook | null>,
+    private clock: Clock = systemClock,
+    private getHeldShares: (tokenId: string) => number = () => Infinity
+  ) {}
+
+  // Same contract as PolymarketAPI.placeOrder
+  async placeOrder(params: PlaceOrderParams): Promise<PlaceOrderResult> {
+    if (!(params.size > 0)) {
+      return { success: false, error: 'Order size must be positive' };
+    }
+    if (params.side === 'SELL') {
+      const free = this.getHeldShares(params.tokenId) - this.offeredShares(params.tokenId);
+      if (params.size > free + EPSILON) {
+        return { success: false, error: `Not enough shares: selling ${params.size.toFixed(2)}, ${Math.max(0, free).toFixed(2)} held and not already offered` };
+      }
+    }
+
+    const book = await this.getBook(params.tokenId);
+    if (!book) return { success: false, error: 'No order book for this token' };
+
+    // No price = marketable at the top of the book
+    let price = params.price;
+    if (price === undefined) {
+      const top = params.side === 'BUY' ? book.asks[0] : book.bids[0];
+      if (!top) return { success: false, error: 'No order book to price a market order' };
+      price = top.price;
+    }
+    const orderType = params.orderType ?? (params.price === undefined ? 'FOK' : 'GTC');
+
+    const paper: PaperOrder = {
+      order: {
+        id: `paper-${this.clock.now()}-${++this.seq}`,
+        tokenId: params.tokenId,
+        side: params.side,
+        price,
+        originalSize: params.size,
+        sizeMatched: 0,
+        status: 'LIVE',
+        createdAt: this.clock.now(),
+      },
+      matchedAmount: 0,
+    };
+
+    const fills = this.match(paper, book, false);
+    const fillable = fills.reduce((sum, f) => sum + f.size, 0);
+    if (orderType === 'FOK' && fillable < params.size - EPSILON) {
+      return { success: false, error: `FOK killed: only ${fillable.toFixed(2)} of ${params.size.toFixed(2)} shares available` };
+    }
+
+    this.apply(paper, fills);
+    this.orders.set(paper.order.id, paper);
+    return { success: true, orderId: paper.order.id, status: paper.order.status };
+  }
+
+  // Re-check a resting order against the current book. Finished orders are forgotten once reported.
+  async getOrder(orderId: string): Promise<OpenOrder | null> {
+    const paper = this.orders.get(orderId);
+    if (!paper) return null;
+
+    if (paper.order.status === 'LIVE') {
+      const book = await this.getBook(paper.order.tokenId);
+      if (book) this.apply(paper, this.match(paper, book, true));
+    }
+
+    if (paper.order.status !== 'LIVE') this.orders.delete(orderId);
+    return { ...paper.order };
+  }
+
+  async cancelOrder(orderId: string): Promise<{ success: boolean; error?: string }> {
+    const paper = this.orders.get(orderId);
+    if (!paper || paper.order.status !== 'LIVE') {
+      return { success: false, error: 'Order is not open' };
+    }
+    paper.order.status = 'CANCELED';
+    return { success: true };
+  }
+
+  // Resting orders, for display and debugging
+  getOpenOrders(): OpenOrder[] {
+    return Array.from(this.orders.values())
+      .filter(p => p.order.status === 'LIVE')
+      .map(p => ({ ...p.order }));
+  }
+
+  // Unfilled shares of resting paper sells for a token
+  private offeredShares(tokenId: string): number {
+    return Array.from(this.orders.values())
+      .filter(p => p.order.status === 'LIVE' && p.order.side === 'SELL' && p.order.tokenId === tokenId)
+      .reduce((sum, p) => sum + p.order.originalSize - p.order.sizeMatched, 0);
+  }
+
+  // Liquidity on the opposite side that crosses our limit, best level first.
+  // What earlier orders took from the token's book is forgotten once a newer snapshot arrives.
+  private match(paper: PaperOrder, book: OrderBook, resting: boolean): PaperFill[] {
+    const { side, price: limit } = paper.order;
+    const consumed = this.liquidity(paper.order.tokenId);
+    if (book.timestamp !== undefined && (consumed.bookTimestamp === undefined || book.timestamp > consumed.bookTimestamp)) {
+      consumed.taken.clear();
+      consumed.bookTimestamp = book.timestamp;
+    }
+    const bookSide = side === 'BUY' ? 'asks' : 'bids';
+    const levels = book[bookSide];
+    let remaining = paper.order.originalSize - paper.order.sizeMatched;
+    const fills: PaperFill[] = [];
+
+    for (const level of levels) {
+      if (remaining <= EPSILON) break;
+      const crosses = side === 'BUY' ? level.price <= limit + EPSILON : level.price >= limit - EPSILON;
+      if (!crosses) break;
+
+      const available = level.size - (consumed.taken.get(`${bookSide}:${level.price}`) ?? 0);
+      if (available <= EPSILON) continue;
+
+      const size = Math.min(available, remaining);
+      fills.push({ level: level.price, price: resting ? limit : level.price, size });
+      remaining -= size;
+    }
+
+    return fills;
+  }
+
+  private liquidity(tokenId: string): ConsumedLiquidity {
+    let consumed = this.consumed.get(tokenId);
+    if (!consumed) {
+      consumed = { taken: new Map() };
+      this.consumed.set(tokenId, consumed);
+    }
+    return consumed;
+  }
+
+  private apply(paper: PaperOrder, fills: PaperFill[]): void {
+    const { order } = paper;
+    const { taken } = this.liquidity(order.tokenId);
+    const bookSide = order.side === 'BUY' ? 'asks' : 'bids';
+    for (const fill of fills) {
+      order.sizeMatched += fill.size;
+      paper.matchedAmount += fill.size * fill.price;
+      const key = `${bookSide}:${fill.level}`;
+      taken.set(key, (taken.get(key) ?? 0) + fill.size);
+    }
+
+    if (order.sizeMatched > 0) order.avgPrice = paper.matchedAmount / order.sizeMatched;
+    if (order.sizeMatched >= order.originalSize - EPSILON) order.status = 'MATCHED';
+  }
+}
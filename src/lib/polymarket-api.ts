@@ -1,20 +1,54 @@
 import CryptoJS from 'crypto-js';
-import type { Market, Outcome } from '@/types/polymarket';
+import { parseGammaEvent, parseGammaMarket } from './gamma-schemas';
+import { OrderBuilder, toOrderPayload, type OrderBuilderConfig } from './order-builder';
+import { errorMessage, getEventBus } from './event-bus';
+import type { MarketEvent, Market, MarketParseError, MarketsPage, OrderBook, OrderBookLevel, OpenOrder, OrderStatus, PlaceOrderParams, PlaceOrderResult, PriceHistoryInterval, PricePoint } from '@/types/polymarket';
 
 // [PENTING] Gunakan jalur Proxy yang sudah disetting di vite.config.ts
 // Jangan gunakan https://gamma-api... secara langsung di sini agar tidak kena CORS
 const GAMMA_API = '/api/gamma';
 const CLOB_API = '/api/clob';
 
+export type MarketOrder = 'volume' | 'updatedAt';
+
+export interface EventQuery {
+  ids?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+// CLOB /book payload; every field is checked before use
+interface RawBookLevel {
+  price?: unknown;
+  size?: unknown;
+}
+
+interface RawOrderBook {
+  bids?: unknown;
+  asks?: unknown;
+  timestamp?: unknown;
+}
+
+// Override the proxy paths, e.g. to point at the local mock server
+export interface ApiUrls {
+  gammaUrl?: string;
+  clobUrl?: string;
+}
+
 export class PolymarketAPI {
   private apiKey: string;
   private apiSecret: string;
   private passphrase: string;
+  private orderBuilder: OrderBuilder | null = null;
+  private gammaUrl: string;
+  private clobUrl: string;
 
-  constructor(apiKey: string = '', apiSecret: string = '', passphrase: string = '') {
+  constructor(apiKey: string = '', apiSecret: string = '', passphrase: string = '', urls: ApiUrls = {}) {
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
     this.passphrase = passphrase;
+    this.gammaUrl = urls.gammaUrl || GAMMA_API;
+    this.clobUrl = urls.clobUrl || CLOB_API;
   }
 
   // Helper: Membuat Tanda Tangan Digital (Signature) HMAC-SHA256
@@ -25,170 +59,385 @@ export class PolymarketAPI {
   }
 
   // 1. Fetch Active Markets (Dengan Debug & Proxy)
-  async getMarkets(limit = 50, offset = 0): Promise<Market[]> {
-    try {
-      console.log(`[API] Requesting markets from: ${GAMMA_API}...`);
+  async getMarkets(limit = 50, offset = 0, order: MarketOrder = 'volume'): Promise<Market[]> {
+    return (await this.getMarketsPage(limit, offset, order))?.markets ?? [];
+  }
 
+  // 1b. Fetch one page of markets. Returns null on failure so paginators can
+  // tell "request failed" apart from "no more markets". `includeClosed` also lists
+  // closed and inactive markets, so an incremental sync sees markets close.
+  async getMarketsPage(limit = 50, offset = 0, order: MarketOrder = 'volume', includeClosed = false): Promise<MarketsPage | null> {
+    try {
+      const status = includeClosed ? '' : 'closed=false&active=true&';
       const response = await fetch(
-        `${GAMMA_API}/markets?closed=false&limit=${limit}&offset=${offset}&active=true&order=volume&ascending=false`,
+        `${this.gammaUrl}/markets?${status}limit=${limit}&offset=${offset}&order=${order}&ascending=false`,
         { headers: { 'Accept': 'application/json' } }
       );
 
       if (!response.ok) {
         // Log jika server menolak request
-        console.error('[API Error]', response.status, await response.text());
-        return [];
+        this.reportError('Markets', `${response.status} ${await response.text()}`);
+        return null;
       }
 
+      // Renamed Gamma fields show up as MarketsRejected events with the failing fields
       const data = await response.json();
+      return this.transformMarkets(data);
+    } catch (error) {
+      this.reportError('Markets', errorMessage(error));
+      return null;
+    }
+  }
 
-      // [DEBUG] Tampilkan sampel data mentah ke Console
-      // Ini sangat penting untuk melihat apakah Polymarket mengubah nama kolom (misal: 'tokens' jadi 'outcomes')
-      if (Array.isArray(data) && data.length > 0) {
-        console.log('[API DEBUG] Sample Raw Data (Item 0):', data[0]);
-      } else {
-        console.log('[API DEBUG] Data returned is empty or not an array:', data);
+  // 1c. Fetch events (multi-market groups, every child market included).
+  // With ids: those events, open or not, 50 per request. Without: one page of active events.
+  async getEvents(query: EventQuery = {}): Promise<MarketEvent[]> {
+    if (!query.ids) {
+      const { limit = 50, offset = 0 } = query;
+      return this.fetchEvents(`closed=false&limit=${limit}&offset=${offset}&active=true&order=volume&ascending=false`);
+    }
+
+    const unique = Array.from(new Set(query.ids.filter(Boolean)));
+    const events: MarketEvent[] = [];
+    for (let i = 0; i < unique.length; i += 50) {
+      const ids = unique.slice(i, i + 50).map(id => `id=${encodeURIComponent(id)}`).join('&');
+      events.push(...await this.fetchEvents(`${ids}&limit=50`));
+    }
+    return events;
+  }
+
+  private async fetchEvents(query: string): Promise<MarketEvent[]> {
+    try {
+      const response = await fetch(`${this.gammaUrl}/events?${query}`, { headers: { 'Accept': 'application/json' } });
+
+      if (!response.ok) {
+        this.reportError('Events', `${response.status} ${await response.text()}`);
+        return [];
       }
 
-      return this.transformMarkets(data);
+      const data = await response.json();
+      if (!Array.isArray(data)) {
+        this.reportError('Events', 'Response is not an array');
+        return [];
+      }
+
+      const events: MarketEvent[] = [];
+      const rejected: MarketParseError[] = [];
+      data.forEach((item, index) => {
+        const result = parseGammaEvent(item, index);
+        if ('event' in result) {
+          events.push(result.event);
+          rejected.push(...result.rejected);
+        } else {
+          rejected.push(result.error);
+        }
+      });
+
+      if (rejected.length > 0) {
+        getEventBus().emit('MarketsRejected', { operation: 'Events', received: data.length, rejected });
+      }
+      return events;
     } catch (error) {
-      console.error('Failed to fetch markets:', error);
+      this.reportError('Events', errorMessage(error));
       return [];
     }
   }
 
-  // 2. Get Real-time Prices (Order Book)
-  async getPrices(tokenId: string): Promise<{ bid: number; ask: number; mid: number }> {
+  // 1d. Fetch specific markets by id, including closed/resolved ones
+  async getMarketsByIds(ids: string[]): Promise<Market[]> {
+    const unique = Array.from(new Set(ids.filter(Boolean)));
+    const markets: Market[] = [];
+
+    for (let i = 0; i < unique.length; i += 50) {
+      const query = unique.slice(i, i + 50).map(id => `id=${encodeURIComponent(id)}`).join('&');
+      try {
+        const response = await fetch(`${this.gammaUrl}/markets?${query}&limit=50`, {
+          headers: { 'Accept': 'application/json' },
+        });
+        if (!response.ok) {
+          this.reportError('Markets by id', `${response.status} ${await response.text()}`);
+          continue;
+        }
+        markets.push(...this.transformMarkets(await response.json()).markets);
+      } catch (error) {
+        this.reportError('Markets by id', errorMessage(error));
+      }
+    }
+
+    return markets;
+  }
+
+  // 2. Get Order Book (bid/ask ladders from CLOB /book)
+  async getOrderBook(tokenId: string): Promise<OrderBook | null> {
     try {
-      const response = await fetch(`${CLOB_API}/price?token_id=${tokenId}`);
-      if (!response.ok) return { bid: 0.5, ask: 0.5, mid: 0.5 };
-      const data = await response.json();
+      const response = await fetch(`${this.clobUrl}/book?token_id=${tokenId}`);
+      if (!response.ok) {
+        this.reportError(`Order book ${tokenId}`, String(response.status));
+        return null;
+      }
+      const data: RawOrderBook = await response.json();
+
       return {
-        bid: parseFloat(data.bid || '0.5'),
-        ask: parseFloat(data.ask || '0.5'),
-        mid: parseFloat(data.mid || '0.5'),
+        tokenId,
+        bids: this.parseBookLevels(data.bids).sort((a, b) => b.price - a.price),
+        asks: this.parseBookLevels(data.asks).sort((a, b) => a.price - b.price),
+        timestamp: data.timestamp ? Number(data.timestamp) : undefined,
       };
-    } catch {
-      return { bid: 0.5, ask: 0.5, mid: 0.5 };
+    } catch (error) {
+      this.reportError('Order book', errorMessage(error));
+      return null;
     }
   }
 
-  // 3. Place Order (Trading Eksekusi)
-  async placeOrder(params: {
-    tokenId: string;
-    side: 'BUY' | 'SELL';
-    size: number;
-    price?: number;
-  }): Promise<{ success: boolean; orderId?: string; error?: string }> {
-    
-    if (!this.hasCredentials()) {
-      return { success: false, error: 'API Key, Secret, & Passphrase required' };
-    }
+  // 2b. Get Real-time Prices (top of book). Returns null when the book is unavailable or one-sided.
+  async getPrices(tokenId: string): Promise<{ bid: number; ask: number; mid: number } | null> {
+    const book = await this.getOrderBook(tokenId);
+    if (!book || book.bids.length === 0 || book.asks.length === 0) return null;
 
-    const timestamp = Math.floor(Date.now() / 1000).toString();
-    const method = 'POST';
-    const path = '/order';
-    
-    const body = JSON.stringify({
-      token_id: params.tokenId,
-      side: params.side,
-      size: params.size,
-      price: params.price,
-      type: params.price ? 'LIMIT' : 'MARKET',
-    });
+    const bid = book.bids[0].price;
+    const ask = book.asks[0].price;
+    return { bid, ask, mid: (bid + ask) / 2 };
+  }
 
-    const signature = this.signRequest(timestamp, method, path, body);
+  // Helper: Authenticated CLOB request (L2 headers)
+  private async authedRequest(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    payload?: object
+  ): Promise<{ ok: boolean; data?: any; error?: string }> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = payload ? JSON.stringify(payload) : '';
+    // Query strings are not part of the signed path
+    const signature = this.signRequest(timestamp, method, path.split('?')[0], body);
 
     try {
-      const response = await fetch(`${CLOB_API}${path}`, {
-        method: 'POST',
+      const response = await fetch(`${this.clobUrl}${path}`, {
+        method,
         headers: {
           'Content-Type': 'application/json',
           'POLY_API_KEY': this.apiKey,
           'POLY_PASSPHRASE': this.passphrase,
           'POLY_TIMESTAMP': timestamp,
           'POLY_SIGNATURE': signature,
+          ...(this.orderBuilder ? { 'POLY_ADDRESS': this.orderBuilder.getSignerAddress() } : {}),
         },
-        body: body,
+        body: body || undefined,
       });
 
       if (!response.ok) {
         const errorText = await response.text();
-        return { success: false, error: `Order failed (${response.status}): ${errorText}` };
+        return { ok: false, error: `${method} ${path} failed (${response.status}): ${errorText}` };
       }
 
-      const data = await response.json();
-      return { success: true, orderId: data.orderID || data.order_id };
+      return { ok: true, data: await response.json() };
     } catch (error) {
-      return { success: false, error: String(error) };
+      return { ok: false, error: String(error) };
     }
   }
 
-  // 4. Transform Data (Parsing yang Lebih Kuat)
-  private transformMarkets(data: any[]): Market[] {
-    if (!Array.isArray(data)) {
-        console.warn('[API Warning] Received data is not an array');
+  // 2c. Historical prices for a token from CLOB /prices-history
+  // fidelity = resolution in minutes
+  async getPriceHistory(
+    tokenId: string,
+    interval: PriceHistoryInterval = '1d',
+    fidelity?: number
+  ): Promise<PricePoint[]> {
+    try {
+      const query = new URLSearchParams({ market: tokenId, interval });
+      if (fidelity) query.set('fidelity', String(fidelity));
+
+      const response = await fetch(`${this.clobUrl}/prices-history?${query.toString()}`);
+      if (!response.ok) {
+        this.reportError(`Price history ${tokenId}`, String(response.status));
         return [];
+      }
+
+      const data = await response.json();
+      const history = Array.isArray(data?.history) ? data.history : [];
+      return history
+        .map((point: any) => ({ timestamp: Number(point.t) * 1000, price: parseFloat(point.p) }))
+        .filter((point: PricePoint) => Number.isFinite(point.timestamp) && Number.isFinite(point.price));
+    } catch (error) {
+      this.reportError('Price history', errorMessage(error));
+      return [];
     }
+  }
 
-    const transformed = data.map((item: any) => {
-      const outcomes: Outcome[] = [];
+  // 3. Place Order (Trading Eksekusi)
+  async placeOrder(params: PlaceOrderParams): Promise<PlaceOrderResult> {
+    
+    if (!this.hasCredentials()) {
+      return { success: false, error: 'API Key, Secret, & Passphrase required' };
+    }
+    if (!this.orderBuilder) {
+      return { success: false, error: 'Wallet private key required to sign orders' };
+    }
 
-      try {
-        // Cek Format Baru (active, clobTokenIds)
-        if (item.tokens && Array.isArray(item.tokens)) {
-          item.tokens.forEach((token: any) => {
-            outcomes.push({
-              id: token.token_id || '',
-              name: token.outcome || 'Yes',
-              price: parseFloat(token.price || '0'),
-            });
-          });
-        } 
-        // Cek Format Lama/Alternatif (outcomePrices JSON string)
-        else if (item.outcomePrices) {
-           try {
-             const prices = JSON.parse(item.outcomePrices);
-             const names = JSON.parse(item.outcomes || '["Yes", "No"]');
-             
-             prices.forEach((price: any, idx: number) => {
-               outcomes.push({
-                 id: `${item.id}-${idx}`, // ID sementara jika token_id tidak ada
-                 name: names[idx] || `Outcome ${idx}`,
-                 price: parseFloat(price),
-               });
-             });
-           } catch (e) { 
-             console.warn('Error parsing JSON outcomes for item:', item.id); 
-           }
-        }
-      } catch (e) {
-          console.warn('Error parsing market item structure:', item.id);
-      }
+    // No price = marketable order: cross the spread and fill-or-kill
+    let price = params.price;
+    if (price === undefined) {
+      const quote = await this.getPrices(params.tokenId);
+      if (!quote) return { success: false, error: 'No order book to price a market order' };
+      price = params.side === 'BUY' ? quote.ask : quote.bid;
+    }
 
-      // Fallback Darurat: Jika outcomes kosong, buat dummy agar UI tidak crash
-      // Ini hanya agar kita bisa melihat judul market dulu di UI
-      if (outcomes.length === 0) {
-          outcomes.push({ id: 'dummy-yes', name: 'Yes', price: 0.5 }, { id: 'dummy-no', name: 'No', price: 0.5 });
-      }
+    let payload;
+    try {
+      const signed = await this.orderBuilder.createSignedOrder({
+        tokenId: params.tokenId,
+        side: params.side,
+        size: params.size,
+        price,
+        negRisk: params.negRisk,
+        tickSize: params.tickSize,
+      });
+      const orderType = params.orderType ?? (params.price === undefined ? 'FOK' : 'GTC');
+      payload = toOrderPayload(signed, this.apiKey, orderType);
+    } catch (error) {
+      return { success: false, error: `Order signing failed: ${String(error)}` };
+    }
 
-      return {
-        id: item.id || String(Math.random()),
-        question: item.question || item.title || 'Unknown Market', // Coba field 'title' juga
-        slug: item.slug || '',
-        endDate: item.endDate || '',
-        liquidity: parseFloat(item.liquidity || '0'),
-        volume: parseFloat(item.volume || '0'),
-        outcomes,
-        active: item.active !== false,
-        closed: item.closed === true,
-        category: item.category || 'General',
-        image: item.image || '',
-      };
+    const result = await this.authedRequest('POST', '/order', payload);
+
+    if (!result.ok) {
+      return { success: false, error: result.error };
+    }
+
+    const data = result.data;
+    if (data.success === false || data.errorMsg) {
+      return { success: false, error: data.errorMsg || 'Order rejected' };
+    }
+    return {
+      success: true,
+      orderId: data.orderID || data.order_id,
+      status: data.status ? this.parseOrderStatus(data.status) : undefined,
+    };
+  }
+
+  // 3b. Get a single order (status + matched size)
+  async getOrder(orderId: string): Promise<OpenOrder | null> {
+    if (!this.hasCredentials()) return null;
+
+    const result = await this.authedRequest('GET', `/data/order/${orderId}`);
+    if (!result.ok || !result.data) {
+      this.reportError(`Get order ${orderId}`, result.error || 'Empty response');
+      return null;
+    }
+    return this.transformOrder(result.data);
+  }
+
+  // 3c. List resting orders, optionally for one market or token
+  async getOpenOrders(filter: { market?: string; tokenId?: string } = {}): Promise<OpenOrder[]> {
+    if (!this.hasCredentials()) return [];
+
+    const query = new URLSearchParams();
+    if (filter.market) query.set('market', filter.market);
+    if (filter.tokenId) query.set('asset_id', filter.tokenId);
+    const qs = query.toString();
+
+    const result = await this.authedRequest('GET', `/data/orders${qs ? `?${qs}` : ''}`);
+    if (!result.ok) {
+      this.reportError('Open orders', result.error || 'Request failed');
+      return [];
+    }
+
+    const rows = Array.isArray(result.data) ? result.data : result.data?.data;
+    return (Array.isArray(rows) ? rows : []).map((o: any) => this.transformOrder(o));
+  }
+
+  // 3d. Cancel one order
+  async cancelOrder(orderId: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.hasCredentials()) {
+      return { success: false, error: 'API Key, Secret, & Passphrase required' };
+    }
+
+    const result = await this.authedRequest('DELETE', '/order', { orderID: orderId });
+    if (!result.ok) return { success: false, error: result.error };
+
+    const notCanceled = result.data?.not_canceled?.[orderId];
+    return notCanceled ? { success: false, error: String(notCanceled) } : { success: true };
+  }
+
+  // 3e. Cancel every open order on the account
+  async cancelAll(): Promise<{ success: boolean; canceled: string[]; error?: string }> {
+    if (!this.hasCredentials()) {
+      return { success: false, canceled: [], error: 'API Key, Secret, & Passphrase required' };
+    }
+
+    const result = await this.authedRequest('DELETE', '/cancel-all');
+    if (!result.ok) return { success: false, canceled: [], error: result.error };
+    return { success: true, canceled: result.data?.canceled || [] };
+  }
+
+  // Failed requests go on the event bus instead of the console
+  private reportError(operation: string, error: string): void {
+    getEventBus().emit('ApiError', { operation, error });
+  }
+
+  // Levels arrive as numeric strings; anything that isn't a finite, non-empty level is dropped
+  private parseBookLevels(levels: unknown): OrderBookLevel[] {
+    if (!Array.isArray(levels)) return [];
+    return levels
+      .map((level: RawBookLevel | null) => ({ price: parseFloat(String(level?.price)), size: parseFloat(String(level?.size)) }))
+      .filter(l => Number.isFinite(l.price) && Number.isFinite(l.size) && l.size > 0);
+  }
+
+  private transformOrder(o: any): OpenOrder {
+    return {
+      id: o.id || o.orderID || '',
+      tokenId: o.asset_id || '',
+      marketId: o.market || undefined,
+      side: String(o.side).toUpperCase() === 'SELL' ? 'SELL' : 'BUY',
+      price: parseFloat(o.price || '0'),
+      originalSize: parseFloat(o.original_size || o.size || '0'),
+      sizeMatched: parseFloat(o.size_matched || '0'),
+      status: this.parseOrderStatus(o.status),
+      createdAt: o.created_at ? Number(o.created_at) * 1000 : undefined,
+    };
+  }
+
+  private parseOrderStatus(raw: any): OrderStatus {
+    const status = String(raw || '').toUpperCase().replace(/^ORDER_STATUS_/, '');
+    switch (status) {
+      case 'MATCHED':
+        return 'MATCHED';
+      case 'CANCELED':
+      case 'CANCELLED':
+      case 'CANCELED_MARKET_RESOLVED':
+        return 'CANCELED';
+      case 'DELAYED':
+        return 'DELAYED';
+      case 'UNMATCHED':
+        return 'UNMATCHED';
+      default:
+        return 'LIVE';
+    }
+  }
+
+  // 4. Transform Data (schema-validated; rejected markets go to the page's parse report)
+  private transformMarkets(data: unknown): MarketsPage {
+    if (!Array.isArray(data)) {
+        this.reportError('Markets', 'Response is not an array');
+        return { markets: [], report: { at: new Date(), received: 0, parsed: 0, rejected: [] } };
+    }
+
+    const markets: Market[] = [];
+    const rejected: MarketParseError[] = [];
+
+    data.forEach((item, index) => {
+      const result = parseGammaMarket(item, index);
+      if ('market' in result) {
+        markets.push(result.market);
+      } else {
+        rejected.push(result.error);
+      }
     });
 
-    // Kita izinkan semua market lolos dulu untuk debugging (tidak difilter)
-    return transformed;
+    if (rejected.length > 0) {
+      getEventBus().emit('MarketsRejected', { operation: 'Markets', received: data.length, rejected });
+    }
+
+    return { markets, report: { at: new Date(), received: data.length, parsed: markets.length, rejected } };
   }
 
   // Utils
@@ -196,6 +445,15 @@ export class PolymarketAPI {
     return !!(this.apiKey && this.apiSecret && this.passphrase);
   }
 
+  // Attach the signing wallet used for EIP-712 order signatures
+  setWallet(config: OrderBuilderConfig | null): void {
+    this.orderBuilder = config ? new OrderBuilder(config) : null;
+  }
+
+  hasWallet(): boolean {
+    return !!this.orderBuilder;
+  }
+
   setCredentials(apiKey: string, apiSecret: string, passphrase: string): void {
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
@@ -206,8 +464,8 @@ export class PolymarketAPI {
 // Singleton Pattern
 let apiInstance: PolymarketAPI | null = null;
 
-export const initializeAPI = (apiKey?: string, apiSecret?: string, passphrase?: string): PolymarketAPI => {
-  apiInstance = new PolymarketAPI(apiKey || '', apiSecret || '', passphrase || '');
+export const initializeAPI = (apiKey?: string, apiSecret?: string, passphrase?: string, urls?: ApiUrls): PolymarketAPI => {
+  apiInstance = new PolymarketAPI(apiKey || '', apiSecret || '', passphrase || '', urls);
   return apiInstance;
 };
 
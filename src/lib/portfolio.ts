@@ -0,0 +1,132 @@
+// Portfolio - Position bookkeeping shared by the live executor and the backtester
+import type { AgentState, BettingOpportunity, Position, Settlement, Trade } from '@/types/polymarket';
+import { postToLedger, summarizeLedger } from './ledger';
+
+export { calculateEquity } from './ledger';
+
+export const findPosition = (state: AgentState, marketId: string, outcome: string): Position | undefined =>
+  state.positions.find(p => p.marketId === marketId && p.outcome === outcome);
+
+// Add or update position
+export function openPosition(
+  state: AgentState,
+  trade: Trade,
+  opportunity: BettingOpportunity | undefined,
+  shares: number = trade.shares,
+  cost: number = trade.total
+): void {
+  const existing = findPosition(state, trade.marketId, trade.outcome);
+
+  if (existing) {
+    const totalShares = existing.shares + shares;
+    const totalCost = (existing.shares * existing.avgPrice) + cost;
+    existing.shares = totalShares;
+    existing.avgPrice = totalCost / totalShares;
+    existing.isSimulated = trade.isSimulated;
+  } else {
+    state.positions.push({
+      marketId: trade.marketId,
+      tokenId: opportunity?.outcome.id ?? trade.tokenId,
+      marketQuestion: trade.marketQuestion,
+      outcome: trade.outcome,
+      shares,
+      avgPrice: cost / shares,
+      currentPrice: trade.price,
+      pnl: 0,
+      pnlPercent: 0,
+      isSimulated: trade.isSimulated,
+      negRisk: opportunity?.market.negRisk,
+      endDate: opportunity?.market.endDate,
+      peakPrice: trade.price,
+      exitRules: opportunity?.exitRules,
+      strategy: opportunity?.strategy ?? trade.strategy,
+      category: opportunity?.market.category,
+      eventId: opportunity?.market.eventId,
+    });
+  }
+}
+
+// Ledger fields shared by every fill of a trade
+const fillEntry = (trade: Trade, shares: number, amount: number, at: number) => ({
+  at,
+  type: 'FILL' as const,
+  marketId: trade.marketId,
+  outcome: trade.outcome,
+  side: trade.side,
+  shares,
+  price: shares > 0 ? amount / shares : trade.price,
+  tradeId: trade.id,
+});
+
+// Book matched shares: buys open or add to a position, sells reduce one.
+// Returns the PnL realized by this fill (always 0 for buys).
+export function bookFill(
+  state: AgentState,
+  trade: Trade,
+  opportunity: BettingOpportunity | undefined,
+  shares: number,
+  amount: number,
+  at: number = trade.timestamp.getTime()
+): number {
+  if (trade.side === 'BUY') {
+    openPosition(state, trade, opportunity, shares, amount);
+    postToLedger(state, { ...fillEntry(trade, shares, amount, at), cash: -amount, realizedPnl: 0 });
+    return 0;
+  }
+
+  const position = findPosition(state, trade.marketId, trade.outcome);
+  if (!position) {
+    postToLedger(state, { ...fillEntry(trade, shares, amount, at), cash: amount, realizedPnl: 0 });
+    return 0;
+  }
+
+  const sold = Math.min(shares, position.shares);
+  const realized = amount - sold * position.avgPrice;
+  postToLedger(state, { ...fillEntry(trade, shares, amount, at), cash: amount, realizedPnl: realized });
+  position.shares -= sold;
+
+  if (position.shares <= 1e-6) {
+    state.positions = state.positions.filter(p => p !== position);
+  } else {
+    markPosition(position);
+  }
+  recalculatePnL(state);
+  return realized;
+}
+
+// Close out a resolved position at its payout
+export function settlePosition(state: AgentState, settlement: Settlement): void {
+  state.positions = state.positions.filter(
+    p => !(p.marketId === settlement.marketId && p.outcome === settlement.outcome)
+  );
+  postToLedger(state, {
+    at: settlement.settledAt.getTime(),
+    type: 'SETTLEMENT',
+    cash: settlement.proceeds,
+    realizedPnl: settlement.realizedPnl,
+    marketId: settlement.marketId,
+    outcome: settlement.outcome,
+    shares: settlement.shares,
+    price: settlement.payoutPerShare,
+    note: `${settlement.winningOutcome} won`,
+  });
+  state.settlements = [settlement, ...(state.settlements ?? [])];
+  recalculatePnL(state);
+}
+
+// Calculate P&L for a single position at its current price
+export function markPosition(position: Position): void {
+  const currentValue = position.shares * position.currentPrice;
+  const costBasis = position.shares * position.avgPrice;
+  position.pnl = currentValue - costBasis;
+  position.pnlPercent = costBasis > 0 ? (position.pnl / costBasis) * 100 : 0;
+  position.peakPrice = Math.max(position.peakPrice ?? position.currentPrice, position.currentPrice);
+}
+
+// Refresh the PnL fields from the ledger and the current marks
+export function recalculatePnL(state: AgentState): void {
+  const summary = summarizeLedger(state);
+  state.unrealizedPnL = summary.unrealizedPnL;
+  state.totalPnL = summary.totalPnL;
+  state.todayPnL = summary.todayPnL;
+}
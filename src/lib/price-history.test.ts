@@ -0,0 +1,63 @@
+import { appendFile, mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { Market, PricePoint } from '@/types/polymarket';
+import { FileSnapshotBackend, MemorySnapshotBackend, PriceHistoryStore } from './price-history';
+
+const HOUR = 60 * 60 * 1000;
+
+const market: Market = {
+  id: 'm1',
+  question: 'Will it rain?',
+  slug: 'rain',
+  endDate: '',
+  liquidity: 10_000,
+  volume: 1,
+  outcomes: [{ id: 'yes', name: 'Yes', price: 0.5 }, { id: 'no', name: 'No', price: 0.5 }],
+  active: true,
+};
+
+const series: Record<string, PricePoint[]> = {
+  yes: [{ timestamp: 0, price: 0.3 }, { timestamp: HOUR + 5, price: 0.35 }, { timestamp: 3 * HOUR, price: 0.4 }],
+  no: [{ timestamp: HOUR, price: 0.7 }, { timestamp: 3 * HOUR, price: 0.6 }],
+};
+
+describe('PriceHistoryStore.backfill', () => {
+  it('buckets price history into snapshots before the first recorded one', async () => {
+    const store = new PriceHistoryStore(new MemorySnapshotBackend());
+    await store.record([market], {}, 3 * HOUR);
+
+    const written = await store.backfill([market], async tokenId => series[tokenId] ?? [], HOUR);
+
+    // Hour 0 has no NO price yet, so the market only appears from hour 1
+    expect(written).toBe(1);
+    const snapshots = await store.getSnapshots(0, 4 * HOUR);
+    expect(snapshots.map(s => s.timestamp)).toEqual([HOUR, 3 * HOUR]);
+    expect(snapshots[0].markets[0].outcomes.map(o => o.price)).toEqual([0.35, 0.7]);
+  });
+});
+
+describe('FileSnapshotBackend', () => {
+  it('reads ranges line by line and prunes into a replacement file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'snapshots-'));
+    const path = join(dir, 'snapshots.jsonl');
+    const backend = new FileSnapshotBackend(path);
+    try {
+      expect(await backend.range(0, Infinity)).toEqual([]);
+
+      for (const timestamp of [0, HOUR, 2 * HOUR]) await backend.append({ timestamp, markets: [] });
+      await appendFile(path, '{"timestamp": 3\n', 'utf8'); // A write cut short by a crash
+      await backend.append({ timestamp: 3 * HOUR, markets: [] });
+
+      expect((await backend.range(HOUR, 2 * HOUR)).map(s => s.timestamp)).toEqual([HOUR, 2 * HOUR]);
+
+      await backend.prune(2 * HOUR);
+      expect((await backend.range(0, Infinity)).map(s => s.timestamp)).toEqual([2 * HOUR, 3 * HOUR]);
+      expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(2);
+      expect(await readdir(dir)).toEqual(['snapshots.jsonl']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
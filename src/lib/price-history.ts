@@ -0,0 +1,276 @@
+// Price History Store - Per-scan market snapshots in IndexedDB or a JSON-lines file
+import type { Market, MarketSnapshot, PricePoint } from '@/types/polymarket';
+import { errorMessage, getEventBus } from './event-bus';
+
+// Storage backend; one implementation per runtime
+export interface SnapshotBackend {
+  append(snapshot: MarketSnapshot): Promise<void>;
+  range(from: number, to: number): Promise<MarketSnapshot[]>;
+  prune(before: number): Promise<void>;
+}
+
+// --- Backends ---
+
+// Volatile store for tests, backtests and runtimes without storage
+export class MemorySnapshotBackend implements SnapshotBackend {
+  private snapshots: MarketSnapshot[] = [];
+
+  constructor(initial: MarketSnapshot[] = []) {
+    this.snapshots = [...initial].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async append(snapshot: MarketSnapshot): Promise<void> {
+    this.snapshots.push(snapshot);
+  }
+
+  async range(from: number, to: number): Promise<MarketSnapshot[]> {
+    return this.snapshots.filter(s => s.timestamp >= from && s.timestamp <= to);
+  }
+
+  async prune(before: number): Promise<void> {
+    this.snapshots = this.snapshots.filter(s => s.timestamp >= before);
+  }
+}
+
+// Browser: IndexedDB object store keyed by timestamp
+export class IndexedDBSnapshotBackend implements SnapshotBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName = 'clawdpm',
+    private storeName = 'snapshots'
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: 'timestamp' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, mode);
+      const request = action(tx.objectStore(this.storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async append(snapshot: MarketSnapshot): Promise<void> {
+    await this.run('readwrite', store => store.put(snapshot));
+  }
+
+  async range(from: number, to: number): Promise<MarketSnapshot[]> {
+    return this.run('readonly', store => store.getAll(IDBKeyRange.bound(from, to)));
+  }
+
+  async prune(before: number): Promise<void> {
+    await this.run('readwrite', store => store.delete(IDBKeyRange.upperBound(before, true)));
+  }
+}
+
+const WRITE_CHUNK = 64 * 1024; // Prune writes kept lines in chunks of about this many characters
+
+// Headless: one JSON snapshot per line, appended to a local file and read back a line at a time
+export class FileSnapshotBackend implements SnapshotBackend {
+  constructor(private path: string) {}
+
+  // Resolved at runtime so browser bundles never pull in node modules
+  private load<T>(moduleName: string): Promise<T> {
+    return import(/* @vite-ignore */ moduleName);
+  }
+
+  async append(snapshot: MarketSnapshot): Promise<void> {
+    const fs = await this.load<typeof import('node:fs/promises')>('node:fs/promises');
+    await fs.appendFile(this.path, JSON.stringify(snapshot) + '\n', 'utf8');
+  }
+
+  async range(from: number, to: number): Promise<MarketSnapshot[]> {
+    const snapshots: MarketSnapshot[] = [];
+    for await (const { snapshot } of this.read()) {
+      if (snapshot.timestamp >= from && snapshot.timestamp <= to) snapshots.push(snapshot);
+    }
+    return snapshots;
+  }
+
+  // Kept lines go to a temp file that replaces the original, so a crash mid-prune loses nothing
+  async prune(before: number): Promise<void> {
+    const fs = await this.load<typeof import('node:fs/promises')>('node:fs/promises');
+    const temp = `${this.path}.tmp`;
+    const out = await fs.open(temp, 'w');
+    try {
+      let chunk = '';
+      for await (const { line, snapshot } of this.read()) {
+        if (snapshot.timestamp < before) continue;
+        chunk += line + '\n';
+        if (chunk.length >= WRITE_CHUNK) {
+          await out.write(chunk);
+          chunk = '';
+        }
+      }
+      await out.write(chunk);
+    } finally {
+      await out.close();
+    }
+    await fs.rename(temp, this.path);
+  }
+
+  private async *read(): AsyncGenerator<{ line: string; snapshot: MarketSnapshot }> {
+    const fs = await this.load<typeof import('node:fs')>('node:fs');
+    const { createInterface } = await this.load<typeof import('node:readline')>('node:readline');
+    try {
+      await fs.promises.access(this.path);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return;
+      throw error;
+    }
+
+    const lines = createInterface({ input: fs.createReadStream(this.path, 'utf8'), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let snapshot: MarketSnapshot;
+      try {
+        snapshot = JSON.parse(line);
+      } catch {
+        getEventBus().emit('StorageError', { operation: `Read ${this.path}`, error: 'Skipping corrupt snapshot line' });
+        continue;
+      }
+      yield { line, snapshot };
+    }
+  }
+}
+
+// --- Store ---
+
+interface PriceHistoryConfig {
+  maxMarketsPerSnapshot: number; // Keep snapshots small: top markets by volume only
+  retentionMs: number;
+  pruneEveryMs: number;
+}
+
+export class PriceHistoryStore {
+  private backend: SnapshotBackend;
+  private config: PriceHistoryConfig;
+  private lastPrune = 0;
+
+  constructor(backend: SnapshotBackend, config: Partial<PriceHistoryConfig> = {}) {
+    this.backend = backend;
+    this.config = {
+      maxMarketsPerSnapshot: 100,
+      retentionMs: 3 * 24 * 60 * 60 * 1000,
+      pruneEveryMs: 60 * 60 * 1000,
+      ...config,
+    };
+  }
+
+  // Save what a scan saw. Failures go on the event bus, never into the trading loop.
+  async record(markets: Market[], marks: Record<string, number> = {}, timestamp = Date.now()): Promise<void> {
+    const snapshot: MarketSnapshot = {
+      timestamp,
+      markets: [...markets]
+        .sort((a, b) => b.volume - a.volume)
+        .slice(0, this.config.maxMarketsPerSnapshot)
+        .map(({ image: _image, ...market }) => market),
+      marks,
+    };
+
+    try {
+      await this.backend.append(snapshot);
+      if (timestamp - this.lastPrune >= this.config.pruneEveryMs) {
+        this.lastPrune = timestamp;
+        await this.backend.prune(timestamp - this.config.retentionMs);
+      }
+    } catch (error) {
+      getEventBus().emit('StorageError', { operation: 'Save price snapshot', error: errorMessage(error) });
+    }
+  }
+
+  async getSnapshots(from = 0, to = Date.now()): Promise<MarketSnapshot[]> {
+    const snapshots = await this.backend.range(from, to);
+    return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // Rebuild snapshots from older price history (CLOB /prices-history) so a backtest
+  // can start before recording did. Points are bucketed to stepMs and a token keeps
+  // its last price between points; a market joins once every outcome has a price.
+  // Only buckets before the first saved snapshot are written. Returns how many were.
+  async backfill(
+    markets: Market[],
+    fetchSeries: (tokenId: string) => Promise<PricePoint[]>,
+    stepMs: number
+  ): Promise<number> {
+    const [first] = await this.getSnapshots(0, Number.MAX_SAFE_INTEGER);
+    const before = first?.timestamp ?? Number.MAX_SAFE_INTEGER;
+
+    const buckets = new Map<number, Map<string, number>>();
+    for (const outcome of markets.flatMap(m => m.outcomes)) {
+      for (const point of await fetchSeries(outcome.id)) {
+        if (point.timestamp >= before) continue;
+        const bucket = Math.floor(point.timestamp / stepMs) * stepMs;
+        if (!buckets.has(bucket)) buckets.set(bucket, new Map());
+        buckets.get(bucket)!.set(outcome.id, point.price);
+      }
+    }
+
+    const last = new Map<string, number>();
+    let written = 0;
+    for (const timestamp of [...buckets.keys()].sort((a, b) => a - b)) {
+      buckets.get(timestamp)!.forEach((price, tokenId) => last.set(tokenId, price));
+      const priced = markets
+        .filter(m => m.outcomes.every(o => last.has(o.id)))
+        .map(({ image: _image, ...m }) => ({ ...m, outcomes: m.outcomes.map(o => ({ ...o, price: last.get(o.id)! })) }));
+      if (priced.length === 0) continue;
+      await this.backend.append({ timestamp, markets: priced, marks: {} });
+      written++;
+    }
+    return written;
+  }
+
+  // Price series for one token across saved snapshots
+  async getSeries(tokenId: string, from = 0, to = Date.now()): Promise<PricePoint[]> {
+    const series: PricePoint[] = [];
+    for (const snapshot of await this.getSnapshots(from, to)) {
+      const mark = snapshot.marks?.[tokenId];
+      const outcome = mark === undefined
+        ? snapshot.markets.flatMap(m => m.outcomes).find(o => o.id === tokenId)
+        : undefined;
+      const price = mark ?? outcome?.price;
+      if (price !== undefined) {
+        series.push({ timestamp: snapshot.timestamp, price });
+      }
+    }
+    return series;
+  }
+}
+
+// Pick the backend for this runtime
+export const createSnapshotBackend = (filePath?: string): SnapshotBackend => {
+  if (filePath) return new FileSnapshotBackend(filePath);
+  if (typeof indexedDB !== 'undefined') return new IndexedDBSnapshotBackend();
+  return new MemorySnapshotBackend();
+};
+
+// Singleton
+let historyInstance: PriceHistoryStore | null = null;
+
+export const initHistoryStore = (
+  backend: SnapshotBackend = createSnapshotBackend(),
+  config?: Partial<PriceHistoryConfig>
+): PriceHistoryStore => {
+  historyInstance = new PriceHistoryStore(backend, config);
+  return historyInstance;
+};
+
+export const getHistoryStore = (): PriceHistoryStore | null => historyInstance;
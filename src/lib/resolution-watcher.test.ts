@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Market, Position } from '@/types/polymarket';
+import { startMockServer, type MockServer } from '../mock/server';
+import { VirtualClock } from './clock';
+import { EventBus } from './event-bus';
+import { initializeAPI } from './polymarket-api';
+import { ResolutionWatcher } from './resolution-watcher';
+
+let server: MockServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+const position = (marketId: string, outcome: string, extra: Partial<Position> = {}): Position => ({
+  marketId,
+  marketQuestion: `Market ${marketId}`,
+  outcome,
+  shares: 10,
+  avgPrice: 0.4,
+  currentPrice: 0.5,
+  pnl: 1,
+  pnlPercent: 25,
+  ...extra,
+});
+
+const market: Market = {
+  id: 'm1',
+  question: 'Who wins?',
+  slug: 'who-wins',
+  endDate: '',
+  liquidity: 1000,
+  volume: 1000,
+  outcomes: [{ id: 'tok-a', name: 'Alice', price: 1 }, { id: 'tok-b', name: 'Bob', price: 0 }],
+  active: false,
+  closed: true,
+};
+
+describe('ResolutionWatcher.check', () => {
+  it('settles positions once their market resolves, throttled between checks', async () => {
+    server = await startMockServer();
+    initializeAPI(undefined, undefined, undefined, { gammaUrl: `${server.url}/gamma`, clobUrl: `${server.url}/clob` });
+    const clock = new VirtualClock(Date.UTC(2026, 0, 1));
+    const watcher = new ResolutionWatcher(60_000, clock);
+    const positions = [position('501101', 'Yes', { strategy: 'value' }), position('501102', 'No')];
+
+    expect(await watcher.check(positions)).toEqual({ settlements: [], awaiting: [] });
+
+    server.exchange.applyStep({ atMs: 0, action: 'resolve', marketId: '501101', winner: 'No' });
+    expect((await watcher.check(positions)).settlements).toEqual([]); // Checked less than a minute ago
+
+    const { settlements, awaiting } = await watcher.check(positions, true);
+    expect(awaiting).toEqual([]);
+    expect(settlements).toEqual([{
+      marketId: '501101',
+      marketQuestion: 'Market 501101',
+      outcome: 'Yes',
+      winningOutcome: 'No',
+      shares: 10,
+      payoutPerShare: 0,
+      proceeds: 0,
+      realizedPnl: -4,
+      settledAt: new Date(clock.now()),
+      strategy: 'value',
+    }]);
+  });
+});
+
+describe('ResolutionWatcher.settle', () => {
+  const bus = new EventBus();
+  const watcher = new ResolutionWatcher(60_000, new VirtualClock(0), bus);
+
+  it('pays 1 per share on the winner, matching by outcome name then token id', () => {
+    expect(watcher.settle(position('m1', 'alice'), { ...market, winningOutcomeId: 'tok-a' })).toMatchObject({
+      winningOutcome: 'Alice',
+      payoutPerShare: 1,
+      proceeds: 10,
+      realizedPnl: 6,
+    });
+    expect(watcher.settle(position('m1', 'Yes', { tokenId: 'tok-b' }), { ...market, winningOutcomeId: 'tok-a' })).toMatchObject({
+      payoutPerShare: 0,
+      realizedPnl: -4,
+    });
+  });
+
+  it('leaves a position unsettled while the winner is unknown or its outcome cannot be found', () => {
+    const unmatched: string[] = [];
+    bus.on('SettlementUnmatched', event => unmatched.push(event.outcome));
+
+    expect(watcher.settle(position('m1', 'Alice'), market)).toBeNull();
+    expect(watcher.settle(position('m1', 'Carol'), { ...market, winningOutcomeId: 'tok-a' })).toBeNull();
+    expect(unmatched).toEqual(['Carol']);
+  });
+});
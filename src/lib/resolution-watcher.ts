@@ -0,0 +1,83 @@
+// Resolution Watcher - Detects closed/resolved markets for open positions
+import type { Market, Position, Settlement } from '@/types/polymarket';
+import { getAPI } from './polymarket-api';
+import { systemClock, type Clock } from './clock';
+import { getEventBus, type EventBus } from './event-bus';
+
+export interface ResolutionCheck {
+  settlements: Settlement[];
+  awaiting: Position[]; // Closed, but no winner reported yet
+}
+
+export class ResolutionWatcher {
+  private checkIntervalMs: number;
+  private lastCheck = 0;
+
+  constructor(
+    checkIntervalMs = 60000,
+    private clock: Clock = systemClock,
+    private events: EventBus = getEventBus()
+  ) {
+    this.checkIntervalMs = checkIntervalMs;
+  }
+
+  // Poll the markets behind open positions; throttled to checkIntervalMs unless forced
+  async check(positions: Position[], force = false): Promise<ResolutionCheck> {
+    const result: ResolutionCheck = { settlements: [], awaiting: [] };
+    if (positions.length === 0) return result;
+
+    const now = this.clock.now();
+    if (!force && now - this.lastCheck < this.checkIntervalMs) return result;
+    this.lastCheck = now;
+
+    const markets = await getAPI().getMarketsByIds(positions.map(p => p.marketId));
+    const byId = new Map(markets.map(m => [m.id, m]));
+
+    for (const position of positions) {
+      const market = byId.get(position.marketId);
+      if (!market?.closed) continue;
+
+      const settlement = this.settle(position, market);
+      if (settlement) {
+        result.settlements.push(settlement);
+      } else {
+        result.awaiting.push(position);
+      }
+    }
+
+    return result;
+  }
+
+  // Settle a position at 1 or 0 per share. Null while the winner is unknown.
+  settle(position: Position, market: Market, settledAt = new Date(this.clock.now())): Settlement | null {
+    if (!market.winningOutcomeId) return null;
+
+    const winner = market.outcomes.find(o => o.id === market.winningOutcomeId);
+    if (!winner) return null;
+
+    // Match by outcome name first (YES/NO or candidate name), then by token id
+    const held = market.outcomes.find(o => o.name.toLowerCase() === position.outcome.toLowerCase())
+      ?? market.outcomes.find(o => o.id === position.tokenId);
+    if (!held) {
+      this.events.emit('SettlementUnmatched', { marketId: market.id, outcome: position.outcome });
+      return null;
+    }
+
+    const payoutPerShare = held.id === winner.id ? 1 : 0;
+    const proceeds = position.shares * payoutPerShare;
+    const costBasis = position.shares * position.avgPrice;
+
+    return {
+      marketId: position.marketId,
+      marketQuestion: position.marketQuestion,
+      outcome: position.outcome,
+      winningOutcome: winner.name,
+      shares: position.shares,
+      payoutPerShare,
+      proceeds,
+      realizedPnl: proceeds - costBasis,
+      settledAt,
+      strategy: position.strategy,
+    };
+  }
+}
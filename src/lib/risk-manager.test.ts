@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentState, BettingOpportunity, Market } from '@/types/polymarket';
+import { EventBus, type AgentEvent } from './event-bus';
+import { openingLedger, rollLedgerDay } from './ledger';
+import { DEFAULT_SAFETY_LIMITS, RiskManager } from './risk-manager';
+
+const market: Market = {
+  id: 'm1',
+  question: 'Will it rain?',
+  slug: 'rain',
+  endDate: '',
+  liquidity: 10_000,
+  volume: 1,
+  outcomes: [{ id: 'yes', name: 'Yes', price: 0.4 }, { id: 'no', name: 'No', price: 0.6 }],
+  active: true,
+};
+
+const opportunity: BettingOpportunity = {
+  market,
+  outcome: market.outcomes[0],
+  strategy: 'test',
+  recommendedBet: 'YES',
+  confidence: 0.9,
+  winProbability: 0.6,
+  suggestedAmount: 0,
+  expectedValue: 0.5,
+};
+
+function freshState(): AgentState {
+  const state: AgentState = {
+    isRunning: true, bankroll: 1000, todayPnL: 0, totalPnL: 0, realizedPnL: 0,
+    ledger: openingLedger(1000, 0), positions: [], trades: [], opportunities: [], safetyTriggered: false,
+  };
+  rollLedgerDay(state, 0);
+  return state;
+}
+
+describe('RiskManager.calculatePositionSize', () => {
+  const risk = new RiskManager(DEFAULT_SAFETY_LIMITS);
+
+  it('sizes to zero when the order book could not be fetched', () => {
+    const sizing = risk.calculatePositionSize(opportunity, freshState(), null);
+    expect(sizing.amount).toBe(0);
+    expect(sizing.limitedBy).toMatch(/No order book/);
+  });
+
+  it('caps the size at a share of the visible asks', () => {
+    const book = { tokenId: 'yes', asks: [{ price: 0.4, size: 100 }], bids: [] };
+    const sizing = risk.calculatePositionSize(opportunity, freshState(), book);
+    expect(sizing.depthCap).toBeCloseTo(40 * DEFAULT_SAFETY_LIMITS.maxDepthShare);
+    expect(sizing.amount).toBeLessThanOrEqual(sizing.depthCap!);
+  });
+
+  it('assumes a fill at the quoted price when no book is passed', () => {
+    const sizing = risk.calculatePositionSize(opportunity, freshState());
+    expect(sizing.amount).toBeGreaterThan(0);
+    expect(sizing.avgFillPrice).toBe(0.4);
+  });
+
+  it('puts each sizing decision and its limit on the event bus', () => {
+    const bus = new EventBus();
+    const sized: AgentEvent<'PositionSized'>[] = [];
+    bus.on('PositionSized', event => sized.push(event));
+
+    new RiskManager(DEFAULT_SAFETY_LIMITS, bus).calculatePositionSize(opportunity, freshState(), null);
+
+    expect(sized).toHaveLength(1);
+    expect(sized[0]).toMatchObject({ marketId: 'm1', strategy: 'test', amount: 0, limitedBy: 'No order book to size against' });
+  });
+});
@@ -3,42 +3,37 @@ import type {
   SafetyLimits,
   AgentState,
   BettingOpportunity,
-  Position
+  Position,
+  OrderBook,
+  OrderBookLevel,
+  FillEstimate,
+  PositionSizing,
+  BasketSizing,
+  Market
 } from '@/types/polymarket';
+import { summarizeLedger } from './ledger';
+import { tightestGroup } from './exposure-groups';
+import { getEventBus, type EventBus } from './event-bus';
 
 export class RiskManager {
   private limits: SafetyLimits;
 
-  constructor(limits: SafetyLimits) {
+  constructor(limits: SafetyLimits, private events: EventBus = getEventBus()) {
     this.limits = limits;
   }
 
-  // Kelly Criterion for optimal bet sizing
+  // Kelly Criterion for optimal bet sizing on the token being bought
   // f* = (bp - q) / b
-  // where: b = odds received, p = probability of winning, q = 1-p
+  // where: b = odds received, p = probability the token pays out, q = 1-p
   calculateKellyBet(
-    probability: number, // your estimated true probability
-    marketPrice: number, // current market price (implied probability)
+    probability: number, // your estimated chance the bought token pays out
+    marketPrice: number, // price of that token (a NO bet passes the NO price)
     bankroll: number
   ): number {
-    // If betting YES: odds = (1 - marketPrice) / marketPrice
-    // If betting NO: odds = marketPrice / (1 - marketPrice)
-
-    const isUndervalued = probability > marketPrice;
-
-    let odds: number;
-    let p: number;
-
-    if (isUndervalued) {
-      // Betting YES
-      odds = (1 - marketPrice) / marketPrice;
-      p = probability;
-    } else {
-      // Betting NO
-      odds = marketPrice / (1 - marketPrice);
-      p = 1 - probability;
-    }
+    if (marketPrice <= 0 || marketPrice >= 1) return 0;
 
+    const odds = (1 - marketPrice) / marketPrice;
+    const p = probability;
     const q = 1 - p;
     const kelly = (odds * p - q) / odds;
 
@@ -51,50 +46,193 @@ export class RiskManager {
     return bankroll * betFraction;
   }
 
-  // Calculate position size based on risk limits
+  // Walk the ladder to estimate the fill for a dollar amount
+  // Levels must be ordered best price first (asks ascending for a BUY)
+  estimateFill(levels: OrderBookLevel[], amount: number): FillEstimate {
+    let remaining = amount;
+    let shares = 0;
+    let cost = 0;
+    let levelsUsed = 0;
+
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      const take = Math.min(remaining, level.price * level.size);
+      shares += take / level.price;
+      cost += take;
+      remaining -= take;
+      levelsUsed++;
+    }
+
+    return {
+      shares,
+      cost,
+      avgPrice: shares > 0 ? cost / shares : 0,
+      levelsUsed,
+    };
+  }
+
+  // Total dollar value resting on one side of the book
+  calculateVisibleDepth(levels: OrderBookLevel[]): number {
+    return levels.reduce((sum, l) => sum + l.price * l.size, 0);
+  }
+
+  // Calculate position size based on risk limits and book depth. A null book (the
+  // fetch failed) sizes to zero; leave it out only where no book exists by design,
+  // as in backtests, which assume a fill at the quoted price.
   calculatePositionSize(
     opportunity: BettingOpportunity,
-    state: AgentState
-  ): number {
-    const { bankroll, positions, todayPnL } = state;
+    state: AgentState,
+    book?: OrderBook | null
+  ): PositionSizing {
+    const sizing = this.sizePosition(opportunity, state, book);
+    this.reportSizing(opportunity, sizing);
+    return sizing;
+  }
 
-    // Check if safety limits are breached
-    if (this.isSafetyBreached(state).breached) {
-      return 0;
+  private sizePosition(
+    opportunity: BettingOpportunity,
+    state: AgentState,
+    book?: OrderBook | null
+  ): PositionSizing {
+    const { bankroll, positions } = state;
+    const price = opportunity.outcome.price;
+    const none: PositionSizing = { amount: 0, shares: 0, avgFillPrice: price };
+
+    // Check if safety limits are breached, including this market's exposure groups
+    const safety = this.isSafetyBreached(state, opportunity.market);
+    if (safety.breached) {
+      return { ...none, limitedBy: safety.reason };
+    }
+    if (book === null) {
+      return { ...none, limitedBy: 'No order book to size against' };
     }
 
     // Calculate current exposure
+    const limits = this.sizingLimits(state);
     const totalExposure = positions.reduce((sum, p) => sum + (p.shares * p.avgPrice), 0);
-    const remainingExposure = this.limits.maxTotalExposure - totalExposure;
+    const remainingExposure = limits.maxTotalExposure - totalExposure;
 
     // Calculate market-specific exposure
     const marketPositions = positions.filter(p => p.marketId === opportunity.market.id);
     const marketExposure = marketPositions.reduce((sum, p) => sum + (p.shares * p.avgPrice), 0);
-    const maxMarketExposure = bankroll * this.limits.maxPositionPercent;
+    const maxMarketExposure = bankroll * limits.maxPositionPercent;
     const remainingMarketExposure = maxMarketExposure - marketExposure;
 
+    // Correlated markets (same category, event or tag) share a cap; the tightest one binds
+    const group = tightestGroup(opportunity.market, positions, this.limits);
+    const remainingGroupExposure = group?.remaining ?? Infinity;
+
     // Kelly-based suggestion
     const kellyBet = this.calculateKellyBet(
-      opportunity.confidence,
-      opportunity.outcome.price,
+      opportunity.winProbability,
+      price,
       bankroll
     );
 
+    // Depth cap: never take more than maxDepthShare of the visible asks
+    const depthCap = book
+      ? this.calculateVisibleDepth(book.asks) * this.limits.maxDepthShare
+      : undefined;
+
     // Take the minimum of all constraints
     const suggestedSize = Math.min(
       kellyBet,
-      this.limits.maxBetSize,
+      limits.maxBetSize,
       remainingExposure,
       remainingMarketExposure,
-      bankroll * 0.05 // Never bet more than 5% in single trade
+      remainingGroupExposure,
+      bankroll * 0.05, // Never bet more than 5% in single trade
+      depthCap ?? Infinity
+    );
+    const limitedBy = group && suggestedSize === remainingGroupExposure
+      ? `Exposure group ${group.label}: $${Math.max(0, group.remaining).toFixed(2)} of $${group.cap} left`
+      : undefined;
+
+    const amount = Math.max(0, Math.floor(suggestedSize * 100) / 100); // Round to 2 decimals
+    if (amount <= 0) return { ...none, depthCap, limitedBy };
+
+    // Without a book (backtests) we can only assume a fill at the quoted price
+    if (!book) {
+      return { amount, shares: amount / price, avgFillPrice: price, limitedBy };
+    }
+
+    const fill = this.estimateFill(book.asks, amount);
+    return {
+      amount: Math.floor(fill.cost * 100) / 100,
+      shares: fill.shares,
+      avgFillPrice: fill.avgPrice,
+      depthCap,
+      limitedBy,
+    };
+  }
+
+  // Size a multi-leg basket: the same share count on every leg, limited by
+  // the thinnest top-of-book level. The profit is locked in, so Kelly doesn't apply.
+  calculateBasketSize(opportunity: BettingOpportunity, state: AgentState): BasketSizing {
+    const sizing = this.sizeBasket(opportunity, state);
+    this.reportSizing(opportunity, sizing);
+    return sizing;
+  }
+
+  private sizeBasket(opportunity: BettingOpportunity, state: AgentState): BasketSizing {
+    const legs = opportunity.legs ?? [];
+    const none: BasketSizing = { sets: 0, amount: 0, costPerSet: 0 };
+    if (legs.length === 0) return none;
+
+    for (const leg of legs) {
+      const safety = this.isSafetyBreached(state, leg.market);
+      if (safety.breached) return { ...none, limitedBy: safety.reason };
+    }
+
+    // Buying costs the asks; selling first needs a $1 set minted
+    const isBuy = legs[0].side === 'BUY';
+    const costPerSet = isBuy
+      ? 1 - (opportunity.lockedProfit ?? 0)
+      : 1;
+    if (costPerSet <= 0) return none;
+
+    // Legs usually share an event, so the whole basket counts against each leg's groups
+    const group = tightestGroup(legs.map(l => l.market), state.positions, this.limits);
+
+    const limits = this.sizingLimits(state);
+    const totalExposure = state.positions.reduce((sum, p) => sum + (p.shares * p.avgPrice), 0);
+    const budget = Math.min(
+      limits.maxBetSize,
+      limits.maxTotalExposure - totalExposure,
+      group?.remaining ?? Infinity,
+      state.bankroll * 0.05 // Same single-trade cap as directional bets
     );
+    const limitedBy = group && budget === group.remaining
+      ? `Exposure group ${group.label}: $${Math.max(0, group.remaining).toFixed(2)} of $${group.cap} left`
+      : undefined;
+
+    const sets = Math.floor(Math.min(
+      ...legs.map(l => l.size),
+      budget / costPerSet
+    ) * 100) / 100;
+    if (sets <= 0) return { ...none, limitedBy };
 
-    return Math.max(0, Math.floor(suggestedSize * 100) / 100); // Round to 2 decimals
+    return { sets, amount: sets * costPerSet, costPerSet, limitedBy };
   }
 
-  // Check if safety limits are breached
-  isSafetyBreached(state: AgentState): { breached: boolean; reason?: string } {
-    const { bankroll, todayPnL, positions } = state;
+  // Every sizing decision goes on the bus with the cap or safety limit that bound it
+  private reportSizing(opportunity: BettingOpportunity, sizing: { amount: number; limitedBy?: string }): void {
+    this.events.emit('PositionSized', {
+      marketId: opportunity.market.id,
+      marketQuestion: opportunity.market.question,
+      outcome: opportunity.outcome.name,
+      strategy: opportunity.strategy,
+      amount: sizing.amount,
+      limitedBy: sizing.limitedBy,
+    });
+  }
+
+  // Check if safety limits are breached. Cash and today's PnL come from the ledger.
+  // With a market, also checks the exposure groups it belongs to: a full group
+  // blocks bets in that group without stopping the agent.
+  isSafetyBreached(state: AgentState, market?: Market): { breached: boolean; reason?: string; group?: string } {
+    const { cash: bankroll, todayPnL } = summarizeLedger(state);
+    const { positions } = state;
 
     // Check daily loss limit
     if (todayPnL < -this.limits.maxDailyLoss) {
@@ -121,6 +259,15 @@ export class RiskManager {
       };
     }
 
+    const group = market && tightestGroup(market, positions, this.limits);
+    if (group && group.remaining <= 0) {
+      return {
+        breached: true,
+        reason: `Exposure group ${group.label} is full: $${group.exposure.toFixed(2)} of $${group.cap}`,
+        group: group.key,
+      };
+    }
+
     return { breached: false };
   }
 
@@ -148,6 +295,17 @@ export class RiskManager {
 
   // Validate opportunity meets minimum criteria
   validateOpportunity(opportunity: BettingOpportunity): { valid: boolean; reason?: string } {
+    // Baskets are judged on their books, not on any one market's liquidity
+    if (opportunity.legs) {
+      if (opportunity.legs.some(l => !l.market.active || l.market.closed)) {
+        return { valid: false, reason: 'Basket leg market is not active' };
+      }
+      if ((opportunity.lockedProfit ?? 0) <= 0) {
+        return { valid: false, reason: 'No locked-in profit' };
+      }
+      return { valid: true };
+    }
+
     // Check liquidity
     if (opportunity.market.liquidity < this.limits.minLiquidity) {
       return {
@@ -186,20 +344,27 @@ export class RiskManager {
 
   // Calculate dynamic limits based on recent performance
   calculateDynamicLimits(state: AgentState): SafetyLimits {
-    const { bankroll, todayPnL, totalPnL } = state;
+    const { cash: bankroll, todayPnL, totalPnL } = summarizeLedger(state);
 
-    // If on a losing streak, reduce limits
+    // If on a losing streak or the circuit breaker tripped softly, reduce limits
     const isLosingStreak = todayPnL < 0 && totalPnL < 0;
-    const multiplier = isLosingStreak ? 0.5 : 1.0;
+    const multiplier = isLosingStreak || state.breaker?.level === 'REDUCED' ? 0.5 : 1.0;
 
     return {
+      ...this.limits,
       maxBetSize: Math.min(this.limits.maxBetSize, bankroll * 0.02) * multiplier,
       maxDailyLoss: this.limits.maxDailyLoss,
       maxTotalExposure: Math.min(this.limits.maxTotalExposure, bankroll * 0.3) * multiplier,
       maxPositionPercent: this.limits.maxPositionPercent * multiplier,
       minLiquidity: this.limits.minLiquidity,
+      maxDepthShare: this.limits.maxDepthShare,
     };
   }
+
+  // Sizes shrink to the dynamic limits while the circuit breaker is on REDUCED
+  private sizingLimits(state: AgentState): SafetyLimits {
+    return state.breaker?.level === 'REDUCED' ? this.calculateDynamicLimits(state) : this.limits;
+  }
 }
 
 // Default safety limits
@@ -209,4 +374,7 @@ export const DEFAULT_SAFETY_LIMITS: SafetyLimits = {
   maxTotalExposure: 200,    // Max $200 at risk
   maxPositionPercent: 0.1,  // Max 10% of bankroll in single market
   minLiquidity: 1000,       // Only trade markets with >$1000 liquidity
+  maxDepthShare: 0.1,       // Take at most 10% of visible book depth per bet
+  maxCategoryExposure: 100, // Max $100 across one category (e.g. Politics)
+  maxEventExposure: 50,     // Max $50 across the markets of one event
 };
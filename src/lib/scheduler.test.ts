@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { systemClock, VirtualClock, type Clock } from './clock';
+import { nextDailyRun, Scheduler } from './scheduler';
+
+describe('nextDailyRun', () => {
+  it('returns the next HH:MM UTC strictly after now', () => {
+    const now = Date.UTC(2026, 0, 1, 10, 30);
+    expect(nextDailyRun(now, '12:00')).toBe(Date.UTC(2026, 0, 1, 12));
+    expect(nextDailyRun(now, '10:30')).toBe(Date.UTC(2026, 0, 2, 10, 30));
+    expect(() => nextDailyRun(now, 'noon')).toThrow(/Invalid daily time/);
+  });
+
+  it('reads HH:MM in the given time zone, across a DST change', () => {
+    const now = Date.UTC(2026, 0, 1, 10, 30); // 05:30 in New York, 19:30 in Tokyo
+    expect(nextDailyRun(now, '09:00', 'America/New_York')).toBe(Date.UTC(2026, 0, 1, 14));
+    expect(nextDailyRun(now, '05:00', 'America/New_York')).toBe(Date.UTC(2026, 0, 2, 10));
+    expect(nextDailyRun(now, '00:00', 'Asia/Tokyo')).toBe(Date.UTC(2026, 0, 1, 15));
+    // Clocks go forward overnight on 8 March 2026, so 09:00 comes an hour earlier in UTC
+    expect(nextDailyRun(Date.UTC(2026, 2, 7, 15), '09:00', 'America/New_York')).toBe(Date.UTC(2026, 2, 8, 13));
+  });
+});
+
+describe('Scheduler', () => {
+  it('runs start-up tasks once, then on their cadence', async () => {
+    const clock = new VirtualClock(0);
+    const scheduler = new Scheduler(clock);
+    let runs = 0;
+    scheduler.add({ name: 'scan', everyMs: 1000, runOnStart: true, run: () => runs++ });
+
+    scheduler.start();
+    await clock.advance(3500);
+    scheduler.stop();
+    await clock.advance(5000);
+
+    expect(runs).toBe(4); // Start-up + 1s, 2s, 3s
+  });
+
+  it('drops start-up runs when stopped before the first tick', async () => {
+    const clock = new VirtualClock(0);
+    const scheduler = new Scheduler(clock);
+    let runs = 0;
+    scheduler.add({ name: 'scan', everyMs: 1000, runOnStart: true, run: () => runs++ });
+
+    scheduler.start();
+    scheduler.stop();
+    await clock.advance(5000);
+    await scheduler.idle();
+
+    expect(runs).toBe(0);
+  });
+
+  it('never overlaps tasks; skips or coalesces ticks that come due meanwhile', async () => {
+    // Interval callbacks by period, fired by hand while the slow task is still running
+    const intervals = new Map<number, () => unknown>();
+    const clock: Clock = {
+      ...systemClock,
+      now: () => 0,
+      setInterval: (callback, ms) => {
+        intervals.set(ms, callback);
+        return ms;
+      },
+      clearInterval: () => {},
+    };
+    const scheduler = new Scheduler(clock);
+
+    let release = () => {};
+    let active = 0;
+    let maxActive = 0;
+    const track = (work: () => Promise<void>) => async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await work();
+      active--;
+    };
+
+    scheduler.add({ name: 'slow', everyMs: 10_000, run: track(() => new Promise(resolve => (release = resolve))) });
+    scheduler.add({ name: 'prices', everyMs: 1000, onMissed: 'skip', run: track(async () => {}) });
+    scheduler.add({ name: 'orders', everyMs: 2000, onMissed: 'coalesce', run: track(async () => {}) });
+    scheduler.start();
+
+    const slowRun = intervals.get(10_000)!();
+    intervals.get(1000)!();
+    intervals.get(2000)!();
+    intervals.get(2000)!();
+    release();
+    await slowRun;
+    await scheduler.idle();
+
+    const stats = Object.fromEntries(scheduler.getStats().map(s => [s.name, s]));
+    expect(maxActive).toBe(1);
+    expect(stats.prices).toMatchObject({ runs: 0, skipped: 1 });
+    expect(stats.orders).toMatchObject({ runs: 1, coalesced: 1 });
+  });
+
+  it('runs non-exclusive tasks beside the queue, one run of each at a time', async () => {
+    const clock = new VirtualClock(0);
+    const scheduler = new Scheduler(clock);
+    let release = () => {};
+    let scans = 0;
+    let llmRuns = 0;
+    scheduler.add({
+      name: 'llm',
+      everyMs: 1000,
+      runOnStart: true,
+      exclusive: false,
+      run: () => {
+        llmRuns++;
+        return new Promise<void>(resolve => (release = resolve));
+      },
+    });
+    scheduler.add({ name: 'scan', everyMs: 500, run: () => scans++ });
+
+    scheduler.start();
+    await clock.advance(2000); // The LLM pass never finishes in this window
+    scheduler.stop();
+    release();
+    await scheduler.idle();
+
+    const stats = Object.fromEntries(scheduler.getStats().map(s => [s.name, s]));
+    expect(scans).toBe(4);
+    expect(llmRuns).toBe(1);
+    expect(stats.llm.skipped).toBe(2);
+  });
+
+  it('fires daily tasks at the wall-clock time', async () => {
+    const clock = new VirtualClock(Date.UTC(2026, 0, 1, 10));
+    const scheduler = new Scheduler(clock);
+    const at: number[] = [];
+    scheduler.add({ name: 'summary', dailyAt: '00:00', run: () => at.push(clock.now()) });
+
+    scheduler.start();
+    await clock.advance(2 * 24 * 60 * 60 * 1000);
+    scheduler.stop();
+
+    expect(at).toEqual([Date.UTC(2026, 0, 2), Date.UTC(2026, 0, 3)]);
+  });
+});
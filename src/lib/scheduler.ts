@@ -0,0 +1,234 @@
+// Scheduler - Named tasks on their own cadences that never run on top of each other
+//
+// Only one task runs at a time, so a slow scan can never overlap the next scan or a
+// price refresh and double-trade. A tick that comes due while something is running
+// is either dropped ('skip', for cheap periodic work) or queued once however many
+// ticks were missed ('coalesce', for work that must happen but only once).
+// Tasks that never trade (an LLM pass) can opt out of the queue and run beside it.
+import { systemClock, type Clock, type TimerHandle } from './clock';
+import { DEFAULT_TIME_ZONE } from './ledger';
+
+export type MissedTickPolicy = 'skip' | 'coalesce';
+
+export interface ScheduledTask {
+  name: string;
+  everyMs?: number;           // Fixed cadence
+  dailyAt?: string;           // Or once a day at 'HH:MM' wall-clock time
+  timeZone?: string;          // IANA zone dailyAt is read in (default UTC)
+  runOnStart?: boolean;       // Also run as soon as the scheduler starts
+  onMissed?: MissedTickPolicy; // Default 'coalesce'
+  exclusive?: boolean;        // Default true; false runs beside the queue, never beside itself
+  run: () => unknown;
+}
+
+export interface TaskStats {
+  name: string;
+  runs: number;
+  skipped: number;   // Ticks dropped because another task (or, if not exclusive, the same one) was running
+  coalesced: number; // Ticks folded into a run that was already queued
+  lastRunAt?: number;
+  lastDurationMs?: number;
+}
+
+const wallFormats = new Map<string, Intl.DateTimeFormat>();
+
+// The wall-clock reading of `at` in a time zone, as a UTC timestamp. Unknown zones fall back to UTC.
+function wallTime(at: number, timeZone: string): number {
+  let format = wallFormats.get(timeZone);
+  if (!format) {
+    try {
+      format = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      return wallTime(at, DEFAULT_TIME_ZONE);
+    }
+    wallFormats.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(format.formatToParts(new Date(at)).map(p => [p.type, Number(p.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Next time strictly after `now` that the wall clock in `timeZone` reads 'HH:MM'
+export function nextDailyRun(now: number, at: string, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(at.trim());
+  if (!match) throw new Error(`Invalid daily time "${at}", expected HH:MM`);
+
+  const today = new Date(wallTime(now, timeZone));
+  for (let days = 0; ; days++) {
+    const wall = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + days, Number(match[1]), Number(match[2]));
+    // Take off the zone's offset; the second pass settles a DST change in between
+    let next = wall - (wallTime(wall, timeZone) - wall);
+    next = wall - (wallTime(next, timeZone) - next);
+    if (next > now) return next;
+  }
+}
+
+export class Scheduler {
+  private tasks = new Map<string, ScheduledTask>();
+  private timers = new Map<string, TimerHandle>();
+  private stats = new Map<string, TaskStats>();
+  private queue: string[] = [];
+  private draining: Promise<void> | null = null;
+  private detached = new Map<string, Promise<void>>(); // Non-exclusive tasks in flight
+  private startup: TimerHandle | null = null; // Pending start-up runs
+  private running = false;
+
+  constructor(private clock: Clock = systemClock) {}
+
+  // Register (or replace) a task. Takes effect on the next start().
+  add(task: ScheduledTask): void {
+    if (!task.everyMs && !task.dailyAt) {
+      throw new Error(`Task "${task.name}" needs everyMs or dailyAt`);
+    }
+    this.tasks.set(task.name, task);
+    if (!this.stats.has(task.name)) {
+      this.stats.set(task.name, { name: task.name, runs: 0, skipped: 0, coalesced: 0 });
+    }
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    for (const task of this.tasks.values()) {
+      if (task.everyMs) {
+        this.timers.set(task.name, this.clock.setInterval(() => this.tick(task.name), task.everyMs));
+      } else {
+        this.scheduleDaily(task);
+      }
+    }
+
+    // Start-up runs go through the queue too, in registration order
+    const initial = Array.from(this.tasks.values()).filter(t => t.runOnStart);
+    if (initial.length > 0) {
+      this.startup = this.clock.setTimeout(() => {
+        this.startup = null;
+        if (!this.running) return;
+        initial.filter(t => t.exclusive === false).forEach(task => this.runDetached(task));
+        initial.filter(t => t.exclusive !== false).forEach(task => this.enqueue(task.name));
+        return this.drain();
+      }, 0);
+    }
+  }
+
+  // Cancel future ticks and anything queued. Tasks in flight finish; await idle() for them.
+  stop(): void {
+    this.running = false;
+    if (this.startup !== null) {
+      this.clock.clearTimeout(this.startup);
+      this.startup = null;
+    }
+    for (const [name, handle] of this.timers) {
+      const task = this.tasks.get(name);
+      if (task?.everyMs) {
+        this.clock.clearInterval(handle);
+      } else {
+        this.clock.clearTimeout(handle);
+      }
+    }
+    this.timers.clear();
+    this.queue = [];
+  }
+
+  // Ask for an extra run outside the cadence; coalesces with a queued one
+  trigger(name: string): Promise<void> {
+    const task = this.tasks.get(name);
+    if (!this.running || !task) return Promise.resolve();
+    if (task.exclusive === false) return this.runDetached(task);
+    this.enqueue(name);
+    return this.drain();
+  }
+
+  // Resolves once nothing is running or queued
+  async idle(): Promise<void> {
+    while (this.draining || this.detached.size > 0) {
+      await Promise.all([this.draining, ...this.detached.values()]);
+    }
+  }
+
+  getStats(): TaskStats[] {
+    return Array.from(this.stats.values()).map(s => ({ ...s }));
+  }
+
+  private tick(name: string): Promise<void> {
+    const task = this.tasks.get(name);
+    if (!task || !this.running) return Promise.resolve();
+    if (task.exclusive === false) return this.runDetached(task);
+
+    if (this.draining && (task.onMissed ?? 'coalesce') === 'skip') {
+      this.stats.get(name)!.skipped++;
+      return Promise.resolve();
+    }
+
+    this.enqueue(name);
+    return this.drain();
+  }
+
+  private scheduleDaily(task: ScheduledTask): void {
+    const now = this.clock.now();
+    const delay = nextDailyRun(now, task.dailyAt as string, task.timeZone) - now;
+    this.timers.set(task.name, this.clock.setTimeout(() => {
+      if (this.running) this.scheduleDaily(task);
+      return this.tick(task.name);
+    }, delay));
+  }
+
+  private enqueue(name: string): void {
+    if (this.queue.includes(name)) {
+      this.stats.get(name)!.coalesced++;
+      return;
+    }
+    this.queue.push(name);
+  }
+
+  // Run queued tasks one at a time. Callers share the same drain.
+  private drain(): Promise<void> {
+    if (this.draining) return this.draining;
+    if (this.queue.length === 0) return Promise.resolve();
+
+    this.draining = (async () => {
+      for (let name = this.queue.shift(); name; name = this.queue.shift()) {
+        const task = this.tasks.get(name);
+        if (task) await this.run(task);
+      }
+      this.draining = null;
+    })();
+
+    return this.draining;
+  }
+
+  // Run a non-exclusive task now, unless its previous run is still going
+  private runDetached(task: ScheduledTask): Promise<void> {
+    if (this.detached.has(task.name)) {
+      this.stats.get(task.name)!.skipped++;
+      return Promise.resolve();
+    }
+
+    const run = this.run(task).then(() => {
+      this.detached.delete(task.name);
+    });
+    this.detached.set(task.name, run);
+    return run;
+  }
+
+  private async run(task: ScheduledTask): Promise<void> {
+    const stats = this.stats.get(task.name)!;
+    const startedAt = this.clock.now();
+    try {
+      await task.run();
+    } catch (error) {
+      console.error(`[Scheduler] ${task.name} failed:`, error);
+    }
+    stats.runs++;
+    stats.lastRunAt = startedAt;
+    stats.lastDurationMs = this.clock.now() - startedAt;
+  }
+}
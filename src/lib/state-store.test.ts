@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AgentState, Trade } from '@/types/polymarket';
+import { EventBus } from './event-bus';
+import { MemoryStateBackend, STATE_SCHEMA_VERSION, StateStore } from './state-store';
+
+// A document the way schema v1 saved it
+const v1 = {
+  version: 1,
+  savedAt: 1000,
+  state: {
+    isRunning: true,
+    bankroll: 850,
+    realizedPnL: -150,
+    todayPnL: 0,
+    totalPnL: -150,
+    positions: [{ marketId: 'm1', marketQuestion: 'Q?', outcome: 'Yes', shares: 10, avgPrice: 0.5, currentPrice: 0.5, pnl: 0, pnlPercent: 0, exitPending: true }],
+    trades: [{ id: 't1', timestamp: '2026-01-01T00:00:00.000Z' }],
+    opportunities: [{}],
+    safetyTriggered: false,
+  },
+  config: { scanIntervalMs: 20000 },
+};
+
+const storeWith = async (doc: unknown) => {
+  const backend = new MemoryStateBackend();
+  await backend.write(doc as never);
+  return new StateStore(backend);
+};
+
+describe('StateStore', () => {
+  it('migrates a v1 document to the current schema', async () => {
+    const loaded = await (await storeWith(v1)).load();
+
+    expect(loaded?.version).toBe(STATE_SCHEMA_VERSION);
+    expect(loaded?.state.ledger?.[0]).toMatchObject({ type: 'DEPOSIT', cash: 850, realizedPnl: -150 });
+  });
+
+  it('revives dates and drops in-flight flags', async () => {
+    const loaded = await (await storeWith(v1)).load();
+
+    expect(loaded?.state.isRunning).toBe(false);
+    expect(loaded?.state.trades[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded?.state.positions[0].exitPending).toBe(false);
+    expect(loaded?.state.opportunities).toEqual([]);
+  });
+
+  it('ignores documents from a newer schema', async () => {
+    expect(await (await storeWith({ ...v1, version: STATE_SCHEMA_VERSION + 1 })).load()).toBeNull();
+  });
+
+  it('never saves credentials', async () => {
+    const backend = new MemoryStateBackend();
+    const store = new StateStore(backend);
+    await store.save(v1.state as never, { apiKey: 'k', privateKey: 'p', scanIntervalMs: 1 });
+
+    expect((await store.load())?.config).toEqual({ scanIntervalMs: 1 });
+  });
+
+  it('saves when a fill is booked between cycles', async () => {
+    const store = new StateStore(new MemoryStateBackend());
+    const bus = new EventBus();
+    const state = { ...v1.state, bankroll: 800 } as unknown as AgentState;
+    store.attach(bus, () => ({ state, config: {} }));
+
+    bus.emit('OrderFilled', { trade: {} as Trade, shares: 10, price: 0.5 });
+
+    await vi.waitFor(async () => expect((await store.load())?.state.bankroll).toBe(800));
+  });
+});
@@ -0,0 +1,286 @@
+// State Store - Persists agent state + config across reloads (IndexedDB or a JSON file)
+import type { AgentConfig, AgentState } from '@/types/polymarket';
+import type { EventBus } from './event-bus';
+
+// Bump when the persisted shape changes, and add a migration from the old version
+export const STATE_SCHEMA_VERSION = 2;
+
+export interface PersistedAgent {
+  version: number;
+  savedAt: number;
+  state: AgentState;
+  config: Partial<AgentConfig> & Record<string, unknown>;
+}
+
+// Keyed by the version they upgrade FROM; each returns a document one version newer
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  // v2 adds the ledger: open it with the saved bankroll and the PnL realized so far
+  1: doc => ({
+    ...doc,
+    version: 2,
+    state: {
+      ...doc.state,
+      ledger: [{
+        id: 'L1',
+        at: doc.savedAt ?? 0,
+        type: 'DEPOSIT',
+        cash: doc.state?.bankroll ?? 0,
+        realizedPnl: doc.state?.realizedPnL ?? 0,
+        note: 'Balance carried over from schema v1',
+      }],
+    },
+  }),
+};
+
+// Credentials never leave memory; they come from the UI or the environment
+const SECRET_KEYS = [
+  'apiKey',
+  'apiSecret',
+  'passphrase',
+  'privateKey',
+  'openrouterApiKey',
+  'telegramBotToken',
+  'discordWebhookUrl',
+];
+
+// Storage backend; one implementation per runtime
+export interface StateBackend {
+  read(): Promise<unknown | null>;
+  write(doc: PersistedAgent): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// --- Backends ---
+
+export class MemoryStateBackend implements StateBackend {
+  private doc: PersistedAgent | null = null;
+
+  async read(): Promise<unknown | null> {
+    return this.doc ? JSON.parse(JSON.stringify(this.doc)) : null;
+  }
+
+  async write(doc: PersistedAgent): Promise<void> {
+    this.doc = doc;
+  }
+
+  async clear(): Promise<void> {
+    this.doc = null;
+  }
+}
+
+// Browser: a single record in its own IndexedDB database
+export class IndexedDBStateBackend implements StateBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName = 'clawdpm-state',
+    private storeName = 'agent',
+    private key = 'current'
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, mode);
+      const request = action(tx.objectStore(this.storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async read(): Promise<unknown | null> {
+    return (await this.run('readonly', store => store.get(this.key))) ?? null;
+  }
+
+  async write(doc: PersistedAgent): Promise<void> {
+    await this.run('readwrite', store => store.put(doc, this.key));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.delete(this.key));
+  }
+}
+
+// Headless: one JSON document, replaced atomically on every save
+export class FileStateBackend implements StateBackend {
+  constructor(private path: string) {}
+
+  // Resolved at runtime so browser bundles never pull in node:fs
+  private async fs(): Promise<typeof import('node:fs/promises')> {
+    const moduleName = 'node:fs/promises';
+    return import(/* @vite-ignore */ moduleName);
+  }
+
+  async read(): Promise<unknown | null> {
+    const fs = await this.fs();
+    try {
+      return JSON.parse(await fs.readFile(this.path, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async write(doc: PersistedAgent): Promise<void> {
+    const fs = await this.fs();
+    const tmp = `${this.path}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(doc, null, 2), 'utf8');
+    await fs.rename(tmp, this.path);
+  }
+
+  async clear(): Promise<void> {
+    const fs = await this.fs();
+    await fs.rm(this.path, { force: true });
+  }
+}
+
+// --- Store ---
+
+export class StateStore {
+  private backend: StateBackend;
+  private writing: Promise<void> = Promise.resolve(); // Saves run one after another
+
+  constructor(backend: StateBackend) {
+    this.backend = backend;
+  }
+
+  // Snapshot state and config. Failures are logged, never thrown into the trading loop.
+  save(state: AgentState, config: AgentConfig | Record<string, unknown>): Promise<void> {
+    const safeConfig: Record<string, unknown> = { ...config };
+    SECRET_KEYS.forEach(key => delete safeConfig[key]);
+
+    const doc: PersistedAgent = {
+      version: STATE_SCHEMA_VERSION,
+      savedAt: Date.now(),
+      state: { ...state, isRunning: false },
+      config: safeConfig,
+    };
+
+    this.writing = this.writing
+      .then(() => this.backend.write(doc))
+      .catch(error => console.error('[State] Failed to save agent state:', error));
+    return this.writing;
+  }
+
+  // Latest snapshot, migrated to the current schema. Null if none or unreadable.
+  async load(): Promise<PersistedAgent | null> {
+    let doc: any;
+    try {
+      doc = await this.backend.read();
+    } catch (error) {
+      console.error('[State] Failed to read agent state:', error);
+      return null;
+    }
+    if (!doc || typeof doc !== 'object') return null;
+
+    let version = typeof doc.version === 'number' ? doc.version : 0;
+    if (version > STATE_SCHEMA_VERSION) {
+      console.warn(`[State] Saved state is schema v${version}, newer than v${STATE_SCHEMA_VERSION} - ignoring it`);
+      return null;
+    }
+
+    while (version < STATE_SCHEMA_VERSION) {
+      const migrate = MIGRATIONS[version];
+      if (!migrate) {
+        console.warn(`[State] No migration from schema v${version} - starting fresh`);
+        return null;
+      }
+      doc = migrate(doc);
+      version++;
+      console.log(`[State] Migrated saved state to schema v${version}`);
+    }
+
+    return {
+      version,
+      savedAt: doc.savedAt ?? 0,
+      state: reviveState(doc.state),
+      config: doc.config ?? {},
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  // Save after every cycle, every booked fill or settlement, and on stop.
+  // One save runs at a time; a burst collapses into one more.
+  attach(
+    bus: EventBus,
+    snapshot: () => { state: AgentState; config: AgentConfig | Record<string, unknown> }
+  ): () => void {
+    let saving = false;
+    let dirty = false;
+
+    const save = async () => {
+      if (saving) {
+        dirty = true;
+        return;
+      }
+      saving = true;
+      do {
+        dirty = false;
+        const { state, config } = snapshot();
+        await this.save(state, config);
+      } while (dirty);
+      saving = false;
+    };
+
+    const subscriptions = [
+      bus.on('CycleCompleted', save),
+      bus.on('OrderFilled', save),
+      bus.on('OrderFinished', save),
+      bus.on('PositionSettled', save),
+      bus.on('AgentStopped', save),
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+// JSON turns Dates into strings; bring them back and drop in-flight flags
+function reviveState(state: AgentState): AgentState {
+  const toDate = (value: unknown): Date => value instanceof Date ? value : new Date(value as string);
+
+  return {
+    ...state,
+    isRunning: false,
+    lastScanTime: state.lastScanTime ? toDate(state.lastScanTime) : undefined,
+    trades: (state.trades ?? []).map(t => ({ ...t, timestamp: toDate(t.timestamp) })),
+    settlements: (state.settlements ?? []).map(s => ({ ...s, settledAt: toDate(s.settledAt) })),
+    positions: (state.positions ?? []).map(p => ({ ...p, exitPending: false })),
+    opportunities: [],
+  };
+}
+
+// Pick the backend for this runtime
+export const createStateBackend = (filePath?: string): StateBackend => {
+  if (filePath) return new FileStateBackend(filePath);
+  if (typeof indexedDB !== 'undefined') return new IndexedDBStateBackend();
+  return new MemoryStateBackend();
+};
+
+// Singleton
+let stateStoreInstance: StateStore | null = null;
+
+export const initStateStore = (backend: StateBackend = createStateBackend()): StateStore => {
+  stateStoreInstance = new StateStore(backend);
+  return stateStoreInstance;
+};
+
+export const getStateStore = (): StateStore | null => stateStoreInstance;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentConfig, Market, OrderBook } from '@/types/polymarket';
+import { groupMarketsByEvent } from '../market-universe';
+import { DEFAULT_SAFETY_LIMITS } from '../risk-manager';
+import type { StrategyContext } from '../strategy-registry';
+import { complementArbitrageStrategy } from './complement-arbitrage';
+
+// One candidate of negRisk event e1; YES asks at `ask`, bids at `bid`
+const candidate = (id: string, eventMarketCount?: number): Market => ({
+  id,
+  question: `Will ${id} win?`,
+  slug: id,
+  endDate: '',
+  liquidity: 5000,
+  volume: 100,
+  outcomes: [{ id: `${id}-yes`, name: 'Yes', price: 0.3 }, { id: `${id}-no`, name: 'No', price: 0.7 }],
+  active: true,
+  eventId: 'e1',
+  eventTitle: 'Who wins?',
+  negRisk: true,
+  eventMarketCount,
+});
+
+const context = (markets: Market[], ask: number, bid = ask - 0.01): StrategyContext => ({
+  events: groupMarketsByEvent(markets),
+  config: { safetyLimits: DEFAULT_SAFETY_LIMITS } as AgentConfig,
+  now: 0,
+  llm: null,
+  getOrderBook: async (tokenId): Promise<OrderBook> => ({
+    tokenId,
+    asks: [{ price: ask, size: 100 }],
+    bids: [{ price: bid, size: 100 }],
+  }),
+});
+
+const params = complementArbitrageStrategy.defaultParams;
+
+describe('complement arbitrage', () => {
+  it('buys a negRisk set when every open candidate is present', async () => {
+    const markets = ['a', 'b', 'c'].map(id => candidate(id, 3));
+    const [opportunity] = await complementArbitrageStrategy.evaluate(context(markets, 0.3), params);
+
+    expect(opportunity.legs?.map(l => l.outcome.id)).toEqual(['a-yes', 'b-yes', 'c-yes']);
+    expect(opportunity.lockedProfit).toBeCloseTo(0.1);
+  });
+
+  it('skips a set when Gamma lists candidates the cache is missing', async () => {
+    const markets = ['a', 'b'].map(id => candidate(id, 3));
+    expect(await complementArbitrageStrategy.evaluate(context(markets, 0.3), params)).toEqual([]);
+  });
+
+  it('skips a set whose candidate count is unknown', async () => {
+    const markets = ['a', 'b', 'c'].map(id => candidate(id));
+    expect(await complementArbitrageStrategy.evaluate(context(markets, 0.3), params)).toEqual([]);
+  });
+
+  it('reports sell-side sets only when asked to', async () => {
+    const markets = ['a', 'b', 'c'].map(id => candidate(id, 3));
+
+    expect(await complementArbitrageStrategy.evaluate(context(markets, 0.4, 0.38), params)).toEqual([]);
+    const [sell] = await complementArbitrageStrategy.evaluate(context(markets, 0.4, 0.38), { ...params, includeSellSide: true });
+    expect(sell.legs?.every(l => l.side === 'SELL')).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+// Complement Arbitrage - A full set of outcomes always pays exactly $1
+//
+// Buying every outcome for less than $1 (asks) or selling every outcome for
+// more than $1 (bids) locks in the difference. A "set" is one binary/multi-outcome
+// market, or the YES side of every open candidate in a negRisk event. A negRisk set
+// missing even one candidate is a bet, not an arbitrage, so partial sets are skipped.
+// Selling needs a set minted first (CTF split), which isn't wired up yet: sell-side
+// sets are only reported, and the executor declines them.
+import type { BettingOpportunity, MarketEvent, Market, OpportunityLeg, OrderBook, Outcome } from '@/types/polymarket';
+import { primaryOutcome } from '../outcomes';
+import type { Strategy, StrategyContext } from '../strategy-registry';
+
+export interface ComplementArbitrageParams {
+  [key: string]: number | boolean;
+  feeRateBps: number;       // Taker fee rate; charged as rate * min(p, 1 - p) per share
+  minProfitPerSet: number;  // Locked-in $ per share set, after fees
+  maxSets: number;          // Outcome sets whose books are fetched per scan
+  includeSellSide: boolean; // Report sets whose bids pay over $1 (not executable yet)
+}
+
+interface OutcomeSet {
+  id: string;
+  title: string;
+  members: { market: Market; outcome: Outcome }[];
+}
+
+// Fee for one share at this price
+export const legFee = (price: number, feeRateBps: number): number =>
+  (feeRateBps / 10000) * Math.min(price, 1 - price);
+
+// Every outcome set in an event
+function outcomeSets(event: MarketEvent): OutcomeSet[] {
+  const open = event.markets.filter(m => m.active && !m.closed);
+
+  // negRisk: exactly one candidate resolves YES. Closed siblings already resolved NO.
+  // Every open candidate Gamma lists must be here; the cache may miss some.
+  if (event.negRisk && event.markets.length > 1) {
+    if (event.marketCount === undefined || open.length !== event.marketCount) return [];
+
+    const members = open.flatMap(market => {
+      const yes = primaryOutcome(market);
+      return yes ? [{ market, outcome: yes }] : [];
+    });
+    return members.length > 1 && members.length === open.length
+      ? [{ id: `event:${event.id}`, title: event.title, members }]
+      : [];
+  }
+
+  return open
+    .filter(m => m.outcomes.length > 1)
+    .map(market => ({
+      id: `market:${market.id}`,
+      title: market.question,
+      members: market.outcomes.map(outcome => ({ market, outcome })),
+    }));
+}
+
+// Price a set off the top of each book; null when any leg has no quote
+function priceSet(
+  set: OutcomeSet,
+  books: (OrderBook | null)[],
+  side: 'BUY' | 'SELL',
+  params: ComplementArbitrageParams
+): { legs: OpportunityLeg[]; total: number; fees: number } | null {
+  const legs: OpportunityLeg[] = [];
+  let total = 0;
+  let fees = 0;
+
+  for (let i = 0; i < set.members.length; i++) {
+    const top = side === 'BUY' ? books[i]?.asks[0] : books[i]?.bids[0];
+    if (!top || top.size <= 0) return null;
+
+    legs.push({ ...set.members[i], side, price: top.price, size: top.size });
+    total += top.price;
+    fees += legFee(top.price, params.feeRateBps);
+  }
+
+  return { legs, total, fees };
+}
+
+export const complementArbitrageStrategy: Strategy<ComplementArbitrageParams> = {
+  id: 'complement-arbitrage',
+  name: 'Complement Arbitrage',
+  description: 'Buys (or sells) every outcome of a market or negRisk event when the set costs less (or pays more) than $1',
+  needsOrderBooks: true,
+  defaultParams: {
+    feeRateBps: 0,
+    minProfitPerSet: 0.005,
+    maxSets: 15,
+    includeSellSide: false,
+  },
+
+  async evaluate(context: StrategyContext, params: ComplementArbitrageParams): Promise<BettingOpportunity[]> {
+    const sets = context.events
+      .filter(e => e.liquidity >= context.config.safetyLimits.minLiquidity)
+      .sort((a, b) => b.volume - a.volume)
+      .flatMap(outcomeSets)
+      .slice(0, params.maxSets);
+
+    const opportunities: BettingOpportunity[] = [];
+
+    for (const set of sets) {
+      const books = await Promise.all(set.members.map(m => context.getOrderBook(m.outcome.id)));
+
+      const buy = priceSet(set, books, 'BUY', params);
+      if (buy) {
+        const profit = 1 - buy.total - buy.fees;
+        if (profit > params.minProfitPerSet) {
+          opportunities.push(toOpportunity(set, buy.legs, profit, buy.total + buy.fees,
+            `Buying all ${buy.legs.length} outcomes costs ${(buy.total * 100).toFixed(1)}c + ${(buy.fees * 100).toFixed(2)}c fees, pays $1`));
+        }
+      }
+
+      if (!params.includeSellSide) continue;
+
+      const sell = priceSet(set, books, 'SELL', params);
+      if (sell) {
+        const profit = sell.total - sell.fees - 1;
+        if (profit > params.minProfitPerSet) {
+          opportunities.push(toOpportunity(set, sell.legs, profit, 1,
+            `Selling all ${sell.legs.length} outcomes pays ${(sell.total * 100).toFixed(1)}c - ${(sell.fees * 100).toFixed(2)}c fees for a $1 set`));
+        }
+      }
+    }
+
+    return opportunities;
+  },
+};
+
+function toOpportunity(
+  set: OutcomeSet,
+  legs: OpportunityLeg[],
+  profitPerSet: number,
+  capitalPerSet: number,
+  reasoning: string
+): BettingOpportunity {
+  return {
+    market: legs[0].market,
+    outcome: legs[0].outcome,
+    strategy: complementArbitrageStrategy.id,
+    recommendedBet: 'YES',
+    confidence: 1, // Locked in at resolution, whatever the outcome
+    winProbability: 1,
+    suggestedAmount: 0,
+    expectedValue: profitPerSet / capitalPerSet,
+    reasoning: `${set.title}: ${reasoning}`,
+    legs,
+    lockedProfit: profitPerSet,
+  };
+}
@@ -0,0 +1,76 @@
+// Event Siblings - negRisk candidates priced against their share of the field
+import type { BettingOpportunity } from '@/types/polymarket';
+import { primaryOutcome, resolveBetOutcome } from '../outcomes';
+import { tradableMarkets, type Strategy, type StrategyContext } from '../strategy-registry';
+
+export interface EventSiblingsParams {
+  [key: string]: number;
+  minEdge: number;
+}
+
+export const eventSiblingsStrategy: Strategy<EventSiblingsParams> = {
+  id: 'event-siblings',
+  name: 'Event Siblings',
+  description: 'Sibling YES prices of a negRisk event should sum to ~1; trades candidates far from their fair share',
+  defaultParams: {
+    minEdge: 0.05,
+  },
+
+  evaluate(context: StrategyContext, params: EventSiblingsParams): BettingOpportunity[] {
+    const opportunities: BettingOpportunity[] = [];
+
+    for (const event of context.events) {
+      if (!event.negRisk || event.markets.length <= 1) continue;
+
+      const siblings = event.markets.filter(m => m.active && !m.closed);
+      const total = siblings.reduce((sum, m) => sum + (primaryOutcome(m)?.price ?? 0), 0);
+      if (total <= 0) continue;
+
+      for (const market of tradableMarkets(event, context.config)) {
+        const yes = primaryOutcome(market);
+        if (!yes || yes.price <= 0 || yes.price >= 1) continue;
+
+        const fair = yes.price / total;
+        const reasoning = `Priced ${(yes.price * 100).toFixed(1)}% vs ${(fair * 100).toFixed(1)}% fair share of ${siblings.length} candidates (sum ${(total * 100).toFixed(1)}%)`;
+
+        if (fair > yes.price) {
+          const expectedValue = fair * ((1 / yes.price) - 1) - (1 - fair);
+          if (expectedValue > params.minEdge) {
+            opportunities.push({
+              market,
+              outcome: yes,
+              strategy: eventSiblingsStrategy.id,
+              recommendedBet: 'YES',
+              confidence: fair,
+              winProbability: fair,
+              suggestedAmount: 0,
+              expectedValue,
+              reasoning,
+            });
+          }
+        } else {
+          const no = resolveBetOutcome(market, yes, 'NO');
+          if (!no || no.price <= 0 || no.price >= 1) continue;
+
+          const winProb = 1 - fair;
+          const expectedValue = winProb * ((1 / no.price) - 1) - fair;
+          if (expectedValue > params.minEdge) {
+            opportunities.push({
+              market,
+              outcome: no,
+              strategy: eventSiblingsStrategy.id,
+              recommendedBet: 'NO',
+              confidence: winProb,
+              winProbability: winProb,
+              suggestedAmount: 0,
+              expectedValue,
+              reasoning,
+            });
+          }
+        }
+      }
+    }
+
+    return opportunities;
+  },
+};
@@ -0,0 +1,19 @@
+// Built-in strategies
+import type { StrategySettings } from '@/types/polymarket';
+import { StrategyRegistry } from '../strategy-registry';
+import { meanReversionStrategy } from './mean-reversion';
+import { eventSiblingsStrategy } from './event-siblings';
+import { llmStrategy } from './llm';
+import { complementArbitrageStrategy } from './complement-arbitrage';
+
+export { meanReversionStrategy, eventSiblingsStrategy, llmStrategy, complementArbitrageStrategy };
+
+// Registry with every built-in strategy, overridden by AgentConfig.strategies
+export const createDefaultRegistry = (settings: Record<string, StrategySettings> = {}): StrategyRegistry => {
+  const registry = new StrategyRegistry();
+  registry.register(complementArbitrageStrategy, settings[complementArbitrageStrategy.id]);
+  registry.register(llmStrategy, settings[llmStrategy.id]);
+  registry.register(eventSiblingsStrategy, settings[eventSiblingsStrategy.id]);
+  registry.register(meanReversionStrategy, settings[meanReversionStrategy.id]);
+  return registry;
+};
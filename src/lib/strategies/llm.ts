@@ -0,0 +1,33 @@
+// LLM - Ask the configured model about the biggest events
+import type { BettingOpportunity } from '@/types/polymarket';
+import type { Strategy, StrategyContext } from '../strategy-registry';
+
+export interface LLMStrategyParams {
+  [key: string]: number;
+  maxEvents: number;     // Top events by volume sent to the model per scan
+  maxConcurrent: number;
+}
+
+export const llmStrategy: Strategy<LLMStrategyParams> = {
+  id: 'llm',
+  name: 'LLM Analysis',
+  description: 'Compares model-estimated probabilities with market prices; needs an initialized LLM analyzer',
+  defaultParams: {
+    maxEvents: 10,
+    maxConcurrent: 2,
+  },
+
+  async evaluate(context: StrategyContext, params: LLMStrategyParams): Promise<BettingOpportunity[]> {
+    const llm = context.llm;
+    if (!llm) return [];
+
+    const topEvents = [...context.events]
+      .sort((a, b) => b.volume - a.volume)
+      .slice(0, params.maxEvents);
+
+    const analyses = await llm.analyzeEvents(topEvents, params.maxConcurrent);
+    return analyses
+      .map(a => llm.analysisToOpportunity(a))
+      .filter(Boolean) as BettingOpportunity[];
+  },
+};
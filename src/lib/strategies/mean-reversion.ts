@@ -0,0 +1,105 @@
+// Mean Reversion - Extreme prices drift back toward 50%
+import type { BettingOpportunity, Market, Outcome } from '@/types/polymarket';
+import { resolveBetOutcome } from '../outcomes';
+import { tradableMarkets, type Strategy, type StrategyContext } from '../strategy-registry';
+
+export interface MeanReversionParams {
+  [key: string]: number | undefined;
+  undervaluedThreshold?: number; // Defaults to AgentConfig.undervaluedThreshold
+  overvaluedThreshold?: number;  // Defaults to AgentConfig.overvaluedThreshold
+  undervaluedReversion: number;
+  overvaluedReversion: number;
+  minEdge: number;
+}
+
+export const meanReversionStrategy: Strategy<MeanReversionParams> = {
+  id: 'mean-reversion',
+  name: 'Mean Reversion',
+  description: 'Bets YES on cheap outcomes and NO on expensive ones, assuming prices revert toward 50%',
+  defaultParams: {
+    undervaluedReversion: 0.3,  // 30% mean reversion
+    overvaluedReversion: 0.25,  // 25% mean reversion for overvalued
+    minEdge: 0.05,              // Min 5% edge
+  },
+
+  evaluate(context: StrategyContext, params: MeanReversionParams): BettingOpportunity[] {
+    const opportunities: BettingOpportunity[] = [];
+
+    for (const event of context.events) {
+      // Sibling candidates of a negRisk event are the event-siblings strategy's job
+      if (event.negRisk && event.markets.length > 1) continue;
+
+      for (const market of tradableMarkets(event, context.config)) {
+        for (const outcome of market.outcomes) {
+          const opportunity = analyzeOutcome(market, outcome, {
+            ...params,
+            undervaluedThreshold: params.undervaluedThreshold ?? context.config.undervaluedThreshold,
+            overvaluedThreshold: params.overvaluedThreshold ?? context.config.overvaluedThreshold,
+          });
+          if (opportunity) {
+            opportunities.push(opportunity);
+          }
+        }
+      }
+    }
+
+    return opportunities;
+  },
+};
+
+// Analyze a single outcome for opportunities
+function analyzeOutcome(
+  market: Market,
+  outcome: Outcome,
+  params: Required<MeanReversionParams>
+): BettingOpportunity | null {
+  const price = outcome.price;
+
+  // Undervalued (bet YES when price is low)
+  if (price < params.undervaluedThreshold) {
+    // If market says 20%, we bet it's closer to 35%
+    const estimatedProb = price + (0.5 - price) * params.undervaluedReversion;
+
+    // Calculate expected value
+    const potentialReturn = (1 / price) - 1;
+    const expectedValue = (estimatedProb * potentialReturn) - ((1 - estimatedProb) * 1);
+
+    if (expectedValue > params.minEdge) {
+      return {
+        market,
+        outcome,
+        strategy: meanReversionStrategy.id,
+        recommendedBet: 'YES',
+        confidence: estimatedProb,
+        winProbability: estimatedProb,
+        suggestedAmount: 0, // Will be calculated by RiskManager
+        expectedValue,
+      };
+    }
+  }
+
+  // Overvalued (bet NO when price is high, i.e. buy the complement)
+  const complement = resolveBetOutcome(market, outcome, 'NO');
+  if (price > params.overvaluedThreshold && complement && complement.price > 0) {
+    // If market says 85%, we bet it's closer to 70%
+    const estimatedProb = price - (price - 0.5) * params.overvaluedReversion;
+    const potentialReturn = (1 / complement.price) - 1;
+    const winProb = 1 - estimatedProb; // Probability YES is wrong
+    const expectedValue = (winProb * potentialReturn) - ((1 - winProb) * 1);
+
+    if (expectedValue > params.minEdge) {
+      return {
+        market,
+        outcome: complement,
+        strategy: meanReversionStrategy.id,
+        recommendedBet: 'NO',
+        confidence: winProb,
+        winProbability: winProb,
+        suggestedAmount: 0,
+        expectedValue,
+      };
+    }
+  }
+
+  return null;
+}
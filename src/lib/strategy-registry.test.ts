@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentConfig, BettingOpportunity, Market } from '@/types/polymarket';
+import { initEventBus } from './event-bus';
+import { DEFAULT_SAFETY_LIMITS } from './risk-manager';
+import { StrategyRegistry, type Strategy, type StrategyContext } from './strategy-registry';
+
+const market: Market = {
+  id: 'm1',
+  question: 'Will it rain?',
+  slug: 'rain',
+  endDate: '',
+  liquidity: 5000,
+  volume: 100,
+  outcomes: [{ id: 'yes', name: 'Yes', price: 0.3 }, { id: 'no', name: 'No', price: 0.7 }],
+  active: true,
+};
+
+const context: StrategyContext = {
+  events: [],
+  config: { safetyLimits: DEFAULT_SAFETY_LIMITS } as AgentConfig,
+  now: 0,
+  llm: null,
+  getOrderBook: async () => null,
+};
+
+const opportunity = (outcomeId: string, expectedValue: number): BettingOpportunity => ({
+  market,
+  outcome: market.outcomes.find(o => o.id === outcomeId)!,
+  strategy: '',
+  recommendedBet: 'YES',
+  confidence: 0.6,
+  winProbability: 0.5,
+  suggestedAmount: 10,
+  expectedValue,
+});
+
+// Finds one opportunity per call with its `ev` param as the expected value
+const fixed = (id: string, outcomeId: string, enabledByDefault?: boolean): Strategy<{ ev: number }> => ({
+  id,
+  name: id,
+  defaultParams: { ev: 1 },
+  enabledByDefault,
+  evaluate: (_context, params) => [opportunity(outcomeId, params.ev)],
+});
+
+describe('StrategyRegistry', () => {
+  it('merges default params with registration settings and AgentConfig.strategies', () => {
+    const registry = new StrategyRegistry();
+    registry.register(fixed('a', 'yes'), { params: { ev: 2 } });
+    registry.register(fixed('b', 'no', false));
+
+    registry.configure({ b: { enabled: true, params: { ev: 3 } }, unknown: { enabled: true } });
+
+    expect(registry.list().map(s => [s.id, s.enabled, s.params.ev])).toEqual([['a', true, 2], ['b', true, 3]]);
+    expect(registry.isEnabled('unknown')).toBe(false);
+  });
+
+  it('runs enabled strategies, tags and dedupes what they find, and survives one failing', async () => {
+    const bus = initEventBus();
+    const events: object[] = [];
+    bus.onAny(({ at: _at, ...event }) => {
+      events.push(event);
+    });
+
+    const registry = new StrategyRegistry();
+    registry.register(fixed('low', 'yes'));
+    registry.register(fixed('high', 'yes'), { params: { ev: 5 } });
+    registry.register(fixed('other', 'no'));
+    registry.register(fixed('off', 'no'), { enabled: false });
+    registry.register({
+      id: 'broken',
+      name: 'Broken',
+      defaultParams: {},
+      evaluate: () => {
+        throw new Error('no data');
+      },
+    });
+
+    const found = await registry.run(context, id => id !== 'other');
+
+    expect(found.map(o => [o.strategy, o.outcome.id, o.expectedValue])).toEqual([['high', 'yes', 5]]);
+    expect(events).toEqual([
+      { type: 'StrategyCompleted', strategyId: 'low', opportunities: 1 },
+      { type: 'StrategyCompleted', strategyId: 'high', opportunities: 1 },
+      { type: 'StrategyFailed', strategyId: 'broken', error: 'no data' },
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+// Strategy Registry - Pluggable opportunity finders with per-strategy config
+import type {
+  AgentConfig,
+  BettingOpportunity,
+  Market,
+  MarketEvent,
+  OrderBook,
+  StrategySettings,
+} from '@/types/polymarket';
+import type { LLMAnalyzer } from './llm-analyzer';
+import { errorMessage, getEventBus } from './event-bus';
+
+// What every strategy gets to look at on a scan
+export interface StrategyContext {
+  events: MarketEvent[]; // Active events, streamed quotes already applied
+  config: AgentConfig;
+  now: number;
+  getOrderBook: (tokenId: string) => Promise<OrderBook | null>;
+  llm: LLMAnalyzer | null;
+}
+
+export type StrategyParams = Record<string, number | string | boolean | undefined>;
+
+export interface Strategy<P extends StrategyParams = StrategyParams> {
+  id: string;
+  name: string;
+  description?: string;
+  defaultParams: P;
+  enabledByDefault?: boolean;
+  needsOrderBooks?: boolean; // Finds nothing without live books, so backtests can't judge it
+  evaluate(context: StrategyContext, params: P): Promise<BettingOpportunity[]> | BettingOpportunity[];
+}
+
+export interface StrategyInfo {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  needsOrderBooks: boolean;
+  params: StrategyParams;
+}
+
+interface RegisteredStrategy {
+  strategy: Strategy<any>;
+  enabled: boolean;
+  params: StrategyParams;
+}
+
+// Markets of an event that are open and liquid enough to trade
+export const tradableMarkets = (event: MarketEvent, config: AgentConfig): Market[] =>
+  event.markets.filter(m =>
+    m.active && !m.closed && m.liquidity >= config.safetyLimits.minLiquidity
+  );
+
+export class StrategyRegistry {
+  private entries = new Map<string, RegisteredStrategy>();
+
+  // Register (or replace) a strategy, optionally with overrides
+  register<P extends StrategyParams>(strategy: Strategy<P>, settings: StrategySettings = {}): void {
+    this.entries.set(strategy.id, {
+      strategy,
+      enabled: settings.enabled ?? strategy.enabledByDefault ?? true,
+      params: { ...strategy.defaultParams, ...settings.params },
+    });
+  }
+
+  unregister(id: string): void {
+    this.entries.delete(id);
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const entry = this.entries.get(id);
+    if (entry) entry.enabled = enabled;
+  }
+
+  setParams(id: string, params: StrategyParams): void {
+    const entry = this.entries.get(id);
+    if (entry) entry.params = { ...entry.params, ...params };
+  }
+
+  // Apply AgentConfig.strategies; unknown ids are ignored
+  configure(settings: Record<string, StrategySettings> = {}): void {
+    for (const [id, s] of Object.entries(settings)) {
+      if (s.enabled !== undefined) this.setEnabled(id, s.enabled);
+      if (s.params) this.setParams(id, s.params);
+    }
+  }
+
+  list(): StrategyInfo[] {
+    return Array.from(this.entries.values()).map(({ strategy, enabled, params }) => ({
+      id: strategy.id,
+      name: strategy.name,
+      description: strategy.description,
+      enabled,
+      needsOrderBooks: strategy.needsOrderBooks ?? false,
+      params: { ...params },
+    }));
+  }
+
+  isEnabled(id: string): boolean {
+    return this.entries.get(id)?.enabled ?? false;
+  }
+
+  // Run every enabled strategy (optionally only those `include` accepts).
+  // One failing strategy never stops the others.
+  async run(
+    context: StrategyContext,
+    include: (strategyId: string) => boolean = () => true
+  ): Promise<BettingOpportunity[]> {
+    const found: BettingOpportunity[] = [];
+
+    for (const { strategy, enabled, params } of this.entries.values()) {
+      if (!enabled || !include(strategy.id)) continue;
+
+      try {
+        const opportunities = await strategy.evaluate(context, params);
+        found.push(...opportunities.map(o => ({ ...o, strategy: strategy.id })));
+        if (opportunities.length > 0) {
+          getEventBus().emit('StrategyCompleted', { strategyId: strategy.id, opportunities: opportunities.length });
+        }
+      } catch (error) {
+        getEventBus().emit('StrategyFailed', { strategyId: strategy.id, error: errorMessage(error) });
+      }
+    }
+
+    return dedupeOpportunities(found);
+  }
+}
+
+// Two strategies flagging the same bet: keep the one with the higher EV
+export function dedupeOpportunities(opportunities: BettingOpportunity[]): BettingOpportunity[] {
+  const best = new Map<string, BettingOpportunity>();
+  for (const opp of opportunities) {
+    const key = opp.legs
+      ? `basket:${opp.legs.map(l => `${l.outcome.id}:${l.side}`).join(',')}`
+      : opp.outcome.id; // YES on one side and NO on the other buy the same token
+    const current = best.get(key);
+    if (!current || opp.expectedValue > current.expectedValue) {
+      best.set(key, opp);
+    }
+  }
+  return Array.from(best.values());
+}
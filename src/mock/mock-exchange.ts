@@ -0,0 +1,539 @@
+// Mock Exchange - In-memory Gamma + CLOB stand-in driven by recorded fixtures
+// Serves raw payloads in the same shape as the real APIs so polymarket-api.ts
+// parses them unchanged.
+
+interface RawLevel {
+  price: string;
+  size: string;
+}
+
+// Gamma /markets item, in the fields the mock reads or rewrites
+export interface RawToken {
+  token_id: string;
+  outcome: string;
+  price: number;
+  winner?: boolean;
+}
+
+export interface RawMarket {
+  id: string;
+  question: string;
+  slug: string;
+  endDate: string;
+  updatedAt: string;
+  liquidity: string;
+  volume: string;
+  active: boolean;
+  closed: boolean;
+  category?: string;
+  image?: string;
+  outcomes?: string;      // JSON-encoded arrays, or `tokens` instead
+  outcomePrices?: string;
+  clobTokenIds?: string;
+  tokens?: RawToken[];
+  negRisk?: boolean;
+  groupItemTitle?: string;
+  events?: { id: string; title: string; slug?: string }[];
+  umaResolutionStatus?: string;
+}
+
+interface RawEvent {
+  id: string;
+  title: string;
+  slug: string;
+  endDate: string;
+  category?: string;
+  negRisk: boolean;
+  active: boolean;
+  closed: boolean;
+  volume: number;
+  liquidity: number;
+  markets: RawMarket[];
+}
+
+// POST /order body as toOrderPayload() sends it
+export interface RawOrderPayload {
+  order?: {
+    tokenId?: string;
+    makerAmount?: string;
+    takerAmount?: string;
+    side?: 'BUY' | 'SELL' | number;
+    signature?: string;
+  };
+  owner?: string;
+  orderType?: 'GTC' | 'FOK' | 'GTD';
+}
+
+interface Level {
+  price: number;
+  size: number;
+}
+
+// Messages of the CLOB market channel (wss .../ws/market)
+export type MarketChannelEvent =
+  | { event_type: 'book'; asset_id: string; market: string; bids: RawLevel[]; asks: RawLevel[]; timestamp: string }
+  | {
+      event_type: 'price_change';
+      asset_id: string;
+      market: string;
+      changes: { price: string; side: 'BUY' | 'SELL'; size: string }[]; // size 0 removes the level
+      timestamp: string;
+    };
+
+export interface MockFixtures {
+  markets: RawMarket[];
+  books: Record<string, { market: string; bids: RawLevel[]; asks: RawLevel[] }>;
+}
+
+export type ScenarioStep = { atMs: number } & (
+  | { action: 'price'; tokenId: string; price: number }
+  | { action: 'rejectOrders'; count?: number; reason?: string }
+  | { action: 'acceptOrders' }
+  | { action: 'resolve'; marketId: string; winner: string }
+);
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  steps: ScenarioStep[];
+}
+
+interface MockOrder {
+  id: string;
+  status: 'LIVE' | 'MATCHED' | 'CANCELED';
+  market: string;
+  asset_id: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  original_size: number;
+  size_matched: number;
+  owner: string;
+  created_at: number; // unix seconds
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+const TOKEN_DECIMALS = 1e6;
+const round = (value: number, decimals = 4) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+const parseList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string') return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+export class MockExchange {
+  private markets: RawMarket[];
+  private books = new Map<string, { market: string; bids: Level[]; asks: Level[] }>();
+  private orders = new Map<string, MockOrder>();
+  private history = new Map<string, { t: number; p: number }[]>();
+  private rejectRemaining = 0;
+  private rejectReason = 'order rejected by mock scenario';
+  private orderSeq = 0;
+  private listeners = new Set<(event: MarketChannelEvent) => void>();
+
+  constructor(fixtures: MockFixtures, private now: () => number = () => Date.now()) {
+    this.markets = structuredClone(fixtures.markets);
+    for (const [tokenId, book] of Object.entries(fixtures.books)) {
+      const toLevels = (levels: RawLevel[]) =>
+        levels.map(l => ({ price: parseFloat(l.price), size: parseFloat(l.size) }));
+      this.books.set(tokenId, {
+        market: book.market,
+        bids: toLevels(book.bids).sort((a, b) => b.price - a.price),
+        asks: toLevels(book.asks).sort((a, b) => a.price - b.price),
+      });
+      this.recordPrice(tokenId);
+    }
+  }
+
+  // --- Gamma ---
+
+  listMarkets(query: URLSearchParams): RawMarket[] {
+    const ids = query.getAll('id');
+    let rows = ids.length > 0
+      ? this.markets.filter(m => ids.includes(String(m.id)))
+      : this.markets.filter(m => {
+          if (query.get('closed') === 'false' && m.closed) return false;
+          if (query.get('active') === 'true' && !m.active) return false;
+          return true;
+        });
+
+    const order = query.get('order');
+    if (order === 'volume') rows = [...rows].sort((a, b) => parseFloat(b.volume) - parseFloat(a.volume));
+    if (order === 'updatedAt') rows = [...rows].sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+
+    const offset = parseInt(query.get('offset') || '0', 10);
+    const limit = parseInt(query.get('limit') || '100', 10);
+    return structuredClone(rows.slice(offset, offset + limit));
+  }
+
+  // Events with every child market; `id` filters pick events whether open or not
+  listEvents(query: URLSearchParams): RawEvent[] {
+    const ids = query.getAll('id');
+    const events = new Map<string, RawEvent>();
+    for (const market of this.listMarkets(new URLSearchParams({ closed: query.get('closed') || '' }))) {
+      const parent = market.events?.[0];
+      if (!parent || (ids.length > 0 && !ids.includes(String(parent.id)))) continue;
+
+      const event: RawEvent = events.get(parent.id) ?? {
+        id: parent.id,
+        title: parent.title,
+        slug: parent.slug || '',
+        endDate: market.endDate,
+        category: market.category,
+        negRisk: !!market.negRisk,
+        active: true,
+        closed: false,
+        volume: 0,
+        liquidity: 0,
+        markets: [],
+      };
+      event.volume += parseFloat(market.volume);
+      event.liquidity += parseFloat(market.liquidity);
+      event.markets.push(market);
+      events.set(parent.id, event);
+    }
+
+    const offset = parseInt(query.get('offset') || '0', 10);
+    const limit = parseInt(query.get('limit') || '100', 10);
+    return Array.from(events.values())
+      .sort((a, b) => b.volume - a.volume)
+      .slice(offset, offset + limit);
+  }
+
+  // --- CLOB public ---
+
+  getBook(tokenId: string): MockResponse {
+    const event = this.bookEvent(tokenId);
+    if (!event) return { status: 404, body: { error: 'No orderbook exists for the requested token id' } };
+
+    const { event_type: _type, ...book } = event;
+    return { status: 200, body: book };
+  }
+
+  getPrice(tokenId: string, side: string | null): MockResponse {
+    const book = this.books.get(tokenId);
+    if (!book) return { status: 404, body: { error: 'No orderbook exists for the requested token id' } };
+
+    const level = side === 'SELL' ? book.bids[0] : book.asks[0];
+    return level ? { status: 200, body: { price: level.price.toFixed(2) } } : { status: 404, body: { error: 'Empty book side' } };
+  }
+
+  getPriceHistory(tokenId: string): MockResponse {
+    return { status: 200, body: { history: this.history.get(tokenId) ?? [] } };
+  }
+
+  // --- CLOB market channel ---
+
+  // Full book as the channel sends it on subscribe; the real CLOB lists both sides worst-to-best
+  bookEvent(tokenId: string): MarketChannelEvent | null {
+    const book = this.books.get(tokenId);
+    if (!book) return null;
+
+    const toRaw = (levels: Level[]) => levels.map(l => ({ price: l.price.toFixed(2), size: l.size.toFixed(2) }));
+    return {
+      event_type: 'book',
+      asset_id: tokenId,
+      market: book.market,
+      bids: toRaw([...book.bids].reverse()),
+      asks: toRaw([...book.asks].reverse()),
+      timestamp: String(this.now()),
+    };
+  }
+
+  // Book snapshots when a scenario moves or clears a book, level changes when orders fill
+  onMarketEvent(listener: (event: MarketChannelEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private publishBook(tokenId: string): void {
+    const event = this.bookEvent(tokenId);
+    if (event) this.listeners.forEach(listener => listener(event));
+  }
+
+  // --- CLOB private ---
+
+  placeOrder(payload: RawOrderPayload | undefined): MockResponse {
+    const order = payload?.order;
+    if (!order?.tokenId || !order.makerAmount || !order.takerAmount || !order.signature) {
+      return { status: 400, body: { error: 'Invalid order payload' } };
+    }
+
+    if (this.rejectRemaining > 0) {
+      this.rejectRemaining--;
+      return { status: 400, body: { error: this.rejectReason } };
+    }
+
+    const book = this.books.get(order.tokenId);
+    if (!book) return { status: 400, body: { error: 'Unknown token id' } };
+
+    const side: 'BUY' | 'SELL' = order.side === 'SELL' || order.side === 1 ? 'SELL' : 'BUY';
+    const maker = Number(order.makerAmount) / TOKEN_DECIMALS;
+    const taker = Number(order.takerAmount) / TOKEN_DECIMALS;
+    const size = side === 'BUY' ? taker : maker;
+    const price = round(side === 'BUY' ? maker / taker : taker / maker);
+
+    if (payload?.orderType === 'FOK' && this.matchable(book, side, price) < size) {
+      return {
+        status: 200,
+        body: { success: false, errorMsg: "order couldn't be fully filled. FOK orders are fully filled or killed." },
+      };
+    }
+
+    const id = `0xmock${(++this.orderSeq).toString(16).padStart(8, '0')}`;
+    const record: MockOrder = {
+      id,
+      status: 'LIVE',
+      market: book.market,
+      asset_id: order.tokenId,
+      side,
+      price,
+      original_size: size,
+      size_matched: 0,
+      owner: payload?.owner || '',
+      created_at: Math.floor(this.now() / 1000),
+    };
+    this.orders.set(id, record);
+    this.match(record);
+
+    return {
+      status: 200,
+      body: { success: true, errorMsg: '', orderID: id, status: record.status === 'MATCHED' ? 'matched' : 'live' },
+    };
+  }
+
+  getOrder(id: string): MockResponse {
+    const order = this.orders.get(id);
+    return order ? { status: 200, body: this.toRawOrder(order) } : { status: 404, body: { error: 'Order not found' } };
+  }
+
+  listOrders(query: URLSearchParams): MockResponse {
+    const market = query.get('market');
+    const assetId = query.get('asset_id');
+    const rows = Array.from(this.orders.values())
+      .filter(o => o.status === 'LIVE')
+      .filter(o => !market || o.market === market)
+      .filter(o => !assetId || o.asset_id === assetId)
+      .map(o => this.toRawOrder(o));
+    return { status: 200, body: rows };
+  }
+
+  cancel(id: string): MockResponse {
+    const order = this.orders.get(id);
+    if (!order || order.status !== 'LIVE') {
+      return { status: 200, body: { canceled: [], not_canceled: { [id]: order ? 'order already matched or canceled' : 'order not found' } } };
+    }
+    order.status = 'CANCELED';
+    return { status: 200, body: { canceled: [id], not_canceled: {} } };
+  }
+
+  cancelAll(): MockResponse {
+    const canceled: string[] = [];
+    for (const order of this.orders.values()) {
+      if (order.status === 'LIVE') {
+        order.status = 'CANCELED';
+        canceled.push(order.id);
+      }
+    }
+    return { status: 200, body: { canceled, not_canceled: {} } };
+  }
+
+  // --- Scenario steps ---
+
+  applyStep(step: ScenarioStep): void {
+    switch (step.action) {
+      case 'price':
+        this.movePrice(step.tokenId, step.price);
+        break;
+      case 'rejectOrders':
+        this.rejectRemaining = step.count ?? Number.POSITIVE_INFINITY;
+        this.rejectReason = step.reason || this.rejectReason;
+        break;
+      case 'acceptOrders':
+        this.rejectRemaining = 0;
+        break;
+      case 'resolve':
+        this.resolve(step.marketId, step.winner);
+        break;
+    }
+  }
+
+  // Shift a token's ladder to a new mid; the binary complement moves the other way
+  private movePrice(tokenId: string, price: number): void {
+    const market = this.marketForToken(tokenId);
+    this.shiftBook(tokenId, price);
+
+    if (market) {
+      const tokens = this.tokenIds(market);
+      if (tokens.length === 2) {
+        const other = tokens.find(t => t !== tokenId)!;
+        this.shiftBook(other, round(1 - price, 2));
+      }
+      this.syncMarketPrices(market);
+    }
+
+    for (const order of this.orders.values()) {
+      if (order.status === 'LIVE') this.match(order);
+    }
+  }
+
+  private shiftBook(tokenId: string, mid: number): void {
+    const book = this.books.get(tokenId);
+    if (!book) return;
+
+    const currentMid = this.mid(tokenId) ?? mid;
+    const delta = mid - currentMid;
+    const shift = (levels: Level[]) => levels
+      .map(l => ({ ...l, price: round(l.price + delta, 2) }))
+      .filter(l => l.price >= 0.01 && l.price <= 0.99);
+
+    book.bids = shift(book.bids).filter(l => l.price < mid);
+    book.asks = shift(book.asks).filter(l => l.price > mid);
+    this.recordPrice(tokenId);
+    this.publishBook(tokenId);
+  }
+
+  private resolve(marketId: string, winner: string): void {
+    const market = this.markets.find(m => String(m.id) === marketId);
+    if (!market) return;
+
+    const names = market.tokens
+      ? market.tokens.map(t => t.outcome)
+      : parseList(market.outcomes);
+    const payouts = names.map(name => (name.toLowerCase() === winner.toLowerCase() ? 1 : 0));
+
+    market.closed = true;
+    market.umaResolutionStatus = 'resolved';
+    market.updatedAt = new Date(this.now()).toISOString();
+    if (market.tokens) {
+      market.tokens.forEach((t, i) => {
+        t.price = payouts[i];
+        t.winner = payouts[i] === 1;
+      });
+    } else {
+      market.outcomePrices = JSON.stringify(payouts.map(String));
+    }
+
+    for (const tokenId of this.tokenIds(market)) {
+      const book = this.books.get(tokenId);
+      if (book) {
+        book.bids = [];
+        book.asks = [];
+        this.publishBook(tokenId);
+      }
+    }
+    for (const order of this.orders.values()) {
+      if (order.market === marketId && order.status === 'LIVE') order.status = 'CANCELED';
+    }
+  }
+
+  // --- Internals ---
+
+  private matchable(book: { bids: Level[]; asks: Level[] }, side: 'BUY' | 'SELL', price: number): number {
+    const levels = side === 'BUY'
+      ? book.asks.filter(l => l.price <= price)
+      : book.bids.filter(l => l.price >= price);
+    return levels.reduce((sum, l) => sum + l.size, 0);
+  }
+
+  // Cross a live order against the opposite side of its book
+  private match(order: MockOrder): void {
+    const book = this.books.get(order.asset_id);
+    if (!book) return;
+
+    const levels = order.side === 'BUY' ? book.asks : book.bids;
+    let remaining = order.original_size - order.size_matched;
+    const changes: { price: string; side: 'BUY' | 'SELL'; size: string }[] = [];
+
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      const crosses = order.side === 'BUY' ? level.price <= order.price : level.price >= order.price;
+      if (!crosses) break;
+
+      const take = Math.min(remaining, level.size);
+      level.size = round(level.size - take, 2);
+      remaining = round(remaining - take, 6);
+      order.size_matched = round(order.size_matched + take, 6);
+      changes.push({ price: level.price.toFixed(2), side: order.side === 'BUY' ? 'SELL' : 'BUY', size: level.size.toFixed(2) });
+    }
+
+    if (order.side === 'BUY') book.asks = book.asks.filter(l => l.size > 0);
+    else book.bids = book.bids.filter(l => l.size > 0);
+
+    if (remaining <= 0) order.status = 'MATCHED';
+
+    if (changes.length > 0) {
+      const event: MarketChannelEvent = {
+        event_type: 'price_change',
+        asset_id: order.asset_id,
+        market: book.market,
+        changes,
+        timestamp: String(this.now()),
+      };
+      this.listeners.forEach(listener => listener(event));
+    }
+  }
+
+  private toRawOrder(order: MockOrder) {
+    return {
+      id: order.id,
+      status: order.status,
+      market: order.market,
+      asset_id: order.asset_id,
+      side: order.side,
+      price: order.price.toFixed(4),
+      original_size: order.original_size.toString(),
+      size_matched: order.size_matched.toString(),
+      owner: order.owner,
+      created_at: order.created_at,
+    };
+  }
+
+  private tokenIds(market: RawMarket): string[] {
+    return market.tokens
+      ? market.tokens.map(t => String(t.token_id))
+      : parseList(market.clobTokenIds);
+  }
+
+  private marketForToken(tokenId: string): RawMarket | undefined {
+    return this.markets.find(m => this.tokenIds(m).includes(tokenId));
+  }
+
+  private mid(tokenId: string): number | undefined {
+    const book = this.books.get(tokenId);
+    if (!book || !book.bids.length || !book.asks.length) return undefined;
+    return round((book.bids[0].price + book.asks[0].price) / 2);
+  }
+
+  // Keep Gamma's quoted prices in line with the books
+  private syncMarketPrices(market: RawMarket): void {
+    const prices = this.tokenIds(market).map(id => this.mid(id));
+    if (market.tokens) {
+      market.tokens.forEach((t, i) => {
+        if (prices[i] !== undefined) t.price = prices[i];
+      });
+    } else {
+      const current = parseList(market.outcomePrices);
+      market.outcomePrices = JSON.stringify(prices.map((p, i) => String(p ?? current[i])));
+    }
+    market.updatedAt = new Date(this.now()).toISOString();
+  }
+
+  private recordPrice(tokenId: string): void {
+    const mid = this.mid(tokenId);
+    if (mid === undefined) return;
+    const series = this.history.get(tokenId) ?? [];
+    series.push({ t: Math.floor(this.now() / 1000), p: mid });
+    this.history.set(tokenId, series);
+  }
+}
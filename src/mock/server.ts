@@ -0,0 +1,238 @@
+// Mock Polymarket Server - Offline Gamma + CLOB stand-in
+//
+//   pnpm mock-server                         # fixtures only
+//   pnpm mock-server --scenario price-shock  # replay a scripted scenario
+//   pnpm mock-server --port 4010 --scenario ./my-scenario.json
+//
+// Point the app at it with POLYMARKET_MOCK_URL=http://localhost:4010 pnpm dev,
+// or pass { gammaUrl, clobUrl } to initializeAPI(). The CLOB market channel is
+// served at ws://localhost:4010/ws/market.
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { readFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import {
+  MockExchange,
+  type MarketChannelEvent,
+  type MockFixtures,
+  type MockResponse,
+  type RawOrderPayload,
+  type Scenario,
+  type ScenarioStep,
+} from './mock-exchange';
+
+const FIXTURES_DIR = new URL('./fixtures/', import.meta.url);
+const SCENARIOS_DIR = new URL('./scenarios/', import.meta.url);
+
+const readJson = async (url: URL | string) => JSON.parse(await readFile(url, 'utf8'));
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) args[argv[i].slice(2)] = argv[i + 1] ?? '';
+  }
+  return args;
+};
+
+const loadScenario = async (nameOrPath: string): Promise<Scenario> => {
+  const source = nameOrPath.endsWith('.json') ? nameOrPath : new URL(`${nameOrPath}.json`, SCENARIOS_DIR);
+  return readJson(source);
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, { status, body }: MockResponse) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,DELETE,OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const route = async (exchange: MockExchange, req: IncomingMessage): Promise<MockResponse> => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  // Accept both /gamma/... and the app's /api/gamma/... prefixes
+  const path = url.pathname.replace(/^\/api(?=\/)/, '');
+  const method = req.method || 'GET';
+  const query = url.searchParams;
+  const authed = !!req.headers['poly_api_key'];
+
+  if (method === 'OPTIONS') return { status: 204, body: null };
+
+  // Gamma
+  if (method === 'GET' && path === '/gamma/markets') return { status: 200, body: exchange.listMarkets(query) };
+  if (method === 'GET' && path === '/gamma/events') return { status: 200, body: exchange.listEvents(query) };
+
+  // CLOB public
+  if (method === 'GET' && path === '/clob/book') return exchange.getBook(query.get('token_id') || '');
+  if (method === 'GET' && path === '/clob/price') return exchange.getPrice(query.get('token_id') || '', query.get('side'));
+  if (method === 'GET' && path === '/clob/prices-history') return exchange.getPriceHistory(query.get('market') || '');
+
+  // Scenario control
+  if (method === 'POST' && path === '/__mock/step') {
+    const step = await readBody(req) as ScenarioStep;
+    exchange.applyStep(step);
+    console.log('[Mock] Applied manual step:', step);
+    return { status: 200, body: { ok: true } };
+  }
+
+  // CLOB private (any API key header is accepted)
+  if (path.startsWith('/clob/order') || path.startsWith('/clob/data') || path === '/clob/cancel-all') {
+    if (!authed) return { status: 401, body: { error: 'Unauthorized/Invalid api key' } };
+
+    if (method === 'POST' && path === '/clob/order') return exchange.placeOrder(await readBody(req) as RawOrderPayload | undefined);
+    if (method === 'DELETE' && path === '/clob/order') {
+      const body = await readBody(req) as { orderID?: string } | undefined;
+      return exchange.cancel(body?.orderID || '');
+    }
+    if (method === 'DELETE' && path === '/clob/cancel-all') return exchange.cancelAll();
+    if (method === 'GET' && path === '/clob/data/orders') return exchange.listOrders(query);
+    if (method === 'GET' && path.startsWith('/clob/data/order/')) return exchange.getOrder(path.split('/').pop() || '');
+  }
+
+  return { status: 404, body: { error: `No mock route for ${method} ${path}` } };
+};
+
+// CLOB market channel: a book per token on subscribe, then the exchange's
+// book snapshots and level changes for subscribed tokens. PING gets PONG.
+const attachMarketChannel = (server: Server, exchange: MockExchange): WebSocketServer => {
+  const channel = new WebSocketServer({ server, path: '/ws/market' });
+
+  channel.on('connection', socket => {
+    const subscribed = new Set<string>();
+    const push = (events: MarketChannelEvent[]) => {
+      if (events.length > 0 && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(events));
+    };
+    const stop = exchange.onMarketEvent(event => {
+      if (subscribed.has(event.asset_id)) push([event]);
+    });
+
+    socket.on('message', raw => {
+      const text = raw.toString();
+      if (text === 'PING') {
+        socket.send('PONG');
+        return;
+      }
+
+      let request: { assets_ids?: unknown[]; operation?: string };
+      try {
+        request = JSON.parse(text);
+      } catch {
+        return;
+      }
+      const tokenIds = (request.assets_ids ?? []).map(String);
+      if (request.operation === 'unsubscribe') {
+        tokenIds.forEach(id => subscribed.delete(id));
+        return;
+      }
+      tokenIds.forEach(id => subscribed.add(id));
+      push(tokenIds.map(id => exchange.bookEvent(id)).filter((e): e is MarketChannelEvent => e !== null));
+    });
+    socket.on('close', stop);
+  });
+
+  return channel;
+};
+
+export interface MockServerOptions {
+  port?: number;            // 0 picks a free port
+  scenario?: Scenario;
+  now?: () => number;       // Clock for order timestamps; defaults to wall time
+  log?: boolean;
+}
+
+export interface MockServer {
+  url: string;              // e.g. http://localhost:4010; Gamma under /gamma, CLOB under /clob
+  wsUrl: string;            // Market channel, e.g. ws://localhost:4010/ws/market
+  exchange: MockExchange;
+  close(): Promise<void>;
+}
+
+export const loadFixtures = async (): Promise<MockFixtures> => ({
+  markets: await readJson(new URL('gamma-markets.json', FIXTURES_DIR)),
+  books: await readJson(new URL('clob-books.json', FIXTURES_DIR)),
+});
+
+// Serve the fixtures (and play the scenario's steps on wall-clock timers) until closed
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const exchange = new MockExchange(await loadFixtures(), options.now);
+  const log = options.log ?? false;
+
+  const server = createServer(async (req, res) => {
+    try {
+      const response = await route(exchange, req);
+      if (log) console.log(`[Mock] ${req.method} ${req.url} -> ${response.status}`);
+      send(res, response);
+    } catch (error) {
+      console.error('[Mock] Handler error:', error);
+      send(res, { status: 500, body: { error: String(error) } });
+    }
+  });
+
+  const channel = attachMarketChannel(server, exchange);
+
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  if (options.scenario) {
+    const scenario = options.scenario;
+    if (log) console.log(`[Mock] Scenario "${scenario.name}": ${scenario.description || ''}`);
+    for (const step of scenario.steps) {
+      timers.push(setTimeout(() => {
+        exchange.applyStep(step);
+        if (log) console.log(`[Mock] Step @${step.atMs}ms:`, step.action);
+      }, step.atMs));
+    }
+  }
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://localhost:${port}`,
+    wsUrl: `ws://localhost:${port}/ws/market`,
+    exchange,
+    close: () => {
+      timers.forEach(clearTimeout);
+      channel.clients.forEach(client => client.terminate());
+      channel.close();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const port = parseInt(args.port || process.env.MOCK_PORT || '4010', 10);
+  const scenario = args.scenario ? await loadScenario(args.scenario) : undefined;
+
+  const server = await startMockServer({ port, scenario, log: true });
+  console.log(`[Mock] Polymarket stand-in listening on ${server.url} (market channel ${server.wsUrl})`);
+
+  const shutdown = () => {
+    void server.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+// Run as a script (pnpm mock-server); importing only exposes startMockServer
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(error => {
+    console.error('[Mock] Failed to start:', error);
+    process.exit(1);
+  });
+}
@@ -5,6 +5,7 @@ export interface Market {
   question: string;
   slug: string;
   endDate: string;
+  updatedAt?: string;
   liquidity: number;
   volume: number;
   outcomes: Outcome[];
@@ -12,6 +13,49 @@ export interface Market {
   closed?: boolean;
   category?: string;
   image?: string;
+  eventId?: string;        // Parent event, if Gamma reports one
+  eventTitle?: string;
+  groupItemTitle?: string; // Candidate label inside a multi-outcome event, e.g. "Trump"
+  negRisk?: boolean;       // Sibling markets are mutually exclusive (settles on the NegRisk exchange)
+  eventMarketCount?: number; // Open markets Gamma lists under the parent event, parsed or not
+  winningOutcomeId?: string; // Set once a closed market has resolved
+}
+
+// A set of related markets, e.g. "Who will win X?" with one market per candidate
+export interface MarketEvent {
+  id: string;
+  title: string;
+  slug: string;
+  endDate: string;
+  category?: string;
+  negRisk: boolean;
+  liquidity: number;
+  volume: number;
+  active: boolean;
+  closed?: boolean;
+  marketCount?: number; // Open markets Gamma lists for the event; unset when the event wasn't fetched
+  markets: Market[];
+}
+
+export interface MarketParseError {
+  index: number;      // Position in the raw response (across pages, in a sync report)
+  id?: string;
+  question?: string;
+  reason: string;
+  issues?: string[];  // Field-level validation messages
+}
+
+export interface MarketParseReport {
+  at: Date;
+  received: number;
+  parsed: number;
+  rejected: MarketParseError[];
+}
+
+// One /markets page with the validation report for it
+export interface MarketsPage {
+  markets: Market[];
+  report: MarketParseReport;
 }
 
 export interface Outcome {
@@ -20,8 +64,52 @@ export interface Outcome {
   price: number;
 }
 
+export interface OrderBookLevel {
+  price: number;
+  size: number; // shares available at this price
+}
+
+export interface OrderBook {
+  tokenId: string;
+  bids: OrderBookLevel[]; // best (highest) first
+  asks: OrderBookLevel[]; // best (lowest) first
+  timestamp?: number;
+}
+
+export interface PriceQuote {
+  tokenId: string;
+  bid?: number;
+  ask?: number;
+  mid?: number;
+  lastTradePrice?: number;
+  updatedAt: number; // epoch ms of the last update
+}
+
+export interface PricePoint {
+  timestamp: number; // epoch ms
+  price: number;
+}
+
+export type PriceHistoryInterval = '1m' | '1h' | '6h' | '1d' | '1w' | 'max';
+
+// Everything one scan saw, stored for charts, momentum signals and backtests
+// One raw model answer. subjectId is the market id, or `event:<id>` for event prompts.
+export interface RecordedLLMResponse {
+  subjectId: string;
+  at: number;
+  model: string;
+  response: string;
+}
+
+export interface MarketSnapshot {
+  timestamp: number; // epoch ms
+  markets: Market[];
+  marks?: Record<string, number>; // tokenId -> price for held positions
+}
+
 export interface Position {
   marketId: string;
+  tokenId?: string;
   marketQuestion: string;
   outcome: string;
   shares: number;
@@ -30,6 +118,111 @@ export interface Position {
   pnl: number;
   pnlPercent: number;
   isSimulated?: boolean;
+  awaitingResolution?: boolean; // Market closed, outcome not reported yet
+  negRisk?: boolean;            // Needed to sign the exit order
+  endDate?: string;
+  peakPrice?: number;           // Highest mark since entry, for trailing stops
+  exitRules?: ExitRules;        // Overrides AgentConfig.exitRules for this position
+  exitPending?: boolean;        // A SELL is working; don't queue another
+  strategy?: string;            // Strategy that opened it
+  category?: string;            // Copied from the market for exposure groups
+  eventId?: string;
+}
+
+// When to close a position before it resolves. Percentages are of cost basis.
+export interface ExitRules {
+  disabled?: boolean;            // Hold to resolution (e.g. basket legs)
+  stopLossPercent?: number;      // Exit at pnlPercent <= -x
+  takeProfitPercent?: number;    // Exit at pnlPercent >= x
+  trailingStopPercent?: number;  // Exit after falling x% from peakPrice
+  exitHoursBeforeEnd?: number;   // Exit once endDate is this close
+  exitOnEdgeFlip?: boolean;      // Exit when a scan favours the other side
+}
+
+// When the agent may bet a market it already acted on
+export interface ReEntryRules {
+  cooldownMs: number;          // Wait at least this long after the last entry
+  minPriceImprovement: number; // Adding needs a price this much better (0-1) than the last entry
+  maxAdds: number;             // Entries after the first while the position is open
+}
+
+export interface ExitSignal {
+  position: Position;
+  rule: keyof ExitRules;
+  reason: string;
+}
+
+export interface Settlement {
+  marketId: string;
+  marketQuestion: string;
+  outcome: string;
+  winningOutcome: string;
+  shares: number;
+  payoutPerShare: number; // 1 if the held outcome won, else 0
+  proceeds: number;
+  realizedPnl: number;
+  settledAt: Date;
+  strategy?: string;
+}
+
+// --- Ledger ---
+
+export type LedgerEntryType = 'DEPOSIT' | 'WITHDRAWAL' | 'FILL' | 'FEE' | 'SETTLEMENT';
+
+// One cash movement. Bankroll is the sum of `cash`, realized PnL the sum of `realizedPnl`.
+export interface LedgerEntry {
+  id: string;
+  at: number;
+  type: LedgerEntryType;
+  cash: number;         // Signed: money in is positive
+  realizedPnl: number;  // PnL this entry locks in (0 for buys, deposits and fees)
+  marketId?: string;
+  outcome?: string;
+  side?: 'BUY' | 'SELL';
+  shares?: number;
+  price?: number;
+  tradeId?: string;
+  note?: string;
+}
+
+// Equity when the current trading day began, for day-bounded PnL
+export interface LedgerDay {
+  day: string;          // YYYY-MM-DD in the configured time zone
+  openedAt: number;
+  openingEquity: number;
+  netDeposits: number;  // Deposits minus withdrawals since the day began
+}
+
+export type OrderStatus = 'LIVE' | 'MATCHED' | 'DELAYED' | 'UNMATCHED' | 'CANCELED';
+
+export interface OpenOrder {
+  id: string;
+  tokenId: string;
+  marketId?: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  status: OrderStatus;
+  createdAt?: number; // epoch ms
+  avgPrice?: number;  // Average price of matched shares, when the venue reports it
+}
+
+export interface PlaceOrderParams {
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  size: number;
+  price?: number;
+  negRisk?: boolean;
+  tickSize?: number;
+  orderType?: 'GTC' | 'FOK'; // Defaults to FOK without a price, GTC with one
+}
+
+export interface PlaceOrderResult {
+  success: boolean;
+  orderId?: string;
+  status?: OrderStatus;
+  error?: string;
 }
 
 export interface Trade {
@@ -39,24 +232,50 @@ export interface Trade {
   marketQuestion: string;
   outcome: string;
   side: 'BUY' | 'SELL';
+  tokenId?: string;
+  strategy?: string; // Strategy behind the opportunity, for per-strategy PnL
   shares: number;
   price: number;
   total: number;
-  status: 'PENDING' | 'FILLED' | 'CANCELLED' | 'FAILED';
+  status: 'PENDING' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'FAILED';
+  orderId?: string;
+  basketId?: string;     // Shared by every leg of a multi-leg basket
+  filledShares?: number; // Shares actually matched so far (live orders)
   isSimulated?: boolean;
   reasoning?: string;
 }
 
 export interface BettingOpportunity {
   market: Market;
-  outcome: Outcome;
-  strategy: 'UNDERVALUED' | 'OVERVALUED';
+  outcome: Outcome;        // The token actually bought: a NO bet holds the NO outcome
+  strategy: string; // Id of the registered strategy that produced it
   recommendedBet: 'YES' | 'NO';
   confidence: number;
+  winProbability: number;  // Estimated chance `outcome` pays out; drives Kelly sizing
   suggestedAmount: number;
   expectedValue: number;
   reasoning?: string;
   keyFactors?: string[];
+  legs?: OpportunityLeg[];  // Multi-leg basket: every leg trades the same share count
+  lockedProfit?: number;    // Basket profit per share set, after fees
+  exitRules?: ExitRules;    // Copied onto the position it opens
+  rejectionReason?: string; // Why the latest cycle did not act on it
+}
+
+// One outcome of a basket, priced at the top of its book when detected
+export interface OpportunityLeg {
+  market: Market;
+  outcome: Outcome;
+  side: 'BUY' | 'SELL';
+  price: number; // Best ask for a BUY leg, best bid for a SELL leg
+  size: number;  // Shares resting at that price
+}
+
+export interface BasketSizing {
+  sets: number;      // Share count for every leg
+  amount: number;    // Capital committed, fees included
+  costPerSet: number;
+  limitedBy?: string;
 }
 
 export interface SafetyLimits {
@@ -65,32 +284,125 @@ export interface SafetyLimits {
   maxTotalExposure: number;
   maxPositionPercent: number;
   minLiquidity: number;
+  maxDepthShare: number; // Max share of visible book depth a single bet may take
+  maxCategoryExposure?: number; // $ at cost across all markets of one Market.category
+  maxEventExposure?: number;    // $ at cost across all markets of one parent event
+  exposureTags?: ExposureTag[]; // User-defined groups of correlated markets
+}
+
+// NORMAL trades at full size, REDUCED sizes with the dynamic limits, PAUSED makes no
+// new entries (exits and price updates keep running)
+export type BreakerLevel = 'NORMAL' | 'REDUCED' | 'PAUSED';
+
+export interface CircuitBreakerRules {
+  softLossFraction: number; // REDUCED once today's loss passes this share of maxDailyLoss
+  recoverLossFraction: number; // Back to NORMAL only once the loss is under this share (below softLossFraction)
+  cooldownMs?: number;      // Try to resume this long after a pause; unset = wait for the next day
+  resumeNextDay: boolean;   // Resume when a new trading day starts
+}
+
+export interface CircuitBreakerState {
+  level: BreakerLevel;
+  reason?: string;
+  since: number;     // When the current level began
+  day?: string;      // Trading day the pause began on
+  resumeAt?: number; // Next cooldown check while PAUSED
+}
+
+// Markets matching any of the selectors share one exposure cap
+export interface ExposureTag {
+  name: string;
+  maxExposure: number;
+  marketIds?: string[];
+  eventIds?: string[];
+  categories?: string[];
+  keywords?: string[]; // Case-insensitive match on the market question
+}
+
+// One exposure group a market belongs to, and how full it is
+export interface ExposureGroupUsage {
+  key: string;    // e.g. "category:Politics", "event:9001", "tag:us-election"
+  label: string;  // For messages, e.g. 'event "Who will win the 2026 mayoral race?"'
+  cap: number;
+  exposure: number;
+  remaining: number;
+}
+
+export interface FillEstimate {
+  shares: number;
+  cost: number;
+  avgPrice: number;
+  levelsUsed: number;
+}
+
+export interface PositionSizing {
+  amount: number;
+  shares: number;
+  avgFillPrice: number;
+  depthCap?: number; // Dollar cap from book depth, if a book was supplied
+  limitedBy?: string; // Safety limit or exposure group that capped or blocked the size
+}
+
+// Per-strategy overrides, keyed by strategy id
+export interface StrategySettings {
+  enabled?: boolean;
+  params?: Record<string, number | string | boolean>;
 }
 
 export interface AgentState {
   isRunning: boolean;
   bankroll: number;
-  todayPnL: number;
-  totalPnL: number;
+  todayPnL: number;         // Equity change since the trading day began, deposits excluded
+  totalPnL: number;         // Realized + unrealized
+  realizedPnL?: number;
+  unrealizedPnL?: number;
+  ledger?: LedgerEntry[];
+  ledgerDay?: LedgerDay;
   positions: Position[];
+  settlements?: Settlement[];
   trades: Trade[];
   opportunities: BettingOpportunity[];
-  safetyTriggered: boolean;
+  safetyTriggered: boolean; // The circuit breaker has paused entries
   safetyReason?: string;
+  breaker?: CircuitBreakerState;
   isSimulationMode?: boolean;
   marketsScanned?: number;
   lastScanTime?: Date;
 }
 
+// The figures alerts and summaries report, without the full state behind them
+export interface StateSummary {
+  equity: number;
+  bankroll: number;
+  todayPnL: number;
+  totalPnL: number;
+  breaker: BreakerLevel;
+  positions: number;    // Open positions
+  trades: number;
+  filledTrades: number;
+}
+
 export interface AgentConfig {
   apiKey: string;
   apiSecret: string;
   passphrase: string; // [BARU] Tambahkan field ini
   walletAddress: string;
+  privateKey?: string;     // Signs orders locally; never sent anywhere
+  signatureType?: number;  // 0 = EOA, 1 = Polymarket proxy, 2 = Gnosis Safe
   safetyLimits: SafetyLimits;
   undervaluedThreshold: number;
   overvaluedThreshold: number;
-  scanIntervalMs: number;
+  strategies?: Record<string, StrategySettings>;
+  exitRules?: ExitRules;   // Default exit rules for every position
+  reEntry?: Partial<ReEntryRules>;
+  circuitBreaker?: Partial<CircuitBreakerRules>;
+  scanIntervalMs: number;   // Market scan + entries
+  priceRefreshMs?: number;  // Reprice positions, settle and check exits (default 5s)
+  llmIntervalMs?: number;   // LLM analysis of the top events (default 10 min)
+  dailySummaryAt?: string;  // 'HH:MM' in timeZone for the daily summary (default '00:00')
+  timeZone?: string;        // IANA zone where the trading day (and todayPnL) resets (default UTC)
+  orderPollMs?: number;     // How often resting live orders are polled
+  orderTimeoutMs?: number;  // Cancel live orders still resting after this long
   autoExecute: boolean;
   simulationMode?: boolean;
 }
\ No newline at end of file
@@ -3,6 +3,9 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 
+// Set POLYMARKET_MOCK_URL (e.g. http://localhost:4010) to develop against `pnpm mock-server`
+const mockUrl = process.env.POLYMARKET_MOCK_URL
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
@@ -15,13 +18,13 @@ export default defineConfig({
     proxy: {
       // Proxy untuk Gamma API (Market Data)
       '/api/gamma': {
-        target: 'https://gamma-api.polymarket.com',
+        target: mockUrl ? `${mockUrl}/gamma` : 'https://gamma-api.polymarket.com',
         changeOrigin: true,
         rewrite: (path) => path.replace(/^\/api\/gamma/, ''),
       },
       // Proxy untuk CLOB API (Order/Trading)
       '/api/clob': {
-        target: 'https://clob.polymarket.com',
+        target: mockUrl ? `${mockUrl}/clob` : 'https://clob.polymarket.com',
         changeOrigin: true,
         rewrite: (path) => path.replace(/^\/api\/clob/, ''),
       },